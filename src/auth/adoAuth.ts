@@ -0,0 +1,64 @@
+// Azure DevOps accepts two kinds of credentials:
+// - Personal Access Tokens, sent as Basic auth with an empty user name
+// - Entra ID (OAuth) access tokens, sent as Bearer tokens
+// Entra tokens are JWTs; anything else is treated as a PAT.
+
+export type AdoTokenKind = "pat" | "entra";
+
+const JWT_PATTERN = /^eyJ[\w-]*\.[\w-]+\.[\w-]*$/;
+
+export function detectTokenKind(token: string): AdoTokenKind {
+    return JWT_PATTERN.test(token) ? "entra" : "pat";
+}
+
+/**
+ * Builds the Authorization header value ADO expects for a token.
+ */
+export function adoAuthorizationHeader(token: string): string {
+    return detectTokenKind(token) === "entra" ? `Bearer ${token}` : `Basic ${btoa(`:${token}`)}`;
+}
+
+/**
+ * Reads the ADO token from a request's Authorization header.
+ * - "Bearer <token>" carries a PAT or an Entra access token as-is
+ * - "Basic <base64(user:pat)>" is how ADO clients usually send PATs; the user name is ignored
+ */
+export function tokenFromAuthorizationHeader(header: string | null): string | undefined {
+    const [, scheme, value] = header?.match(/^(\w+)\s+(.+)$/) ?? [];
+    if (!scheme || !value) return undefined;
+
+    if (scheme.toLowerCase() === "bearer") return value.trim();
+    if (scheme.toLowerCase() === "basic") {
+        try {
+            const decoded = atob(value.trim());
+            const separator = decoded.indexOf(":");
+            return (separator >= 0 ? decoded.slice(separator + 1) : decoded) || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Reads the claims of a JWT without verifying it; only used to label grants
+ * with the signed-in user, never to make authorization decisions.
+ */
+export function decodeJwtClaims(token: string): Record<string, unknown> {
+    const [, payload = ""] = token.split(".");
+    try {
+        const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+        const bytes = Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "=")), c => c.charCodeAt(0));
+        return JSON.parse(new TextDecoder().decode(bytes)) as Record<string, unknown>;
+    } catch {
+        return {};
+    }
+}
+
+// Props handed to the MCP agent for each session (a type alias, as agent props must be a plain record)
+export type AdoAuthProps = {
+    adoToken: string;
+    // Set by the Entra OAuth flow so the upstream token can be refreshed
+    refreshToken?: string;
+    expiresAt?: number;
+};
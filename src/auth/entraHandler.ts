@@ -0,0 +1,173 @@
+import type {
+    AuthRequest,
+    OAuthHelpers,
+    TokenExchangeCallbackOptions,
+    TokenExchangeCallbackResult
+} from "@cloudflare/workers-oauth-provider";
+import { WorkerEntrypoint } from "cloudflare:workers";
+import type { Env } from "../interface/adoInterfaces";
+import { type AdoAuthProps, decodeJwtClaims } from "./adoAuth";
+
+// Azure DevOps' resource ID; offline_access gets a refresh token so sessions outlive the first access token
+const ENTRA_SCOPES = "499b84ac-1321-427f-aa17-267ca6975798/.default offline_access";
+const STATE_TTL_SECONDS = 600;
+// Refresh the upstream token when less than this much of its lifetime is left
+const REFRESH_MARGIN_SECONDS = 300;
+
+interface EntraTokenResponse {
+    access_token: string;
+    refresh_token?: string;
+    expires_in: number;
+}
+
+/**
+ * The OAuth flow is on when an Entra app is configured and there is somewhere to keep grants.
+ */
+export function isOAuthEnabled(env: Env): boolean {
+    return Boolean(env.ENTRA_CLIENT_ID && env.OAUTH_KV);
+}
+
+function oauthBindings(env: Env): { provider: OAuthHelpers; kv: KVNamespace } {
+    if (!env.OAUTH_PROVIDER || !env.OAUTH_KV) {
+        throw new Error("The OAuth flow requires the OAUTH_KV binding.");
+    }
+    return { provider: env.OAUTH_PROVIDER, kv: env.OAUTH_KV };
+}
+
+function entraUrl(env: Env, endpoint: "authorize" | "token"): string {
+    return `https://login.microsoftonline.com/${env.ENTRA_TENANT_ID || "organizations"}/oauth2/v2.0/${endpoint}`;
+}
+
+async function requestEntraToken(env: Env, params: Record<string, string>): Promise<EntraTokenResponse> {
+    const response = await fetch(entraUrl(env, "token"), {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+            client_id: env.ENTRA_CLIENT_ID ?? "",
+            client_secret: env.ENTRA_CLIENT_SECRET ?? "",
+            scope: ENTRA_SCOPES,
+            ...params
+        })
+    });
+    if (!response.ok) {
+        // Entra errors are JSON; a gateway in front of it may answer with an HTML page instead
+        const body = await response.text().catch(() => "");
+        let detail: string | undefined;
+        try {
+            detail = (JSON.parse(body) as { error_description?: string }).error_description;
+        } catch {
+            detail = undefined;
+        }
+        throw new Error(`Entra ID token request failed: ${detail ?? `status ${response.status}`}`);
+    }
+
+    const data = (await response.json().catch(() => undefined)) as EntraTokenResponse | undefined;
+    if (!data?.access_token) throw new Error("Entra ID token request failed: the response has no access token.");
+    return data;
+}
+
+function toAuthProps(token: EntraTokenResponse, previous?: AdoAuthProps): AdoAuthProps {
+    return {
+        adoToken: token.access_token,
+        // Entra may not rotate the refresh token on every refresh
+        refreshToken: token.refresh_token ?? previous?.refreshToken,
+        expiresAt: Date.now() + token.expires_in * 1000
+    };
+}
+
+/**
+ * Starts sign-in: remembers the MCP client's authorization request and sends the user to Entra ID.
+ */
+async function authorize(request: Request, env: Env): Promise<Response> {
+    const { provider, kv } = oauthBindings(env);
+    const authRequest = await provider.parseAuthRequest(request);
+    if (!authRequest.clientId || !(await provider.lookupClient(authRequest.clientId))) {
+        return new Response("Unknown OAuth client.", { status: 400 });
+    }
+
+    const state = crypto.randomUUID();
+    await kv.put(`entra-state:${state}`, JSON.stringify(authRequest), { expirationTtl: STATE_TTL_SECONDS });
+
+    const redirect = new URL(entraUrl(env, "authorize"));
+    redirect.searchParams.set("client_id", env.ENTRA_CLIENT_ID ?? "");
+    redirect.searchParams.set("response_type", "code");
+    redirect.searchParams.set("response_mode", "query");
+    redirect.searchParams.set("redirect_uri", new URL("/callback", request.url).href);
+    redirect.searchParams.set("scope", ENTRA_SCOPES);
+    redirect.searchParams.set("state", state);
+    return Response.redirect(redirect.href, 302);
+}
+
+/**
+ * Finishes sign-in: swaps Entra's code for an ADO access token and completes the MCP client's grant with it.
+ */
+async function callback(request: Request, env: Env): Promise<Response> {
+    const { provider, kv } = oauthBindings(env);
+    const url = new URL(request.url);
+
+    const error = url.searchParams.get("error_description") ?? url.searchParams.get("error");
+    if (error) return new Response(`Sign-in failed: ${error}`, { status: 400 });
+
+    const state = url.searchParams.get("state");
+    const code = url.searchParams.get("code");
+    const stored = state ? await kv.get(`entra-state:${state}`) : null;
+    if (!state || !code || !stored) {
+        return new Response("The sign-in request is invalid or has expired. Start again from your MCP client.", { status: 400 });
+    }
+    await kv.delete(`entra-state:${state}`);
+
+    const authRequest = JSON.parse(stored) as AuthRequest;
+    const token = await requestEntraToken(env, {
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: new URL("/callback", request.url).href
+    });
+
+    const claims = decodeJwtClaims(token.access_token);
+    const userId = String(claims.oid ?? claims.sub ?? "unknown");
+    const { redirectTo } = await provider.completeAuthorization({
+        request: authRequest,
+        userId,
+        metadata: { label: String(claims.upn ?? claims.unique_name ?? claims.name ?? userId) },
+        scope: authRequest.scope,
+        props: toAuthProps(token)
+    });
+    return Response.redirect(redirectTo, 302);
+}
+
+/**
+ * Non-API routes of the OAuth provider: the authorize page and the Entra ID redirect target.
+ * A WorkerEntrypoint, so the provider's handler type checks it against the runtime's own Request.
+ */
+export class EntraAuthHandler extends WorkerEntrypoint<Env> {
+    async fetch(request: Request): Promise<Response> {
+        const { pathname } = new URL(request.url);
+        try {
+            if (pathname === "/authorize") return await authorize(request, this.env);
+            if (pathname === "/callback") return await callback(request, this.env);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+            return new Response(`Sign-in failed: ${errorMessage}`, { status: 500 });
+        }
+        return new Response("Not found", { status: 404 });
+    }
+}
+
+/**
+ * Keeps MCP tokens in step with the Entra token behind them: MCP access tokens expire with
+ * the upstream token, and refreshing the MCP token refreshes the upstream one when it is due.
+ */
+export async function exchangeEntraToken(
+    env: Env,
+    { grantType, props }: TokenExchangeCallbackOptions
+): Promise<TokenExchangeCallbackResult | undefined> {
+    const current = props as AdoAuthProps;
+    const remainingSeconds = Math.floor(((current.expiresAt ?? 0) - Date.now()) / 1000);
+
+    if (grantType === "authorization_code" || remainingSeconds > REFRESH_MARGIN_SECONDS || !current.refreshToken) {
+        return { accessTokenTTL: Math.max(remainingSeconds, 60) };
+    }
+
+    const token = await requestEntraToken(env, { grant_type: "refresh_token", refresh_token: current.refreshToken });
+    return { newProps: toAuthProps(token, current), accessTokenTTL: token.expires_in };
+}
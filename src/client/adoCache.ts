@@ -0,0 +1,89 @@
+import type { Env } from "../interface/adoInterfaces";
+
+// Slow-changing ADO data worth keeping for the length of a session
+export const CACHE_KINDS = ["projects", "teams", "iterations", "areas", "workItemTypes", "fields"] as const;
+export type CacheKind = (typeof CACHE_KINDS)[number];
+
+export type CacheTtls = Record<CacheKind, number>;
+
+// Seconds; iterations are shorter because "current sprint" moves on sprint boundaries
+const DEFAULT_TTLS: CacheTtls = {
+    projects: 3600,
+    teams: 3600,
+    iterations: 600,
+    areas: 3600,
+    workItemTypes: 86400,
+    fields: 86400
+};
+
+export interface AdoCache {
+    // Returns the cached value for kind/key, or loads, stores and returns it
+    getOrLoad<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T>;
+    // Drops entries of the given kinds (default: all) and returns how many were removed
+    invalidate(kinds?: CacheKind[]): number;
+}
+
+/**
+ * Reads ADO_CACHE_TTLS, comma-separated `kind=seconds` overrides of the default TTLs
+ * (e.g. "projects=600,fields=0"). A TTL of 0 turns caching off for that kind.
+ */
+export function cacheTtlsFromEnv(env: Pick<Env, "ADO_CACHE_TTLS">): CacheTtls {
+    const ttls = { ...DEFAULT_TTLS };
+    for (const entry of (env.ADO_CACHE_TTLS ?? "").split(",")) {
+        const [kind, seconds] = entry.split("=").map(part => part.trim());
+        if (!kind) continue;
+        if (!(CACHE_KINDS as readonly string[]).includes(kind) || !/^\d+$/.test(seconds ?? "")) {
+            console.warn(`Ignoring invalid ADO_CACHE_TTLS entry "${entry.trim()}"`);
+            continue;
+        }
+        ttls[kind as CacheKind] = Number(seconds);
+    }
+    return ttls;
+}
+
+/**
+ * Cache backed by the session Durable Object's SQLite storage, so entries survive the
+ * object being evicted from memory while the session lives on.
+ * - Expired entries are ignored on read and pruned on write
+ * - Storage failures (e.g. a value over the row size limit) fall back to loading uncached
+ */
+export function createSqlCache(sql: SqlStorage, ttls: CacheTtls): AdoCache {
+    sql.exec(`CREATE TABLE IF NOT EXISTS ado_cache (
+        kind TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, key)
+    )`);
+
+    return {
+        async getOrLoad<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T> {
+            if (ttls[kind] <= 0) return load();
+
+            const now = Date.now();
+            const [row] = sql.exec<{ value: string }>(
+                "SELECT value FROM ado_cache WHERE kind = ? AND key = ? AND expires_at > ?",
+                kind, key, now
+            ).toArray();
+            if (row) return JSON.parse(row.value) as T;
+
+            const value = await load();
+            try {
+                sql.exec("DELETE FROM ado_cache WHERE expires_at <= ?", now);
+                sql.exec(
+                    "INSERT OR REPLACE INTO ado_cache (kind, key, value, expires_at) VALUES (?, ?, ?, ?)",
+                    kind, key, JSON.stringify(value), now + ttls[kind] * 1000
+                );
+            } catch (error) {
+                console.error(`Error caching ${kind} (${key}):`, error);
+            }
+            return value;
+        },
+
+        invalidate(kinds: CacheKind[] = [...CACHE_KINDS]): number {
+            if (kinds.length === 0) return 0;
+            const placeholders = kinds.map(() => "?").join(", ");
+            return sql.exec(`DELETE FROM ado_cache WHERE kind IN (${placeholders}) RETURNING kind`, ...kinds).toArray().length;
+        }
+    };
+}
@@ -0,0 +1,271 @@
+import { adoAuthorizationHeader } from "../auth/adoAuth";
+import type { AdoCache, CacheKind } from "./adoCache";
+import {
+    AdoAuthenticationError,
+    AdoBadRequestError,
+    AdoError,
+    AdoInvalidResponseError,
+    AdoNotFoundError,
+    AdoPermissionError,
+    AdoResponseTooLargeError,
+    AdoServerError,
+    AdoThrottledError,
+    AdoTimeoutError
+} from "./adoErrors";
+
+export interface AdoClientOptions {
+    // Retries for 429 and (idempotent) 5xx responses
+    maxRetries?: number;
+    // Per-attempt timeout
+    timeoutMs?: number;
+    // Longest we are willing to wait before a retry; longer Retry-After values fail fast
+    maxRetryDelayMs?: number;
+    // Session cache for slow-changing data (projects, teams, ...); without one nothing is cached
+    cache?: AdoCache;
+    // Where organizations live (default https://dev.azure.com): an Azure DevOps Server URL, or a fake server in tests
+    serverUrl?: string;
+    // Defaults to the global fetch; tests pass a fake ADO server
+    fetch?: typeof fetch;
+}
+
+export const DEFAULT_SERVER_URL = "https://dev.azure.com";
+
+export interface AdoRequestOptions {
+    method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+    // Objects are sent as JSON; strings and binary bodies are sent unchanged
+    body?: unknown;
+    contentType?: string;
+    responseType?: "json" | "text" | "arrayBuffer";
+    // Largest arrayBuffer body to read; bigger ones fail with AdoResponseTooLargeError without being buffered
+    maxBytes?: number;
+    timeoutMs?: number;
+    // Whether a 5xx may be retried. Defaults to true for GET/PUT/DELETE only;
+    // read-only POSTs such as WIQL queries should opt in.
+    idempotent?: boolean;
+}
+
+export interface AdoResponse<T> {
+    data: T;
+    headers: Headers;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const MAX_ERROR_DETAIL_LENGTH = 300;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Extracts a short, readable message from an ADO error body.
+ * ADO returns JSON ({ message, typeKey, ... }) for API errors and HTML pages for gateway errors;
+ * HTML is dropped entirely.
+ */
+async function readErrorDetail(response: Response): Promise<string | undefined> {
+    const body = await response.text().catch(() => "");
+    if (!body) return undefined;
+
+    let detail: string | undefined;
+    try {
+        const parsed = JSON.parse(body) as { message?: string; value?: { Message?: string } };
+        detail = parsed.message ?? parsed.value?.Message;
+    } catch {
+        detail = /<[a-z!][\s\S]*>/i.test(body) ? undefined : body;
+    }
+
+    if (!detail) return undefined;
+    detail = detail.replace(/\s+/g, " ").trim();
+    return detail.length > MAX_ERROR_DETAIL_LENGTH ? `${detail.slice(0, MAX_ERROR_DETAIL_LENGTH)}…` : detail;
+}
+
+/**
+ * Works out how long to wait before retrying, in milliseconds.
+ * - Retry-After (seconds or HTTP date) wins
+ * - Otherwise X-RateLimit-Reset (epoch seconds) when the rate limit is exhausted
+ * - Otherwise exponential backoff with jitter
+ */
+function retryDelayMs(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get("Retry-After");
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!Number.isNaN(seconds)) return seconds * 1000;
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const remaining = response.headers.get("X-RateLimit-Remaining");
+    const reset = Number(response.headers.get("X-RateLimit-Reset"));
+    if (remaining === "0" && reset > 0) {
+        return Math.max(0, reset * 1000 - Date.now());
+    }
+
+    return 500 * 2 ** attempt + Math.floor(Math.random() * 250);
+}
+
+async function toAdoError(response: Response, retryAfterMs?: number): Promise<AdoError> {
+    const detail = await readErrorDetail(response);
+    switch (response.status) {
+        case 400:
+            return new AdoBadRequestError(detail);
+        case 401:
+            return new AdoAuthenticationError();
+        case 403:
+            return new AdoPermissionError(detail);
+        case 404:
+            return new AdoNotFoundError(detail);
+        case 429:
+            return new AdoThrottledError(retryAfterMs ? Math.ceil(retryAfterMs / 1000) : undefined);
+        default:
+            return response.status >= 500
+                ? new AdoServerError(response.status)
+                : new AdoError(detail ?? `Request failed with status ${response.status}.`, response.status);
+    }
+}
+
+/**
+ * Reads a binary body, giving up as soon as it is known to exceed maxBytes:
+ * up front from Content-Length when the server sends one, otherwise while streaming.
+ */
+async function readBytes(response: Response, maxBytes?: number): Promise<ArrayBuffer> {
+    if (maxBytes === undefined || !response.body) return response.arrayBuffer();
+
+    const contentLength = Number(response.headers.get("Content-Length") ?? Number.NaN);
+    if (contentLength > maxBytes) {
+        await response.body.cancel();
+        throw new AdoResponseTooLargeError(maxBytes, contentLength);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        length += chunk.value.byteLength;
+        if (length > maxBytes) {
+            await reader.cancel();
+            throw new AdoResponseTooLargeError(maxBytes);
+        }
+        chunks.push(chunk.value);
+    }
+
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return bytes.buffer;
+}
+
+async function readResponseBody(response: Response, request: AdoRequestOptions): Promise<unknown> {
+    const { responseType = "json", maxBytes } = request;
+    if (responseType === "arrayBuffer") return readBytes(response, maxBytes);
+    if (responseType === "text") return response.text();
+
+    const text = await response.text();
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new AdoInvalidResponseError(response.headers.get("Content-Type"));
+    }
+}
+
+/**
+ * Creates the HTTP client every tool talks to ADO through.
+ * - Resolves relative paths against the organization (see resolveOrganization) on the server URL;
+ *   clients without one can only call absolute URLs such as the profile APIs
+ * - Adds the auth header for the token kind (PAT or Entra) and content headers
+ * - Retries throttled and transient failures, and times out slow calls
+ * - Converts failures into the typed errors in adoErrors.ts
+ * - Serves slow-changing lookups from the session cache through `cached`
+ */
+export function createAdoClient(token: string, organization?: string, options: AdoClientOptions = {}) {
+    const { maxRetries = 3, timeoutMs = 30_000, maxRetryDelayMs = 30_000, cache, fetch: fetchImpl = fetch } = options;
+    const serverUrl = (options.serverUrl || DEFAULT_SERVER_URL).replace(/\/+$/, "");
+    const baseUrl = organization ? `${serverUrl}/${organization}` : "";
+    // Identities are served by vssps.dev.azure.com in the cloud and by the collection itself on a server
+    const identityBaseUrl = organization && serverUrl === DEFAULT_SERVER_URL ? `https://vssps.dev.azure.com/${organization}` : baseUrl;
+
+    async function send<T>(path: string, request: AdoRequestOptions = {}): Promise<AdoResponse<T>> {
+        const method = request.method ?? "GET";
+        const absolute = /^https?:\/\//.test(path);
+        if (!absolute && !organization) throw new Error("Organization name is required.");
+        const url = absolute ? path : `${baseUrl}/${path.replace(/^\//, "")}`;
+        const idempotent = request.idempotent ?? (method === "GET" || method === "PUT" || method === "DELETE");
+        const attemptTimeoutMs = request.timeoutMs ?? timeoutMs;
+
+        let body: BodyInit | undefined;
+        if (request.body === undefined || typeof request.body === "string" || request.body instanceof ArrayBuffer || request.body instanceof Uint8Array) {
+            body = request.body as BodyInit | undefined;
+        } else {
+            body = JSON.stringify(request.body);
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            // The timer covers the whole attempt, body included: a server can send headers promptly and then stall
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(), attemptTimeoutMs);
+
+            let delay: number;
+            try {
+                const response = await fetchImpl(url, {
+                    method,
+                    headers: {
+                        Authorization: adoAuthorizationHeader(token),
+                        "Content-Type": request.contentType ?? "application/json"
+                    },
+                    body,
+                    signal: controller.signal
+                });
+
+                // ADO answers an unauthenticated request with a 203 and an HTML sign-in page
+                if (response.status === 203 && !response.headers.get("Content-Type")?.includes("json")) {
+                    throw new AdoAuthenticationError();
+                }
+
+                if (response.ok) {
+                    return { data: (await readResponseBody(response, request)) as T, headers: response.headers };
+                }
+
+                const retryable = response.status === 429 || (idempotent && RETRYABLE_STATUSES.has(response.status));
+                delay = retryDelayMs(response, attempt);
+                if (!(retryable && attempt < maxRetries && delay <= maxRetryDelayMs)) {
+                    throw await toAdoError(response, delay);
+                }
+                await response.body?.cancel();
+            } catch (error: unknown) {
+                if (controller.signal.aborted && !(error instanceof AdoError)) throw new AdoTimeoutError(attemptTimeoutMs);
+                throw error;
+            } finally {
+                clearTimeout(timer);
+            }
+            await sleep(delay);
+        }
+    }
+
+    async function request<T>(path: string, options?: AdoRequestOptions): Promise<T> {
+        return (await send<T>(path, options)).data;
+    }
+
+    // Cache keys are scoped to the organization; the same project name can exist in several
+    function cached<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T> {
+        return cache ? cache.getOrLoad(kind, `${organization?.toLowerCase() ?? ""}/${key}`, load) : load();
+    }
+
+    return {
+        organization,
+        baseUrl,
+        identityBaseUrl,
+        send,
+        request,
+        cached,
+        get: <T>(path: string, options?: Omit<AdoRequestOptions, "method" | "body">) =>
+            request<T>(path, { ...options, method: "GET" }),
+        post: <T>(path: string, body?: unknown, options?: Omit<AdoRequestOptions, "method" | "body">) =>
+            request<T>(path, { ...options, method: "POST", body }),
+        patch: <T>(path: string, body?: unknown, options?: Omit<AdoRequestOptions, "method" | "body">) =>
+            request<T>(path, { ...options, method: "PATCH", body }),
+        delete: <T>(path: string, options?: Omit<AdoRequestOptions, "method" | "body">) =>
+            request<T>(path, { ...options, method: "DELETE" })
+    };
+}
+
+export type AdoClient = ReturnType<typeof createAdoClient>;
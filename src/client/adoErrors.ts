@@ -0,0 +1,82 @@
+// Typed errors raised by the ADO client. Messages are short and meant to be shown to the user as-is.
+
+export class AdoError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = "AdoError";
+    }
+}
+
+// 400: ADO rejected the request (bad WIQL, invalid field value, ...)
+export class AdoBadRequestError extends AdoError {
+    constructor(detail?: string) {
+        super(detail ? `Bad request: ${detail}` : "Bad request.", 400);
+        this.name = "AdoBadRequestError";
+    }
+}
+
+// 401, or a 203 sign-in page: the token is missing, invalid or expired
+export class AdoAuthenticationError extends AdoError {
+    constructor() {
+        super("Authentication failed: the Azure DevOps token is missing, invalid or expired.", 401);
+        this.name = "AdoAuthenticationError";
+    }
+}
+
+// 403: the token is valid but lacks the scope or permission
+export class AdoPermissionError extends AdoError {
+    constructor(detail?: string) {
+        super(`Access denied: the token lacks permission for this operation${detail ? ` (${detail})` : "."}`, 403);
+        this.name = "AdoPermissionError";
+    }
+}
+
+// 404: the project, team, work item or query does not exist or is not visible
+export class AdoNotFoundError extends AdoError {
+    constructor(detail?: string) {
+        super(detail ? `Not found: ${detail}` : "Not found.", 404);
+        this.name = "AdoNotFoundError";
+    }
+}
+
+// 429 that is still throttled after retrying
+export class AdoThrottledError extends AdoError {
+    constructor(retryAfterSeconds?: number) {
+        super(
+            `Azure DevOps is throttling requests${retryAfterSeconds ? `; retry after ${retryAfterSeconds}s` : ""}.`,
+            429
+        );
+        this.name = "AdoThrottledError";
+    }
+}
+
+// 5xx that is still failing after retrying
+export class AdoServerError extends AdoError {
+    constructor(status: number) {
+        super(`Azure DevOps service error (${status}). Try again later.`, status);
+        this.name = "AdoServerError";
+    }
+}
+
+// A successful response whose body is not the JSON we asked for (a proxy's HTML page, a truncated body, ...)
+export class AdoInvalidResponseError extends AdoError {
+    constructor(contentType?: string | null) {
+        super(`Azure DevOps returned a response that is not valid JSON${contentType ? ` (${contentType.split(";")[0]})` : ""}.`);
+        this.name = "AdoInvalidResponseError";
+    }
+}
+
+// A body over the caller's maxBytes; size is known when the server sent a Content-Length
+export class AdoResponseTooLargeError extends AdoError {
+    constructor(readonly maxBytes: number, readonly size?: number) {
+        super(`The response${size !== undefined ? ` (${size} bytes)` : ""} is larger than the ${maxBytes} byte limit.`);
+        this.name = "AdoResponseTooLargeError";
+    }
+}
+
+export class AdoTimeoutError extends AdoError {
+    constructor(timeoutMs: number) {
+        super(`Azure DevOps did not respond within ${Math.round(timeoutMs / 1000)}s.`);
+        this.name = "AdoTimeoutError";
+    }
+}
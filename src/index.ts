@@ -1,92 +1,134 @@
 import { McpAgent } from "agents/mcp";
+import { WorkerEntrypoint } from "cloudflare:workers";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { Env } from "./interface/adoInterfaces";
-import {  listProjectsTool, listTeamsTool, listWorkItemsTool, getWorkItemDetailsTool} from "./tools/adoTools";
-
-// Define the Props type
-type Props = {
-	bearerToken: string;
-};
+import { type AdoAuthProps, tokenFromAuthorizationHeader } from "./auth/adoAuth";
+import { EntraAuthHandler, exchangeEntraToken, isOAuthEnabled } from "./auth/entraHandler";
+import { organizationSettingsFromEnv } from "./utils/organizations";
+import { cacheTtlsFromEnv, createSqlCache } from "./client/adoCache";
+import type { AdoClientOptions } from "./client/adoClient";
+import { attachmentLimitsFromEnv } from "./utils/attachments";
+import { registerAdoTools, toolFilterFromEnv } from "./tools/toolRegistry";
+import { registerAdoResources } from "./resources/adoResources";
+import { createSqlSubscriptionStore } from "./resources/subscriptionStore";
+import { registerAdoPrompts } from "./prompts/adoPrompts";
 
 // Extend your class with props support
-export class MyMCP extends McpAgent<Env, null, Props> {
+export class MyMCP extends McpAgent<Env, null, AdoAuthProps> {
 	server = new McpServer({
 		name: "Azure DevOps Tools",
 		version: "1.0.0",
 	});
 
+	// Set by init; the subscription poll runs when the alarm fires
+	private pollSubscriptions?: () => Promise<void>;
+
 	async init() {
 		try {
-			// Access token from this.props.bearerToken
-			const token = this.props.bearerToken;
-			const organization = process.env.ADO_ORGANIZATION || "jairo";
-
-			// Initialize tools
-			const listWorkItemsInstance = listWorkItemsTool(token, organization);
-			const listProjectsToolInstance = listProjectsTool(token, organization);
-			const listTeamsToolInstance = listTeamsTool(token, organization);
-			const getWorkItemDetailsToolInstance = getWorkItemDetailsTool(token, organization);
+			// PAT or Entra access token, from the Authorization header or the OAuth grant
+			const token = this.props.adoToken;
+			const organizations = organizationSettingsFromEnv(this.env);
+			// Projects, teams, iterations and metadata, kept in this session's SQLite storage
+			const cache = createSqlCache(this.ctx.storage.sql, cacheTtlsFromEnv(this.env));
+			const clientOptions: AdoClientOptions = { cache, serverUrl: this.env.ADO_SERVER_URL };
+			const attachmentLimits = attachmentLimitsFromEnv(this.env);
 
-			// Register tools
-			this.server.tool(
-				listProjectsToolInstance.name,
-				listProjectsToolInstance.schema,
-				listProjectsToolInstance.handler
+			// Every tool in the registry, minus those ADO_ENABLED_TOOLS / ADO_DISABLED_TOOLS leave out
+			const tools = registerAdoTools(
+				this.server,
+				{ token, organizations, clientOptions, attachmentLimits },
+				toolFilterFromEnv(this.env)
 			);
+			console.log("Registered tools:", tools.registered.join(", "));
+			if (tools.disabled.length > 0) {
+				console.log("Disabled tools:", tools.disabled.join(", "));
+			}
 
-			this.server.tool(
-				listTeamsToolInstance.name,
-				listTeamsToolInstance.schema,
-				listTeamsToolInstance.handler
-			);
-
-			this.server.tool(
-				listWorkItemsInstance.name,
-				listWorkItemsInstance.schema,
-				listWorkItemsInstance.handler
-			);
-
-			this.server.tool(
-				getWorkItemDetailsToolInstance.name,
-				getWorkItemDetailsToolInstance.schema,
-				getWorkItemDetailsToolInstance.handler
-			);
-
-			console.log("Registered tools:", [
-				listWorkItemsInstance.name,
-				listProjectsToolInstance.name,
-				listTeamsToolInstance.name,
-				getWorkItemDetailsToolInstance.name
-			].join(", "));
+			// Subscribed work items are kept in SQLite and polled from a Durable Object alarm,
+			// so the session can sleep, or be evicted, between polls
+			const resources = registerAdoResources(this.server, token, organizations, clientOptions, {
+				store: createSqlSubscriptionStore(this.ctx.storage.sql),
+				scheduler: {
+					schedule: delayMs => this.ctx.storage.setAlarm(Date.now() + delayMs),
+					cancel: () => this.ctx.storage.deleteAlarm(),
+				},
+			});
+			this.pollSubscriptions = resources.pollSubscriptions;
+			registerAdoPrompts(this.server, token, organizations, clientOptions);
 		} catch (error) {
 			console.error("Error initializing MCP tools:", error);
 			throw error;
 		}
 	}
+
+	async alarm() {
+		// After an eviction the alarm wakes a fresh instance: start it as a request would,
+		// which reloads the session's props, runs init and reconnects the transport
+		if (!this.pollSubscriptions) await this.onStart();
+		await this.pollSubscriptions?.();
+	}
+}
+
+const MCP_PATHS = new Set(["/sse", "/sse/message", "/mcp"]);
+
+function serveMcp(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> | Response {
+	const { pathname } = new URL(request.url);
+	if (pathname === "/sse" || pathname === "/sse/message") {
+		return MyMCP.serveSSE("/sse").fetch(request, env, ctx);
+	}
+	if (pathname === "/mcp") {
+		return MyMCP.serve("/mcp").fetch(request, env, ctx);
+	}
+	return new Response("Not found", { status: 404 });
+}
+
+// The OAuth provider's API handler: the MCP endpoints, once the provider has checked the access token
+// and put the grant's props on the context
+class McpApiHandler extends WorkerEntrypoint<Env> {
+	fetch(request: Request): Promise<Response> | Response {
+		return serveMcp(request, this.env, this.ctx);
+	}
 }
 
 // Top-level fetch
 export default {
 	fetch(request: Request, env: Env, ctx: ExecutionContext) {
-		const url = new URL(request.url);
-		const authHeader = request.headers.get("authorization");
-		const tokenFromUrl = url.searchParams.get("token");
-		const authToken = (authHeader?.replace("Bearer ", "") || tokenFromUrl || env.AUTH_TOKEN || "").trim();
-
-		console.log("Auth token received:", authToken ? `${authToken.substring(0, 10)}...` : "No token found");
+		// With an Entra app configured, clients sign in through the MCP OAuth flow
+		if (isOAuthEnabled(env)) {
+			const provider = new OAuthProvider({
+				apiHandlers: {
+					"/sse": McpApiHandler,
+					"/mcp": McpApiHandler,
+				},
+				defaultHandler: EntraAuthHandler,
+				authorizeEndpoint: "/authorize",
+				tokenEndpoint: "/token",
+				clientRegistrationEndpoint: "/register",
+				tokenExchangeCallback: (options) => exchangeEntraToken(env, options),
+			});
+			return provider.fetch(request, env, ctx);
+		}
 
-		ctx.props = {
-			bearerToken: authToken
-		};
+		const url = new URL(request.url);
+		if (!MCP_PATHS.has(url.pathname)) {
+			return new Response("Not found", { status: 404 });
+		}
 
-		if (url.pathname === "/sse" || url.pathname === "/sse/message") {
-			return MyMCP.serveSSE("/sse").fetch(request, env, ctx);
+		// Tokens in URLs end up in logs and browser history
+		if (url.searchParams.has("token")) {
+			return new Response("Tokens are not accepted in the query string. Send them in the Authorization header.", { status: 400 });
 		}
 
-		if (url.pathname === "/mcp") {
-			return MyMCP.serve("/mcp").fetch(request, env, ctx);
+		const token = tokenFromAuthorizationHeader(request.headers.get("authorization")) || env.AUTH_TOKEN?.trim();
+		if (!token) {
+			return new Response("Missing Azure DevOps token. Send a PAT or Entra ID access token in the Authorization header.", {
+				status: 401,
+				headers: { "WWW-Authenticate": 'Bearer realm="Azure DevOps"' },
+			});
 		}
 
-		return new Response("Not found", { status: 404 });
+		ctx.props = { adoToken: token } satisfies AdoAuthProps;
+		return serveMcp(request, env, ctx);
 	},
-};
\ No newline at end of file
+};
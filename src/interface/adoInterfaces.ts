@@ -1,11 +1,52 @@
+import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+
 // Define environment variable types
 export interface Env {
     AUTH_TOKEN?: string;
+    // Organization used when a tool call does not name one
+    ADO_ORGANIZATION?: string;
+    // Comma-separated organizations tools may target, in addition to ADO_ORGANIZATION
+    ADO_ALLOWED_ORGANIZATIONS?: string;
+    // Azure DevOps Server URL (organizations are its collections); defaults to https://dev.azure.com
+    ADO_SERVER_URL?: string;
+    // Comma-separated `kind=seconds` cache TTL overrides (see adoCache.ts)
+    ADO_CACHE_TTLS?: string;
+    // Largest attachment returned inline and largest upload, in bytes (see attachments.ts)
+    ADO_ATTACHMENT_MAX_READ_BYTES?: string;
+    ADO_ATTACHMENT_MAX_UPLOAD_BYTES?: string;
+    // Comma-separated tools to expose / hide: names, `*` wildcards, @readonly, @write, @destructive
+    ADO_ENABLED_TOOLS?: string;
+    ADO_DISABLED_TOOLS?: string;
+    // Entra ID app registration; setting ENTRA_CLIENT_ID turns on the MCP OAuth flow
+    ENTRA_CLIENT_ID?: string;
+    ENTRA_CLIENT_SECRET?: string;
+    // Tenant ID or "organizations" (default) for any work or school account
+    ENTRA_TENANT_ID?: string;
+    // KV namespace for OAuth clients, grants and tokens; required by the OAuth flow
+    OAUTH_KV?: KVNamespace;
+    // Injected by the OAuth provider into the authorization handler
+    OAUTH_PROVIDER?: OAuthHelpers;
+}
+
+// A link from a work item to another work item, an artifact (PR, commit, build) or a file
+export interface WorkItemRelation {
+    rel: string;
+    url: string;
+    attributes?: {
+        name?: string;
+        comment?: string;
+        isLocked?: boolean;
+        resourceSize?: number;
+        id?: number;
+        authorizedDate?: string;
+    };
 }
 
 export interface WorkItem {
     id: number;
+    rev?: number;
     url: string;
+    relations?: WorkItemRelation[];
     fields: {
         'System.Title': string;
         'System.WorkItemType': string;
@@ -23,7 +64,178 @@ export interface WorkItem {
         'Microsoft.VSTS.Common.AcceptanceCriteria'?: string;
         'System.History'?: string;
         'System.IterationPath'?: string;
+        'System.TeamProject'?: string;
+        'Microsoft.VSTS.Scheduling.RemainingWork'?: number;
+    };
+}
+
+export type WorkItemFieldName = keyof WorkItem["fields"];
+
+// A single JSON Patch operation as accepted by the work item create/update endpoints
+export interface JsonPatchOperation {
+    op: "add" | "replace" | "remove" | "test";
+    path: string;
+    value?: unknown;
+}
+
+export interface WorkItemComment {
+    id?: number;
+    text: string;
+    createdBy: {
+        displayName: string;
+        uniqueName?: string;
+    };
+    createdDate?: string;
+}
+
+export interface WorkItemCommentsResponse {
+    totalCount?: number;
+    count?: number;
+    comments: WorkItemComment[];
+    continuationToken?: string;
+}
+
+// Filters accepted by listWorkItems, compiled into a WIQL WHERE clause
+export interface WorkItemFilters {
+    assignedTo?: string;
+    states?: string[];
+    excludeStates?: string[];
+    types?: string[];
+    excludeTypes?: string[];
+    tags?: string[];
+    areaPath?: string;
+    iterationPath?: string;
+    priorities?: number[];
+    changedSince?: string;
+}
+
+export interface WorkItemFieldUpdate {
+    oldValue?: unknown;
+    newValue?: unknown;
+}
+
+// One entry of a work item's update history (_apis/wit/workItems/{id}/updates)
+export interface WorkItemUpdate {
+    id: number;
+    workItemId: number;
+    rev: number;
+    revisedBy: {
+        displayName: string;
+        uniqueName?: string;
+    };
+    revisedDate: string;
+    fields?: Record<string, WorkItemFieldUpdate>;
+    relations?: {
+        added?: WorkItemRelation[];
+        removed?: WorkItemRelation[];
+        updated?: WorkItemRelation[];
+    };
+}
+
+// A team iteration (sprint) from _apis/work/teamsettings/iterations
+export interface TeamIteration {
+    id: string;
+    name: string;
+    path: string;
+    url: string;
+    attributes: {
+        startDate?: string;
+        finishDate?: string;
+        timeFrame?: "past" | "current" | "future";
+    };
+}
+
+export interface TeamSettings {
+    workingDays: string[];
+}
+
+export interface DateRange {
+    start: string;
+    end: string;
+}
+
+export interface TeamMemberCapacity {
+    teamMember: {
+        id: string;
+        displayName: string;
+        uniqueName?: string;
+    };
+    activities: {
+        capacityPerDay: number;
+        name: string;
+    }[];
+    daysOff: DateRange[];
+}
+
+// Work items planned into an iteration, as parent/child links (source is null for top-level items)
+export interface IterationWorkItemsResponse {
+    workItemRelations: WorkItemLink[];
+}
+
+// A team's board, one per backlog level, from _apis/work/boards/{board}
+export interface Board {
+    id: string;
+    name: string;
+    columns: BoardColumn[];
+    // Swimlanes; the default lane has no name
+    rows: BoardRow[];
+    // Team-specific fields holding a card's column, lane and Doing/Done half of a split column
+    fields: {
+        columnField: { referenceName: string };
+        rowField: { referenceName: string };
+        doneField: { referenceName: string };
     };
+    url: string;
+}
+
+export interface BoardColumn {
+    id: string;
+    name: string;
+    // WIP limit; 0 means none
+    itemLimit: number;
+    // The state each work item type on the board has in this column
+    stateMappings: Record<string, string>;
+    columnType: "incoming" | "inProgress" | "outgoing";
+    isSplit?: boolean;
+    description?: string;
+}
+
+export interface BoardRow {
+    id: string;
+    name: string | null;
+}
+
+export interface BoardReference {
+    id: string;
+    name: string;
+    url: string;
+}
+
+// A backlog level (Epics, Features, Stories, ...) from _apis/work/backlogs
+export interface BacklogLevel {
+    id: string;
+    name: string;
+    // Higher ranks are higher in the hierarchy
+    rank: number;
+    type: "portfolio" | "requirement" | "task";
+    workItemTypes: { name: string }[];
+    defaultWorkItemType?: { name: string };
+    isHidden?: boolean;
+}
+
+// The work items of a backlog level, in backlog priority order
+export interface BacklogLevelWorkItems {
+    workItems: WorkItemLink[];
+}
+
+// A node of the parent/child hierarchy built by getWorkItemTree
+export interface WorkItemTreeNode {
+    id: number;
+    title: string;
+    type: string;
+    state: string;
+    assignedTo?: string;
+    children: WorkItemTreeNode[];
 }
 
 export interface Project {
@@ -48,12 +260,175 @@ export interface WorkItemReference {
     url: string;
 }
 
+// One edge of a tree or one-hop query result; `source` is null for top-level items
+export interface WorkItemLink {
+    rel: string | null;
+    source: WorkItemReference | null;
+    target: WorkItemReference;
+}
+
 export interface WorkItemQueryResult {
     queryType: string;
     queryResultType: string;
     asOf: string;
     workItems: WorkItemReference[];
-    workItemRelations?: any[];
+    workItemRelations?: WorkItemLink[];
+}
+
+// A stored query or query folder under "My Queries" / "Shared Queries"
+export interface QueryHierarchyItem {
+    id: string;
+    name: string;
+    path: string;
+    isFolder?: boolean;
+    queryType?: "flat" | "tree" | "oneHop";
+    wiql?: string;
+    url: string;
+}
+
+// An identity as returned inline by the Git APIs (PR creator, reviewer, comment author)
+export interface IdentityRef {
+    id: string;
+    displayName: string;
+    uniqueName?: string;
+}
+
+export interface GitRepository {
+    id: string;
+    name: string;
+    url: string;
+    webUrl?: string;
+    defaultBranch?: string;
+    size?: number;
+    isDisabled?: boolean;
+    project: {
+        id: string;
+        name: string;
+    };
+}
+
+// vote: 10 approved, 5 approved with suggestions, 0 no vote, -5 waiting for author, -10 rejected
+export interface GitPullRequestReviewer extends IdentityRef {
+    vote: number;
+    isRequired?: boolean;
+    hasDeclined?: boolean;
+}
+
+export interface GitPullRequest {
+    pullRequestId: number;
+    title: string;
+    description?: string;
+    status: "active" | "completed" | "abandoned" | "notSet" | "all";
+    isDraft?: boolean;
+    mergeStatus?: string;
+    createdBy: IdentityRef;
+    creationDate: string;
+    closedDate?: string;
+    sourceRefName: string;
+    targetRefName: string;
+    reviewers: GitPullRequestReviewer[];
+    repository: {
+        id: string;
+        name: string;
+        project?: {
+            id: string;
+            name: string;
+        };
+    };
+    url: string;
+}
+
+export interface GitPullRequestComment {
+    id: number;
+    parentCommentId?: number;
+    author: IdentityRef;
+    content?: string;
+    publishedDate: string;
+    commentType?: "text" | "system" | "codeChange" | "unknown";
+}
+
+// A comment thread on a PR; threadContext is set for comments on a file
+export interface GitPullRequestCommentThread {
+    id: number;
+    status?: string;
+    isDeleted?: boolean;
+    publishedDate?: string;
+    threadContext?: {
+        filePath: string;
+        rightFileStart?: { line: number; offset: number };
+    } | null;
+    comments: GitPullRequestComment[];
+}
+
+export interface Build {
+    id: number;
+    buildNumber: string;
+    status: "none" | "inProgress" | "completed" | "cancelling" | "postponed" | "notStarted" | "all";
+    result?: "none" | "succeeded" | "partiallySucceeded" | "failed" | "canceled";
+    reason?: string;
+    queueTime?: string;
+    startTime?: string;
+    finishTime?: string;
+    sourceBranch: string;
+    sourceVersion?: string;
+    definition: {
+        id: number;
+        name: string;
+        path?: string;
+    };
+    requestedFor?: IdentityRef;
+    project: {
+        id: string;
+        name: string;
+    };
+    url: string;
+    _links?: {
+        web?: { href: string };
+    };
+}
+
+export interface BuildDefinitionReference {
+    id: number;
+    name: string;
+    path: string;
+    queueStatus?: "enabled" | "paused" | "disabled";
+    url: string;
+    latestBuild?: Build;
+}
+
+// One stage, job or task of a build timeline; parentId links tasks to jobs and jobs to stages
+export interface TimelineRecord {
+    id: string;
+    parentId: string | null;
+    type: string;
+    name: string;
+    state?: "pending" | "inProgress" | "completed";
+    result?: "succeeded" | "succeededWithIssues" | "failed" | "canceled" | "skipped" | "abandoned" | null;
+    order?: number;
+    startTime?: string | null;
+    finishTime?: string | null;
+    errorCount?: number;
+    log?: { id: number; url: string } | null;
+    issues?: { type: "error" | "warning"; message: string }[] | null;
+}
+
+export interface BuildLog {
+    id: number;
+    lineCount: number;
+    url: string;
+}
+
+// A run queued through the Pipelines API
+export interface PipelineRun {
+    id: number;
+    name: string;
+    state: "unknown" | "inProgress" | "canceling" | "completed";
+    result?: string;
+    createdDate: string;
+    url: string;
+    _links?: {
+        web?: { href: string };
+    };
 }
 
 export interface WorkItemsResponse {
@@ -83,4 +458,64 @@ export type AdoTeam = {
     projectName: string;
     projectId: string;
   };
-  
\ No newline at end of file
+  
+export type AdoProfile = {
+    id: string;
+    publicAlias: string;
+    displayName?: string;
+    emailAddress?: string;
+  };
+
+export type AdoAccount = {
+    accountId: string;
+    accountName: string;
+    accountUri: string;
+  };
+
+export type WorkItemTypeDefinition = {
+    name: string;
+    referenceName: string;
+    description?: string;
+    color?: string;
+    isDisabled?: boolean;
+    fields?: { referenceName: string; name: string; alwaysRequired?: boolean; defaultValue?: unknown; helpText?: string }[];
+    states?: { name: string; color?: string; category: string }[];
+    // Allowed state changes by source state; "" holds the initial state
+    transitions?: Record<string, { to: string; actions?: string[] | null }[]>;
+    url: string;
+  };
+
+// A field as configured on one work item type, from _apis/wit/workitemtypes/{type}/fields
+export type WorkItemTypeFieldDefinition = {
+    name: string;
+    referenceName: string;
+    alwaysRequired?: boolean;
+    defaultValue?: unknown;
+    allowedValues?: string[];
+    helpText?: string;
+    url: string;
+  };
+
+export type WorkItemFieldDefinition = {
+    name: string;
+    referenceName: string;
+    description?: string;
+    type: string;
+    usage?: string;
+    readOnly: boolean;
+    isIdentity?: boolean;
+    isPicklist?: boolean;
+    url: string;
+  };
+
+export type ClassificationNode = {
+    id: number;
+    identifier: string;
+    name: string;
+    structureType: "area" | "iteration";
+    // "\Project\Area\Web" / "\Project\Iteration\Sprint 1"
+    path: string;
+    hasChildren?: boolean;
+    children?: ClassificationNode[];
+    attributes?: { startDate?: string; finishDate?: string };
+  };
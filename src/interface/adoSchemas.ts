@@ -0,0 +1,175 @@
+import { z } from "zod";
+import type {
+    AdoTeam,
+    GitPullRequest,
+    GitPullRequestCommentThread,
+    GitRepository,
+    IdentityRef,
+    Project,
+    WorkItem,
+    WorkItemComment,
+    WorkItemLink,
+    WorkItemRelation
+} from "./adoInterfaces";
+
+// Zod mirrors of the ADO types, used as tool output schemas.
+// Each schema is checked against its interface so the two cannot drift apart.
+
+const identitySchema = z.object({
+    displayName: z.string(),
+    uniqueName: z.string()
+});
+
+export const workItemRelationSchema = z.object({
+    rel: z.string(),
+    url: z.string(),
+    attributes: z.object({
+        name: z.string().optional(),
+        comment: z.string().optional(),
+        isLocked: z.boolean().optional(),
+        resourceSize: z.number().optional(),
+        id: z.number().optional(),
+        authorizedDate: z.string().optional()
+    }).passthrough().optional()
+}) satisfies z.ZodType<WorkItemRelation, z.ZodTypeDef, unknown>;
+
+export const workItemSchema = z.object({
+    id: z.number(),
+    rev: z.number().optional(),
+    url: z.string(),
+    relations: z.array(workItemRelationSchema).optional(),
+    fields: z.object({
+        "System.Title": z.string(),
+        "System.WorkItemType": z.string(),
+        "System.State": z.string(),
+        "System.AssignedTo": identitySchema.optional(),
+        "System.CreatedDate": z.string().optional(),
+        "System.ChangedDate": z.string().optional(),
+        "System.Description": z.string().optional(),
+        "System.Tags": z.string().optional(),
+        "Microsoft.VSTS.Common.Priority": z.number().optional(),
+        "Microsoft.VSTS.Common.Severity": z.string().optional(),
+        "Microsoft.VSTS.Common.AcceptanceCriteria": z.string().optional(),
+        "System.History": z.string().optional(),
+        "System.IterationPath": z.string().optional(),
+        "System.TeamProject": z.string().optional(),
+        "Microsoft.VSTS.Scheduling.RemainingWork": z.number().optional()
+    }).passthrough()
+}) satisfies z.ZodType<WorkItem, z.ZodTypeDef, unknown>;
+
+export const workItemCommentSchema = z.object({
+    id: z.number().optional(),
+    text: z.string(),
+    createdBy: z.object({
+        displayName: z.string(),
+        uniqueName: z.string().optional()
+    }),
+    createdDate: z.string().optional()
+}) satisfies z.ZodType<WorkItemComment, z.ZodTypeDef, unknown>;
+
+export const workItemWithCommentsSchema = workItemSchema.extend({
+    comments: z.array(workItemCommentSchema)
+});
+
+const workItemReferenceSchema = z.object({ id: z.number(), url: z.string() });
+
+export const workItemLinkSchema = z.object({
+    rel: z.string().nullable(),
+    source: workItemReferenceSchema.nullable(),
+    target: workItemReferenceSchema
+}) satisfies z.ZodType<WorkItemLink, z.ZodTypeDef, unknown>;
+
+export const projectSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    url: z.string(),
+    state: z.string(),
+    revision: z.number(),
+    visibility: z.string(),
+    lastUpdateTime: z.string()
+}) satisfies z.ZodType<Project, z.ZodTypeDef, unknown>;
+
+export const teamSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    url: z.string(),
+    projectName: z.string(),
+    projectId: z.string()
+}) satisfies z.ZodType<AdoTeam, z.ZodTypeDef, unknown>;
+
+const identityRefSchema = z.object({
+    id: z.string(),
+    displayName: z.string(),
+    uniqueName: z.string().optional()
+}) satisfies z.ZodType<IdentityRef, z.ZodTypeDef, unknown>;
+
+export const gitRepositorySchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    url: z.string(),
+    webUrl: z.string().optional(),
+    defaultBranch: z.string().optional(),
+    size: z.number().optional(),
+    isDisabled: z.boolean().optional(),
+    project: z.object({ id: z.string(), name: z.string() })
+}) satisfies z.ZodType<GitRepository, z.ZodTypeDef, unknown>;
+
+export const pullRequestSchema = z.object({
+    pullRequestId: z.number(),
+    title: z.string(),
+    description: z.string().optional(),
+    status: z.enum(["active", "completed", "abandoned", "notSet", "all"]),
+    isDraft: z.boolean().optional(),
+    mergeStatus: z.string().optional(),
+    createdBy: identityRefSchema,
+    creationDate: z.string(),
+    closedDate: z.string().optional(),
+    sourceRefName: z.string(),
+    targetRefName: z.string(),
+    reviewers: z.array(identityRefSchema.extend({
+        vote: z.number(),
+        isRequired: z.boolean().optional(),
+        hasDeclined: z.boolean().optional()
+    })),
+    repository: z.object({
+        id: z.string(),
+        name: z.string(),
+        project: z.object({ id: z.string(), name: z.string() }).optional()
+    }),
+    url: z.string()
+}) satisfies z.ZodType<GitPullRequest, z.ZodTypeDef, unknown>;
+
+export const pullRequestThreadSchema = z.object({
+    id: z.number(),
+    status: z.string().optional(),
+    isDeleted: z.boolean().optional(),
+    publishedDate: z.string().optional(),
+    threadContext: z.object({
+        filePath: z.string(),
+        rightFileStart: z.object({ line: z.number(), offset: z.number() }).optional()
+    }).nullable().optional(),
+    comments: z.array(z.object({
+        id: z.number(),
+        parentCommentId: z.number().optional(),
+        author: identityRefSchema,
+        content: z.string().optional(),
+        publishedDate: z.string(),
+        commentType: z.enum(["text", "system", "codeChange", "unknown"]).optional()
+    }))
+}) satisfies z.ZodType<GitPullRequestCommentThread, z.ZodTypeDef, unknown>;
+
+/**
+ * Trims an ADO work item response down to the shape declared by workItemSchema
+ * (drops _links and other expansion payloads).
+ */
+export function toWorkItemOutput(workItem: WorkItem): WorkItem {
+    return {
+        id: workItem.id,
+        rev: workItem.rev,
+        url: workItem.url,
+        relations: workItem.relations,
+        fields: workItem.fields
+    };
+}
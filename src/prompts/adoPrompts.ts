@@ -0,0 +1,192 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, type GetPromptResult, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { AdoClientOptions } from "../client/adoClient";
+import type { OrganizationSettings } from "../utils/organizations";
+import { getWorkItemDetailsTool, listWorkItemsTool } from "../tools/adoTools";
+import { getSprintBurndownTool, listSprintWorkItemsTool } from "../tools/iterationTools";
+
+// Bugs whose full details are embedded in the triage prompt; the rest are listed only
+const TRIAGE_DETAILS_LIMIT = 15;
+
+type ToolResult = { content: { type: "text"; text: string }[]; isError?: boolean };
+
+// Prompt arguments are always strings
+const promptArgs = {
+    project: z.string().describe("The name or ID of the Azure DevOps project (fuzzy match supported)"),
+    team: z.string().describe("The name or ID of the team inside the project (fuzzy match supported)"),
+    iteration: z.string().optional().describe("Iteration name, path or ID (default: the current sprint)"),
+    organization: z.string().optional().describe("Azure DevOps organization (default: the server's organization)")
+};
+
+const contentText = (result: ToolResult) => result.content.map(item => item.text).join("\n");
+
+// A tool error fails the prompt
+function toolFailed(result: ToolResult): never {
+    throw new Error(contentText(result));
+}
+
+/**
+ * Text of a tool result rendered as markdown.
+ */
+function resultText(result: ToolResult): string {
+    return result.isError ? toolFailed(result) : contentText(result);
+}
+
+function userPrompt(description: string, instructions: string, sections: Record<string, string>): GetPromptResult {
+    const data = Object.entries(sections)
+        .map(([heading, body]) => `# ${heading}\n\n${body}`)
+        .join("\n\n");
+    return {
+        description,
+        messages: [{ role: "user", content: { type: "text", text: `${instructions}\n\n${data}` } }]
+    };
+}
+
+/**
+ * Registers prompts for recurring ADO workflows. Each prompt fetches its data through the
+ * matching tools and embeds the markdown rendering in the message, so the model starts with it.
+ */
+export function registerAdoPrompts(server: McpServer, token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    const listWorkItems = listWorkItemsTool(token, organizations, clientOptions).handler;
+    const getWorkItemDetails = getWorkItemDetailsTool(token, organizations, clientOptions).handler;
+    const listSprintWorkItems = listSprintWorkItemsTool(token, organizations, clientOptions).handler;
+    const getSprintBurndown = getSprintBurndownTool(token, organizations, clientOptions).handler;
+
+    server.registerPrompt(
+        "standupSummary",
+        {
+            title: "Standup Summary",
+            description: "Summarize a team's sprint for the daily standup: what moved since yesterday, what is in progress and what is blocked",
+            argsSchema: promptArgs
+        },
+        async ({ project, team, iteration, organization }) => {
+            const sprint = await listSprintWorkItems({ project, team, iteration, organization, format: "markdown" });
+            if ("isError" in sprint) toolFailed(sprint);
+
+            const changed = await listWorkItems({
+                project,
+                team,
+                organization,
+                iterationPath: sprint.structuredContent.iteration.path,
+                changedSince: "@Today - 1",
+                orderBy: [{ field: "System.ChangedDate", direction: "desc" }],
+                top: 200,
+                format: "markdown"
+            });
+
+            return userPrompt(
+                `Standup summary for ${team} (${sprint.structuredContent.iteration.name})`,
+                "Prepare a standup summary for the team below. Group it by person: what each person moved since yesterday, " +
+                "what they are working on now, and anything that looks blocked or stale (no change for several days, " +
+                "items still New late in the sprint). Finish with a one-line sprint health note. Keep it short enough to read aloud.",
+                {
+                    "Changed since yesterday": resultText(changed),
+                    "Sprint work items": resultText(sprint)
+                }
+            );
+        }
+    );
+
+    server.registerPrompt(
+        "sprintReview",
+        {
+            title: "Sprint Review",
+            description: "Draft a sprint review: what was delivered, what carries over and how the burndown went",
+            argsSchema: promptArgs
+        },
+        async ({ project, team, iteration, organization }) => {
+            const sprint = await listSprintWorkItems({ project, team, iteration, organization, format: "markdown" });
+            if ("isError" in sprint) toolFailed(sprint);
+
+            // Teams that don't track remaining work have no burndown; the review still works without it
+            const burndown = await getSprintBurndown({ project, team, iteration, organization, format: "markdown" });
+
+            return userPrompt(
+                `Sprint review for ${team} (${sprint.structuredContent.iteration.name})`,
+                "Draft a sprint review for the team below. Cover: what was delivered (completed items grouped by theme), " +
+                "what is carrying over and why it might have slipped, notable bugs, and how the burndown tracked against the ideal line. " +
+                "End with two or three discussion points for the retrospective. Link work items by ID.",
+                {
+                    "Sprint work items": resultText(sprint),
+                    Burndown: "isError" in burndown ? "_Burndown unavailable._" : resultText(burndown)
+                }
+            );
+        }
+    );
+
+    server.registerPrompt(
+        "bugTriage",
+        {
+            title: "Bug Triage",
+            description: "Triage new bugs: suggest severity and priority, spot duplicates and ask for missing repro information",
+            argsSchema: {
+                project: promptArgs.project,
+                team: promptArgs.team.optional(),
+                areaPath: z.string().optional().describe("Only bugs under this area path"),
+                organization: promptArgs.organization
+            }
+        },
+        async ({ project, team, areaPath, organization }) => {
+            const bugs = await listWorkItems({
+                project,
+                team,
+                areaPath,
+                organization,
+                types: ["Bug"],
+                states: ["New"],
+                orderBy: [{ field: "System.CreatedDate", direction: "desc" }],
+                top: 100,
+                format: "markdown"
+            });
+            if ("isError" in bugs) toolFailed(bugs);
+
+            const ids = bugs.structuredContent.workItems.slice(0, TRIAGE_DETAILS_LIMIT).map(item => item.id);
+            const details = ids.length > 0
+                ? resultText(await getWorkItemDetails({ ids, organization, format: "markdown" }))
+                : "_No new bugs._";
+
+            return userPrompt(
+                `Bug triage for ${project}${team ? ` / ${team}` : ""}`,
+                "Triage the new bugs below. For each bug suggest a severity and priority with a one-line reason, flag likely duplicates " +
+                "of each other, and list what information is missing to reproduce it. Then propose an order to work through them. " +
+                "Do not change any work items until I confirm.",
+                {
+                    "New bugs": resultText(bugs),
+                    [`Details of the ${ids.length} most recent`]: details
+                }
+            );
+        }
+    );
+
+    server.registerPrompt(
+        "refineAcceptanceCriteria",
+        {
+            title: "Refine Acceptance Criteria",
+            description: "Review a story's description and discussion and propose testable acceptance criteria",
+            argsSchema: {
+                workItemId: z.string().describe("ID of the story or backlog item to refine"),
+                organization: promptArgs.organization
+            }
+        },
+        async ({ workItemId, organization }) => {
+            const id = Number(workItemId);
+            if (!Number.isInteger(id) || id <= 0) {
+                throw new McpError(ErrorCode.InvalidParams, `Invalid work item ID: ${workItemId}`);
+            }
+
+            const details = await getWorkItemDetails({ ids: id, organization, format: "markdown" });
+            if (!("isError" in details) && details.structuredContent.workItems.length === 0) {
+                throw new McpError(ErrorCode.InvalidParams, `Work item ${id} not found or not accessible.`);
+            }
+
+            return userPrompt(
+                `Acceptance criteria refinement for #${id}`,
+                "Review the work item below, including its discussion. Propose acceptance criteria as Given/When/Then scenarios that are " +
+                "specific and testable, covering edge cases and error paths. List open questions for the product owner and anything that " +
+                "looks out of scope. When I approve, save the criteria with updateWorkItem (Microsoft.VSTS.Common.AcceptanceCriteria).",
+                { [`Work item #${id}`]: resultText(details) }
+            );
+        }
+    );
+}
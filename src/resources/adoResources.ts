@@ -0,0 +1,243 @@
+import { type McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    ErrorCode,
+    McpError,
+    type ReadResourceResult,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type OrganizationSettings, resolveOrganization } from "../utils/organizations";
+import {
+    fetchAllProjects,
+    fetchWorkItemsInBatches,
+    getWorkItemDetailsTool,
+    listProjectsTool,
+    listTeamsTool,
+    listWorkItemsTool,
+    resolveProjectId
+} from "../tools/adoTools";
+import { createMemorySubscriptionStore, type SubscriptionStore, type WorkItemSubscription } from "./subscriptionStore";
+
+// How often subscribed work items are checked for a new revision
+const SUBSCRIPTION_POLL_INTERVAL_MS = 60_000;
+const WORK_ITEM_URI = /^ado:\/\/([^/]+)\/workitems\/(\d+)$/;
+
+type ToolResult = { content: { type: "text"; text: string }[]; isError?: boolean };
+
+/**
+ * Turns a tool result rendered as markdown into resource contents; tool errors become read errors.
+ */
+function toResourceContents(uri: URL, result: ToolResult): ReadResourceResult {
+    const text = result.content.map(item => item.text).join("\n");
+    if (result.isError) throw new Error(text);
+    return { contents: [{ uri: uri.href, mimeType: "text/markdown", text }] };
+}
+
+const variable = (value: string | string[]) => decodeURIComponent(Array.isArray(value) ? value[0] : value);
+
+async function listProjectNames(token: string, organization: string, clientOptions: AdoClientOptions): Promise<string[]> {
+    const projects = await fetchAllProjects(createAdoClient(token, organization, clientOptions));
+    return projects.map(project => project.name);
+}
+
+/**
+ * Collects resources from every allowed organization; an organization that fails
+ * (no access, no Work Items scope, ...) is left out rather than failing the whole list.
+ */
+async function listPerOrganization<T>(organizations: OrganizationSettings, list: (organization: string) => Promise<T[]>): Promise<T[]> {
+    const results = await Promise.allSettled(organizations.allowedOrganizations.map(list));
+    return results.flatMap(result => result.status === "fulfilled" ? result.value : []);
+}
+
+// Wakes the session to poll subscriptions again; the agent backs it with a Durable Object alarm
+export interface PollScheduler {
+    schedule(delayMs: number): Promise<void>;
+    cancel(): Promise<void>;
+}
+
+// Where subscriptions are kept and how the next poll is scheduled; both default to this process's memory
+export interface SubscriptionOptions {
+    store?: SubscriptionStore;
+    scheduler?: PollScheduler;
+}
+
+/**
+ * Polls subscribed work items and notifies the client when their revision changes.
+ * Each poll schedules the next one through the scheduler, so an idle session is not kept awake between polls;
+ * without a scheduler (outside a Durable Object) a timer is used instead.
+ * Subscriptions are read from the store on every poll, so a poll on a fresh instance picks them up.
+ */
+function createWorkItemSubscriptions(
+    server: McpServer,
+    token: string,
+    organizations: OrganizationSettings,
+    clientOptions: AdoClientOptions,
+    { store = createMemorySubscriptionStore(), scheduler }: SubscriptionOptions
+) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const wake: PollScheduler = scheduler ?? {
+        async schedule(delayMs) {
+            clearTimeout(timer);
+            timer = setTimeout(() => void poll(), delayMs);
+        },
+        async cancel() {
+            clearTimeout(timer);
+        }
+    };
+
+    async function poll() {
+        const subscriptions = await store.list();
+        const byOrganization = new Map<string, WorkItemSubscription[]>();
+        for (const subscription of subscriptions) {
+            byOrganization.set(subscription.organization, [...(byOrganization.get(subscription.organization) ?? []), subscription]);
+        }
+
+        for (const [organization, subscribed] of byOrganization) {
+            try {
+                const client = createAdoClient(token, organization, clientOptions);
+                const ids = [...new Set(subscribed.map(subscription => subscription.id))];
+                for (const workItem of await fetchWorkItemsInBatches(client, ids, "none")) {
+                    for (const subscription of subscribed.filter(s => s.id === workItem.id)) {
+                        // Unsubscribed while the request was in flight
+                        if (subscription.rev === workItem.rev || !(await store.get(subscription.uri))) continue;
+                        await store.save({ ...subscription, rev: workItem.rev });
+                        if (subscription.rev !== undefined) await server.server.sendResourceUpdated({ uri: subscription.uri });
+                    }
+                }
+            } catch (error) {
+                // Try again on the next poll; a transient ADO failure should not end the subscription
+                console.error(`Error polling work item subscriptions for ${organization}:`, error);
+            }
+        }
+
+        if (subscriptions.length > 0) await wake.schedule(SUBSCRIPTION_POLL_INTERVAL_MS);
+    }
+
+    return {
+        poll,
+        async subscribe(uri: string) {
+            const [, organization, id] = uri.match(WORK_ITEM_URI) ?? [];
+            if (!organization) {
+                throw new McpError(ErrorCode.InvalidParams, "Only work item resources (ado://{org}/workitems/{id}) support subscriptions.");
+            }
+
+            // Validates the organization against the allow-list
+            await store.save({ uri, organization: resolveOrganization(organizations, organization), id: Number(id) });
+            await poll();
+        },
+        async unsubscribe(uri: string) {
+            await store.remove(uri);
+            if ((await store.list()).length === 0) await wake.cancel();
+        }
+    };
+}
+
+/**
+ * Registers the ADO resources and resource templates:
+ * - ado://{org}/projects
+ * - ado://{org}/{project}/teams
+ * - ado://{org}/workitems/{id} (subscribable)
+ * Contents are the markdown rendering of the matching tool.
+ * Returns the subscription poll, for the scheduler to run when it fires.
+ */
+export function registerAdoResources(
+    server: McpServer,
+    token: string,
+    organizations: OrganizationSettings,
+    clientOptions: AdoClientOptions = {},
+    subscriptionOptions: SubscriptionOptions = {}
+) {
+    const completeOrganization = (value: string) =>
+        organizations.allowedOrganizations.filter(org => org.toLowerCase().startsWith(value.toLowerCase()));
+    const completeProject = async (value: string, context?: { arguments?: Record<string, string> }) => {
+        const organization = resolveOrganization(organizations, context?.arguments?.org);
+        const names = await listProjectNames(token, organization, clientOptions);
+        return names.filter(name => name.toLowerCase().startsWith(value.toLowerCase()));
+    };
+
+    server.registerResource(
+        "projects",
+        new ResourceTemplate("ado://{org}/projects", {
+            list: async () => ({
+                resources: organizations.allowedOrganizations.map(org => ({
+                    uri: `ado://${org}/projects`,
+                    name: `${org} projects`,
+                    mimeType: "text/markdown"
+                }))
+            }),
+            complete: { org: completeOrganization }
+        }),
+        { title: "Projects", description: "The projects in an Azure DevOps organization", mimeType: "text/markdown" },
+        async (uri, { org }) => {
+            const organization = variable(org);
+            const result = await listProjectsTool(token, organizations, clientOptions).handler({ organization, top: 200, format: "markdown" });
+            return toResourceContents(uri, result);
+        }
+    );
+
+    server.registerResource(
+        "teams",
+        new ResourceTemplate("ado://{org}/{project}/teams", {
+            list: async () => ({
+                resources: await listPerOrganization(organizations, async org =>
+                    (await listProjectNames(token, org, clientOptions)).map(project => ({
+                        uri: `ado://${org}/${encodeURIComponent(project)}/teams`,
+                        name: `${project} teams`,
+                        mimeType: "text/markdown"
+                    }))
+                )
+            }),
+            complete: { org: completeOrganization, project: completeProject }
+        }),
+        { title: "Teams", description: "The teams in an Azure DevOps project", mimeType: "text/markdown" },
+        async (uri, { org, project }) => {
+            const organization = resolveOrganization(organizations, variable(org));
+            const projectId = await resolveProjectId(createAdoClient(token, organization, clientOptions), variable(project));
+            const result = await listTeamsTool(token, organizations, clientOptions).handler({ projectId, organization, format: "markdown" });
+            return toResourceContents(uri, result);
+        }
+    );
+
+    server.registerResource(
+        "workItem",
+        new ResourceTemplate("ado://{org}/workitems/{id}", {
+            // Listing every work item is not practical; offer the caller's open items in the current iteration
+            list: async () => ({
+                resources: await listPerOrganization(organizations, async org => {
+                    const result = await listWorkItemsTool(token, organizations, clientOptions).handler({ organization: org, top: 50, format: "json" });
+                    if ("isError" in result) throw new Error(result.content[0].text);
+                    return result.structuredContent.workItems.map(workItem => ({
+                        uri: `ado://${org}/workitems/${workItem.id}`,
+                        name: `#${workItem.id} ${workItem.fields["System.Title"]}`,
+                        description: `${workItem.fields["System.WorkItemType"]} — ${workItem.fields["System.State"]}`,
+                        mimeType: "text/markdown"
+                    }));
+                })
+            }),
+            complete: { org: completeOrganization }
+        }),
+        { title: "Work Item", description: "A work item with its fields, discussion and links", mimeType: "text/markdown" },
+        async (uri, { org, id }) => {
+            const workItemId = Number(variable(id));
+            const result = await getWorkItemDetailsTool(token, organizations, clientOptions).handler({ ids: workItemId, organization: variable(org), format: "markdown" });
+            if ("structuredContent" in result && result.structuredContent.workItems.length === 0) {
+                throw new McpError(ErrorCode.InvalidParams, `Work item ${workItemId} not found or not accessible.`);
+            }
+            return toResourceContents(uri, result);
+        }
+    );
+
+    const subscriptions = createWorkItemSubscriptions(server, token, organizations, clientOptions, subscriptionOptions);
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+        await subscriptions.subscribe(request.params.uri);
+        return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+        await subscriptions.unsubscribe(request.params.uri);
+        return {};
+    });
+
+    return { pollSubscriptions: subscriptions.poll };
+}
@@ -0,0 +1,72 @@
+// Work item subscriptions, kept where the next poll can find them
+
+export interface WorkItemSubscription {
+    // As the client subscribed; notifications must echo it exactly
+    uri: string;
+    organization: string;
+    id: number;
+    // Revision seen by the last poll; unset until the first one
+    rev?: number;
+}
+
+export interface SubscriptionStore {
+    list(): Promise<WorkItemSubscription[]>;
+    get(uri: string): Promise<WorkItemSubscription | undefined>;
+    save(subscription: WorkItemSubscription): Promise<void>;
+    remove(uri: string): Promise<void>;
+}
+
+// For hosts without Durable Object storage; subscriptions end with the process
+export function createMemorySubscriptionStore(): SubscriptionStore {
+    const subscriptions = new Map<string, WorkItemSubscription>();
+    return {
+        async list() {
+            return [...subscriptions.values()].map(subscription => ({ ...subscription }));
+        },
+        async get(uri) {
+            const subscription = subscriptions.get(uri);
+            return subscription && { ...subscription };
+        },
+        async save(subscription) {
+            subscriptions.set(subscription.uri, { ...subscription });
+        },
+        async remove(uri) {
+            subscriptions.delete(uri);
+        }
+    };
+}
+
+/**
+ * Subscriptions in the session Durable Object's SQLite storage, so an alarm that wakes
+ * a fresh instance after eviction still finds them.
+ */
+export function createSqlSubscriptionStore(sql: SqlStorage): SubscriptionStore {
+    sql.exec(`CREATE TABLE IF NOT EXISTS work_item_subscriptions (
+        uri TEXT PRIMARY KEY,
+        organization TEXT NOT NULL,
+        id INTEGER NOT NULL,
+        rev INTEGER
+    )`);
+
+    type Row = { uri: string; organization: string; id: number; rev: number | null };
+    const toSubscription = ({ uri, organization, id, rev }: Row): WorkItemSubscription => ({ uri, organization, id, rev: rev ?? undefined });
+
+    return {
+        async list() {
+            return sql.exec<Row>("SELECT uri, organization, id, rev FROM work_item_subscriptions").toArray().map(toSubscription);
+        },
+        async get(uri) {
+            const [row] = sql.exec<Row>("SELECT uri, organization, id, rev FROM work_item_subscriptions WHERE uri = ?", uri).toArray();
+            return row && toSubscription(row);
+        },
+        async save({ uri, organization, id, rev }) {
+            sql.exec(
+                "INSERT OR REPLACE INTO work_item_subscriptions (uri, organization, id, rev) VALUES (?, ?, ?, ?)",
+                uri, organization, id, rev ?? null
+            );
+        },
+        async remove(uri) {
+            sql.exec("DELETE FROM work_item_subscriptions WHERE uri = ?", uri);
+        }
+    };
+}
@@ -4,35 +4,70 @@ import {
     AdoProject,
     AdoTeam,
     ProjectsResponse, 
+    JsonPatchOperation,
     WorkItem, 
-    WorkItemQueryResult, 
-    WorkItemsResponse 
+    WorkItemComment,
+    WorkItemCommentsResponse,
+    WorkItemFieldName,
+    WorkItemFilters,
+    WorkItemQueryResult,
+    WorkItemRelation
 } from "../interface/adoInterfaces";
+import {
+    projectSchema,
+    teamSchema,
+    toWorkItemOutput,
+    workItemSchema,
+    workItemWithCommentsSchema
+} from "../interface/adoSchemas";
+import { type AdoClient, type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { decodeCursor, encodeCursor, fingerprintQuery } from "../utils/pagination";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { type BuildSummary, buildSummarySchema, describeBuild, fetchBuildsById, toBuildSummary } from "../utils/builds";
+import { buildIdFromUrl, describeRelation } from "../utils/workItemRelations";
+import { resolveByName } from "../utils/nameMatching";
+import { fetchIdentityNames, resolveIdentity } from "../utils/identities";
+import { findHtmlReferences, type HtmlReferences, htmlToMarkdown, looksLikeHtml, markdownToHtml } from "../utils/markdown";
+import { resolveClassificationPath } from "../utils/classificationPaths";
+import { fetchFieldDefinitions } from "../utils/workItemMetadata";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { buildWorkItemsWiql, escapeWiqlString, hasWorkItemFilters, WORK_ITEM_SORT_FIELDS, type WorkItemSortField } from "../utils/wiql";
+import { defineTool } from "./toolDefinition";
 
-export function listProjectsTool(token: string, organization?: string) {
-    const org = organization || process.env.ADO_ORGANIZATION;
-    if (!org) throw new Error("Organization must be provided or set in ADO_ORGANIZATION");
-
-    return {
+export function listProjectsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
         token,
         name: "listProjects",
+        annotations: { title: "List Projects", readOnlyHint: true },
         schema: {
             top: z.number().optional().default(50).describe("Number of projects to return (default: 50, max: 200)"),
             continuationToken: z.string().optional().describe("Continuation token for pagination"),
-            stateFilter: z.string().optional().describe("Filter projects by state (e.g., 'all', 'wellFormed', 'createPending', 'deleted', 'new', 'unchanged')")
+            stateFilter: z.string().optional().describe("Filter projects by state (e.g., 'all', 'wellFormed', 'createPending', 'deleted', 'new', 'unchanged')"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            count: z.number(),
+            projects: z.array(projectSchema),
+            continuationToken: z.string().optional()
         },
         handler: async ({
             top = 50,
             continuationToken,
-            stateFilter
+            stateFilter,
+            organization,
+            format = "text"
         }: {
             top?: number;
             continuationToken?: string;
             stateFilter?: string;
+            organization?: string;
+            format?: OutputFormat;
         }) => {
             try {
-                const baseUrl = `https://dev.azure.com/${org}`;
-                let projectsUrl = `${baseUrl}/_apis/projects?api-version=7.1-preview.4&$top=${top}`;
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                let projectsUrl = `_apis/projects?api-version=7.1-preview.4&$top=${top}`;
 
                 if (continuationToken) {
                     projectsUrl += `&continuationToken=${encodeURIComponent(continuationToken)}`;
@@ -41,38 +76,47 @@ export function listProjectsTool(token: string, organization?: string) {
                     projectsUrl += `&stateFilter=${encodeURIComponent(stateFilter)}`;
                 }
 
-                const response = await fetch(projectsUrl, {
-                    headers: {
-                        'Authorization': `Bearer ${token}`,
-                        'Content-Type': 'application/json'
-                    }
-                });
+                const { data, headers } = await client.send<ProjectsResponse>(projectsUrl);
+                const projects = data.value || [];
+                // ADO returns the projects continuation token as a response header
+                const nextToken = headers.get("x-ms-continuationtoken") || data.continuationToken;
 
-                if (!response.ok) {
-                    throw new Error(`Failed to fetch projects: ${await response.text()}`);
-                }
+                const structured = { count: projects.length, projects, continuationToken: nextToken || undefined };
 
-                const data = await response.json() as ProjectsResponse;
-                const projects = data.value || [];
+                return toolResult(structured, format, {
+                    text: () => {
+                        let responseText = `Found ${projects.length} projects\n\n`;
 
-                let responseText = `Found ${projects.length} projects\n\n`;
+                        projects.forEach((project, index) => {
+                            responseText += `${index + 1}. ${project.name} (${project.id})\n`;
+                            responseText += `   State: ${project.state}\n`;
+                            responseText += `   URL: ${project.url.replace('_apis/projects/', '_projects/')}\n`;
+                            if (project.description) {
+                                responseText += `   Description: ${project.description}\n`;
+                            }
+                            responseText += `   Last Updated: ${new Date(project.lastUpdateTime).toLocaleString()}\n`;
+                            responseText += "\n" + "-".repeat(30) + "\n\n";
+                        });
 
-                projects.forEach((project, index) => {
-                    responseText += `${index + 1}. ${project.name} (${project.id})\n`;
-                    responseText += `   State: ${project.state}\n`;
-                    responseText += `   URL: ${project.url.replace('_apis/projects/', '_projects/')}\n`;
-                    if (project.description) {
-                        responseText += `   Description: ${project.description}\n`;
+                        if (nextToken) {
+                            responseText += `\nMore projects available. Use continuationToken=${nextToken} to get next page.\n`;
+                        }
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## Projects (${projects.length})\n\n`;
+                        for (const project of projects) {
+                            responseText += `- **${project.name}** (\`${project.id}\`) — ${project.state}, updated ${project.lastUpdateTime}\n`;
+                            if (project.description) {
+                                responseText += `  ${project.description}\n`;
+                            }
+                        }
+                        if (nextToken) {
+                            responseText += `\n_More projects available. Use \`continuationToken=${nextToken}\` to get the next page._\n`;
+                        }
+                        return responseText;
                     }
-                    responseText += `   Last Updated: ${new Date(project.lastUpdateTime).toLocaleString()}\n`;
-                    responseText += "\n" + "-".repeat(30) + "\n\n";
                 });
-
-                if (data.continuationToken) {
-                    responseText += `\nMore projects available. Use continuationToken=${data.continuationToken} to get next page.\n`;
-                }
-
-                return { content: [{ type: "text" as const, text: responseText }] };
             } catch (error: unknown) {
                 return {
                     content: [{ type: "text" as const, text: `Error fetching projects: ${error instanceof Error ? error.message : 'Unknown error occurred'}` }],
@@ -80,72 +124,57 @@ export function listProjectsTool(token: string, organization?: string) {
                 };
             }
         }
-    };
+    });
 }
 
-export function listTeamsTool(token: string, organization?: string) {
-    return {
+export function listTeamsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
       token,
       name: "listTeams",
+      annotations: { title: "List Teams", readOnlyHint: true },
       schema: {
-        projectId: z.string().describe("The ID of the Azure DevOps project to list teams from")
+        projectId: z.string().describe("The ID of the Azure DevOps project to list teams from"),
+        organization: organizationSchema,
+        format: outputFormatSchema
+      },
+      outputSchema: {
+        count: z.number(),
+        teams: z.array(teamSchema)
       },
-      handler: async ({ projectId }: { projectId: string }) => {
+      handler: async ({ projectId, organization, format = "text" }: { projectId: string; organization?: string; format?: OutputFormat }) => {
         try {
-          const org = organization || process.env.ADO_ORGANIZATION;
-          if (!org) {
-            throw new Error("Organization name is required.");
-          }
-  
-          const url = `https://dev.azure.com/${org}/_apis/projects/${projectId}/teams?api-version=7.1-preview.3`;
+          const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+          const teams = await fetchProjectTeams(client, projectId);
   
-          const response = await fetch(url, {
-            headers: {
-              "Authorization": `Bearer ${token}`,
-              "Content-Type": "application/json"
-            }
-          });
-  
-          if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`Failed to fetch teams: ${error}`);
-          }
-  
-          const data = await response.json() as {
-            count: number;
-            value: {
-              id: string;
-              name: string;
-              description?: string;
-              url: string;
-            }[];
-          };
+          return toolResult({ count: teams.length, teams }, format, {
+            text: () => {
+              if (teams.length === 0) {
+                return `No teams found for project ID: ${projectId}`;
+              }
   
-          if (data.count === 0) {
-            return {
-              content: [{
-                type: "text" as const,
-                text: `No teams found for project ID: ${projectId}`
-              }]
-            };
-          }
+              let responseText = `Found ${teams.length} teams in project ${projectId}:\n\n`;
+              teams.forEach((team, idx) => {
+                responseText += `${idx + 1}. ${team.name}\n`;
+                responseText += `   ID: ${team.id}\n`;
+                if (team.description) {
+                  responseText += `   Description: ${team.description}\n`;
+                }
+                responseText += `   URL: ${team.url}\n\n`;
+              });
+              return responseText;
+            },
+            markdown: () => {
+              if (teams.length === 0) {
+                return `_No teams found for project \`${projectId}\`._`;
+              }
   
-          let responseText = `Found ${data.count} teams in project ${projectId}:\n\n`;
-          data.value.forEach((team, idx) => {
-            responseText += `${idx + 1}. ${team.name}\n`;
-            responseText += `   ID: ${team.id}\n`;
-            if (team.description) {
-              responseText += `   Description: ${team.description}\n`;
+              let responseText = `## Teams in ${teams[0].projectName} (${teams.length})\n\n`;
+              for (const team of teams) {
+                responseText += `- **${team.name}** (\`${team.id}\`)${team.description ? ` — ${team.description}` : ""}\n`;
+              }
+              return responseText;
             }
-            responseText += `   URL: ${team.url}\n\n`;
           });
-  
-          return {
-            content: [{
-              type: "text" as const,
-              text: responseText
-            }]
-          };
         } catch (error: unknown) {
           const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
           return {
@@ -157,146 +186,267 @@ export function listTeamsTool(token: string, organization?: string) {
           };
         }
       }
-    };
+    });
   }
 
-  // Simple fuzzy match: case-insensitive substring search
-function findClosestMatch<T extends { name: string; id: string }>(list: T[], query: string): T | null {
-    const lowerQuery = query.toLowerCase();
-    return (
-      list.find(item => item.name.toLowerCase().includes(lowerQuery)) ||
-      list.find(item => item.id.toLowerCase() === query.toLowerCase()) ||
-      null
-    );
-  }
+/**
+ * Projects in the client's organization, from the session cache when fresh.
+ */
+export async function fetchAllProjects(client: AdoClient): Promise<AdoProject[]> {
+    return client.cached("projects", "all", async () => {
+        const data = await client.get<AdoListResponse<AdoProject>>("_apis/projects?api-version=7.1-preview.4");
+        return data.value || [];
+    });
+}
 
-  export function listWorkItemsTool(token: string, organization?: string) {
-    return {
+/**
+ * Teams in a project, from the session cache when fresh.
+ */
+export async function fetchProjectTeams(client: AdoClient, projectId: string): Promise<AdoTeam[]> {
+    return client.cached("teams", projectId.toLowerCase(), async () => {
+        const data = await client.get<AdoListResponse<AdoTeam>>(`_apis/projects/${projectId}/teams?api-version=7.1-preview.3`);
+        return data.value || [];
+    });
+}
+
+/**
+ * Resolves a project name (fuzzy) or ID to the project ID.
+ * GUIDs are returned as-is without a lookup.
+ */
+export async function resolveProjectId(client: AdoClient, project: string): Promise<string> {
+    if (/^[0-9a-fA-F-]{36}$/.test(project)) return project;
+
+    const projects = await fetchAllProjects(client);
+    return resolveByName(projects, project, { kind: "project", names: p => [p.name], id: p => p.id }).id;
+}
+
+/**
+ * Resolves a team name (fuzzy) or ID inside a project to the team ID.
+ */
+export async function resolveTeamId(client: AdoClient, projectId: string, team: string): Promise<string> {
+    const teams = await fetchProjectTeams(client, projectId);
+    return resolveByName(teams, team, { kind: "team", names: t => [t.name], id: t => t.id }).id;
+}
+
+// Parameters of the team-scoped tools (sprints, boards, backlogs)
+export const teamScopeSchema = {
+    project: z.string().describe("The name or ID of the Azure DevOps project (fuzzy match supported)"),
+    team: z.string().describe("The name or ID of the team inside the project (fuzzy match supported)")
+};
+
+export interface TeamContext {
+    client: AdoClient;
+    // URL prefix for team-scoped APIs: {projectId}/{teamId}/
+    teamPath: string;
+}
+
+/**
+ * Resolves a project and team, fuzzy or by ID, to the URL prefix of the team-scoped APIs.
+ */
+export async function resolveTeamContext(client: AdoClient, project: string, team: string): Promise<TeamContext> {
+    const projectId = await resolveProjectId(client, project);
+    const teamId = await resolveTeamId(client, projectId, team);
+    return { client, teamPath: `${projectId}/${teamId}/` };
+}
+
+// Project a path belongs to: the given one, or the path's first segment ("Project\\Web")
+async function resolvePathProject(client: AdoClient, path: string, projectId?: string): Promise<string> {
+    return projectId ?? resolveProjectId(client, path.replace(/^\\/, "").split("\\")[0]);
+}
+
+// Identity fields and WIQL compare against the unique name (email) when there is one
+async function resolveUserValue(client: AdoClient, user: string): Promise<string> {
+    const identity = await resolveIdentity(client, user);
+    return identity.uniqueName ?? identity.displayName;
+}
+
+/**
+ * Resolves the names in listWorkItems filters (assignee, area and iteration paths) to the exact
+ * values WIQL compares against. Macros such as @Me and @CurrentIteration pass through unchanged.
+ */
+async function resolveWorkItemFilters(client: AdoClient, filters: WorkItemFilters, projectId?: string): Promise<WorkItemFilters> {
+    const resolved = { ...filters };
+    if (filters.assignedTo && !filters.assignedTo.trim().startsWith("@")) {
+        resolved.assignedTo = await resolveUserValue(client, filters.assignedTo);
+    }
+    if (filters.areaPath) {
+        const areaProject = await resolvePathProject(client, filters.areaPath, projectId);
+        resolved.areaPath = await resolveClassificationPath(client, areaProject, "areas", filters.areaPath);
+    }
+    if (filters.iterationPath && !filters.iterationPath.trim().startsWith("@")) {
+        const iterationProject = await resolvePathProject(client, filters.iterationPath, projectId);
+        resolved.iterationPath = await resolveClassificationPath(client, iterationProject, "iterations", filters.iterationPath);
+    }
+    return resolved;
+}
+
+// The workitems endpoint accepts at most 200 IDs per request
+export const WORK_ITEMS_BATCH_SIZE = 200;
+
+/**
+ * Fetches work items by ID in parallel chunks of WORK_ITEMS_BATCH_SIZE.
+ * - Results are returned in the order of `ids`
+ * - IDs that no longer exist or are not visible are omitted instead of failing the whole batch
+ */
+export async function fetchWorkItemsInBatches(
+    client: AdoClient,
+    ids: number[],
+    expand: "all" | "relations" | "fields" | "none" = "all"
+): Promise<WorkItem[]> {
+    const chunks: number[][] = [];
+    for (let i = 0; i < ids.length; i += WORK_ITEMS_BATCH_SIZE) {
+        chunks.push(ids.slice(i, i + WORK_ITEMS_BATCH_SIZE));
+    }
+
+    const results = await Promise.all(chunks.map(async chunk => {
+        const data = await client.get<{ value: (WorkItem | null)[] }>(
+            `_apis/wit/workitems?ids=${chunk.join(",")}&$expand=${expand}&errorPolicy=omit&api-version=7.1-preview.3`
+        );
+        return (data.value || []).filter((item): item is WorkItem => item !== null);
+    }));
+
+    const byId = new Map(results.flat().map(item => [item.id, item]));
+    return ids.map(id => byId.get(id)).filter((item): item is WorkItem => item !== undefined);
+}
+
+  export function listWorkItemsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
       token,
       name: "listWorkItems",
+      annotations: { title: "List Work Items", readOnlyHint: true },
       schema: {
-        top: z.number().optional().default(50).describe("Number of work items to return (default: 50, max: 200)"),
-        skip: z.number().optional().describe("Number of work items to skip for pagination"),
+        top: z.number().int().min(1).max(1000).optional().default(50).describe("Number of work items to return (default: 50, max: 1000)"),
+        skip: z.number().int().min(0).optional().describe("Number of work items to skip for pagination"),
+        continuationToken: z.string().optional().describe("Continuation token from a previous call to get the next page (takes precedence over skip)"),
         project: z.string().optional().describe("The name or ID of the Azure DevOps project (fuzzy match supported)"),
-        team: z.string().optional().describe("The name or ID of the team inside the project (fuzzy match supported)")
+        team: z.string().optional().describe("The name or ID of the team inside the project (fuzzy match supported)"),
+        assignedTo: z.string().optional().describe("Only items assigned to this user (display name, email or '@Me')"),
+        states: z.array(z.string()).optional().describe("Only items in one of these states (e.g., ['Active', 'New'])"),
+        excludeStates: z.array(z.string()).optional().describe("Exclude items in these states (e.g., ['Closed', 'Removed'])"),
+        types: z.array(z.string()).optional().describe("Only items of these work item types (e.g., ['Bug', 'User Story'])"),
+        excludeTypes: z.array(z.string()).optional().describe("Exclude items of these work item types"),
+        tags: z.array(z.string()).optional().describe("Only items carrying all of these tags"),
+        areaPath: z.string().optional().describe("Only items under this area path (e.g., 'Project\\Web'; fuzzy match supported)"),
+        iterationPath: z.string().optional().describe("Only items under this iteration path (fuzzy match supported), or '@CurrentIteration' (optionally '@CurrentIteration - 1')"),
+        priorities: z.array(z.number().int()).optional().describe("Only items with one of these priorities (e.g., [1, 2])"),
+        changedSince: z.string().optional().describe("Only items changed on or after this date (YYYY-MM-DD or '@Today - N')"),
+        orderBy: z.array(z.object({
+          field: z.enum(WORK_ITEM_SORT_FIELDS),
+          direction: z.enum(["asc", "desc"]).optional()
+        })).optional().describe("Sort order (default: State, then ChangedDate descending)"),
+        organization: organizationSchema,
+        format: outputFormatSchema
+      },
+      outputSchema: {
+        total: z.number(),
+        offset: z.number(),
+        workItems: z.array(workItemSchema),
+        continuationToken: z.string().optional()
       },
       handler: async ({
         top = 50,
         skip = 0,
+        continuationToken,
         project,
-        team
+        team,
+        orderBy,
+        organization,
+        format = "text",
+        ...filters
       }: {
         top?: number;
         skip?: number;
+        continuationToken?: string;
         project?: string;
         team?: string;
-      }) => {
+        orderBy?: { field: WorkItemSortField; direction?: "asc" | "desc" }[];
+        organization?: string;
+        format?: OutputFormat;
+      } & WorkItemFilters) => {
         try {
-          const org = organization || process.env.ADO_ORGANIZATION;
-          if (!org) {
-            throw new Error("Organization name is required.");
-          }
+          const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
   
-          const baseUrl = `https://dev.azure.com/${org}`;
+          // 🔎 Resolve project and team if provided
+          const projectId = project ? await resolveProjectId(client, project) : undefined;
+          const teamId = team && projectId ? await resolveTeamId(client, projectId, team) : team;
   
-          // 🔎 Resolve project if provided
-        let projectId = project;
-        if (project && !/^[0-9a-fA-F-]{36}$/.test(project)) {
-        const projectsResp = await fetch(`${baseUrl}/_apis/projects?api-version=7.1-preview.4`, {
-            headers: { Authorization: `Bearer ${token}` }
-        });
-        const projectsData = await projectsResp.json() as AdoListResponse<AdoProject>;
-        const match = findClosestMatch(projectsData.value, project);
-        if (!match) throw new Error(`No matching project found for "${project}"`);
-        projectId = match.id;
-        }
-
-        // 🔎 Resolve team if provided
-        let teamId = team;
-        if (team && projectId) {
-        const teamsResp = await fetch(`${baseUrl}/_apis/projects/${projectId}/teams?api-version=7.1-preview.3`, {
-            headers: { Authorization: `Bearer ${token}` }
-        });
-        const teamsData = await teamsResp.json() as AdoListResponse<AdoTeam>;
-        const match = findClosestMatch(teamsData.value, team);
-        if (!match) throw new Error(`No matching team found for "${team}"`);
-        teamId = match.id;
-        }
-  
-          // Build WIQL query
-          const wiqlQuery = `
-            SELECT [System.Id], [System.Title], [System.State], [System.WorkItemType], 
-                   [System.AssignedTo], [System.IterationPath]
-            FROM WorkItems
-            WHERE [System.AssignedTo] = @Me
-              AND [System.WorkItemType] <> 'Task'
-              AND [System.IterationPath] = @CurrentIteration
-              AND [System.State] <> 'Closed'
-            ORDER BY [System.State], [System.ChangedDate] DESC
-          `;
+          // Build WIQL query (defaults to my open items in the current iteration)
+          const filtered = hasWorkItemFilters(filters);
+          const wiqlQuery = buildWorkItemsWiql(await resolveWorkItemFilters(client, filters, projectId), orderBy, { inProject: projectId !== undefined });
   
+          // Continue from a cursor: same query, same point in time
+          const fingerprint = fingerprintQuery(`${projectId ?? ""}|${teamId ?? ""}|${wiqlQuery}`);
+          const cursor = continuationToken ? decodeCursor(continuationToken) : undefined;
+          if (cursor && cursor.query !== fingerprint) {
+            throw new Error("Continuation token belongs to a different query. Start again without one.");
+          }
+          const offset = cursor ? cursor.offset : skip;
+          const asOf = cursor ? cursor.asOf : new Date().toISOString();
+
           const projectPath = projectId ? `${projectId}/` : "";
           const teamPath = teamId ? `${teamId}/` : "";
-          const wiqlUrl = `${baseUrl}/${projectPath}${teamPath}_apis/wit/wiql?api-version=7.1-preview.2`;
-  
-          const wiqlResponse = await fetch(wiqlUrl, {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${token}`,
-              "Content-Type": "application/json"
-            },
-            body: JSON.stringify({ query: wiqlQuery })
-          });
-  
-          if (!wiqlResponse.ok) {
-            const error = await wiqlResponse.text();
-            throw new Error(`Failed to execute WIQL query: ${error}`);
-          }
-  
-          const wiqlResult = await wiqlResponse.json() as WorkItemQueryResult;
+          const wiqlResult = await client.post<WorkItemQueryResult>(
+            `${projectPath}${teamPath}_apis/wit/wiql?api-version=7.1-preview.2`,
+            { query: `${wiqlQuery}\nASOF ${escapeWiqlString(asOf)}` },
+            { idempotent: true }
+          );
           const workItemIds = wiqlResult.workItems?.map(wi => wi.id) || [];
   
-          if (workItemIds.length === 0) {
-            return {
-              content: [{ type: "text" as const, text: "No work items found matching the criteria." }]
-            };
-          }
+          // The workitems endpoint has no paging of its own: slice the WIQL IDs and hydrate the page
+          const pageIds = workItemIds.slice(offset, offset + top);
+          const workItems = await fetchWorkItemsInBatches(client, pageIds);
+          const nextOffset = offset + pageIds.length;
+          const nextToken = nextOffset < workItemIds.length
+            ? encodeCursor({ offset: nextOffset, asOf, query: fingerprint })
+            : undefined;
   
-          // Fetch details
-          const workItemsUrl = `${baseUrl}/_apis/wit/workitems?ids=${workItemIds.join(",")}` +
-            `&$expand=all&$top=${top}&$skip=${skip}&api-version=7.1-preview.3`;
+          const structured = {
+            total: workItemIds.length,
+            offset,
+            workItems: workItems.map(toWorkItemOutput),
+            continuationToken: nextToken
+          };
+          const range = `${pageIds.length > 0 ? offset + 1 : 0}-${nextOffset} of ${workItemIds.length}`;
   
-          const workItemsResponse = await fetch(workItemsUrl, {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              "Content-Type": "application/json"
-            }
-          });
+          return toolResult(structured, format, {
+            text: () => {
+              if (workItemIds.length === 0) return "No work items found matching the criteria.";
   
-          if (!workItemsResponse.ok) {
-            const error = await workItemsResponse.text();
-            throw new Error(`Failed to fetch work items: ${error}`);
-          }
+              let responseText = filtered
+                ? `Found ${workItemIds.length} work items matching the filters (showing ${range})\n\n`
+                : `Found ${workItemIds.length} work items in current iteration assigned to you (showing ${range})\n\n`;
+              responseText += "=".repeat(50) + "\n\n";
   
-          const workItemsData = await workItemsResponse.json() as WorkItemsResponse;
-          const workItems = workItemsData.value || [];
+              workItems.forEach((item, index) => {
+                const fields = item.fields;
+                responseText += `${offset + index + 1}. [${fields["System.WorkItemType"]}] ${fields["System.Title"]}\n`;
+                responseText += `   ID: ${item.id}\n`;
+                responseText += `   State: ${fields["System.State"]}\n`;
+                responseText += `   Iteration: ${fields["System.IterationPath"]}\n`;
+                responseText += `   URL: ${workItemWebUrl(item)}\n\n`;
+              });
   
-          let responseText = `Found ${workItems.length} work items in current iteration assigned to you\n\n`;
-          responseText += "=".repeat(50) + "\n\n";
+              if (nextToken) {
+                responseText += `More work items available. Use continuationToken=${nextToken} to get the next page.\n`;
+              }
+              return responseText;
+            },
+            markdown: () => {
+              if (workItemIds.length === 0) return "_No work items found matching the criteria._";
   
-          workItems.forEach((item, index) => {
-            const fields = item.fields;
-            responseText += `${index + 1}. [${fields["System.WorkItemType"]}] ${fields["System.Title"]}\n`;
-            responseText += `   ID: ${item.id}\n`;
-            responseText += `   State: ${fields["System.State"]}\n`;
-            responseText += `   Iteration: ${fields["System.IterationPath"]}\n`;
-            responseText += `   URL: ${item.url.replace("_apis/wit/workItems", "_workitems/edit")}\n\n`;
+              let responseText = `## Work items (${range})\n\n`;
+              responseText += "| ID | Type | Title | State | Iteration |\n|---|---|---|---|---|\n";
+              for (const item of workItems) {
+                const fields = item.fields;
+                responseText += `| [${item.id}](${workItemWebUrl(item)}) | ${fields["System.WorkItemType"]} | ${escapeMarkdownCell(fields["System.Title"])} | ${fields["System.State"]} | ${fields["System.IterationPath"] ?? ""} |\n`;
+              }
+              if (nextToken) {
+                responseText += `\n_More work items available. Use \`continuationToken=${nextToken}\` to get the next page._\n`;
+              }
+              return responseText;
+            }
           });
   
-          return {
-            content: [{ type: "text" as const, text: responseText }]
-          };
-  
         } catch (error: unknown) {
           const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
           return {
@@ -305,129 +455,528 @@ function findClosestMatch<T extends { name: string; id: string }>(list: T[], que
           };
         }
       }
-    };
+    });
   }
 
-  /**
- * Converts ADO rich text fields (HTML) into plain text.
- * - Removes tags
- * - Keeps line breaks for <p>, <li>, <br>
- * - Keeps bullets for <li>
+// Largest page the comments endpoint returns
+const COMMENTS_PAGE_SIZE = 200;
+// Work items whose comments getWorkItemDetails fetches at once
+const COMMENTS_CONCURRENCY = 6;
+
+export interface WorkItemDiscussion {
+    comments: WorkItemComment[];
+    // Comments on the work item, including any not fetched
+    totalCount: number;
+    // Why a later page could not be read; the comments are then only the first pages
+    error?: string;
+}
+
+/**
+ * Fetches the discussion comments of a work item, following continuation tokens
+ * until `maxComments` comments (default: all) are fetched.
+ * Best effort: an unavailable comments endpoint yields the comments fetched so far.
  */
-  export function parseWorkItemHtml(html?: string): string {
-    if (!html) return "";
-
-    return html
-      // normalize <br> and </p> as line breaks
-      .replace(/<\/p>/gi, "\n")
-      .replace(/<br\s*\/?>/gi, "\n")
-      // add bullet before list items
-      .replace(/<li[^>]*>/gi, "• ")
-      .replace(/<\/li>/gi, "\n")
-      // remove all other tags
-      .replace(/<[^>]+>/g, "")
-      // decode HTML entities (basic ones)
-      .replace(/&nbsp;/g, " ")
-      .replace(/&quot;/g, '"')
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      // collapse multiple line breaks
-      .replace(/\n{2,}/g, "\n")
-      .trim();
-  }
+export async function fetchWorkItemDiscussion(client: AdoClient, id: number, maxComments = Number.POSITIVE_INFINITY): Promise<WorkItemDiscussion> {
+    const comments: WorkItemComment[] = [];
+    let totalCount: number | undefined;
+    let continuationToken: string | undefined;
+    let error: string | undefined;
+    const fetchPage = async () => {
+        const top = Math.min(COMMENTS_PAGE_SIZE, maxComments - comments.length);
+        const page = await client.get<WorkItemCommentsResponse>(
+            `_apis/wit/workItems/${id}/comments?$top=${top}` +
+            (continuationToken ? `&continuationToken=${encodeURIComponent(continuationToken)}` : "") +
+            "&api-version=7.1-preview.3"
+        );
+        comments.push(...(page.comments || []));
+        totalCount ??= page.totalCount;
+        continuationToken = page.continuationToken;
+    };
+
+    // Without the first page there is no discussion to show; a later page failing leaves a partial one
+    await fetchPage();
+    try {
+        while (continuationToken && comments.length < maxComments) await fetchPage();
+    } catch (pageError: unknown) {
+        error = pageError instanceof Error ? pageError.message : "Unknown error occurred";
+    }
+    const kept = comments.slice(0, maxComments);
+    return { comments: kept, totalCount: Math.max(totalCount ?? 0, comments.length), ...(error ? { error } : {}) };
+}
+
+/**
+ * Fetches all discussion comments of a work item; see fetchWorkItemDiscussion for failures.
+ */
+export async function fetchWorkItemComments(client: AdoClient, id: number): Promise<WorkItemComment[]> {
+    return (await fetchWorkItemDiscussion(client, id)).comments;
+}
+
+// Browser URL of a work item (the API returns the REST URL)
+export function workItemWebUrl(workItem: WorkItem): string {
+    return workItem.url.replace("_apis/wit/workItems", "_workitems/edit");
+}
+
+export function escapeMarkdownCell(value: string): string {
+    return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+// Parts of getWorkItemDetails that can be included or excluded; plain fields are always shown
+export const DETAIL_SECTIONS = ["description", "acceptanceCriteria", "discussion", "relations"] as const;
+export type DetailSection = typeof DETAIL_SECTIONS[number];
+
+// The field behind each field section
+const SECTION_FIELDS: Record<string, DetailSection> = {
+    "System.Description": "description",
+    "Microsoft.VSTS.Common.AcceptanceCriteria": "acceptanceCriteria"
+};
+
+interface WorkItemDetailsOptions {
+    // Linked builds by ID, shown with their pipeline, result and link
+    builds?: Map<number, BuildSummary>;
+    // Names and titles for mentions and #references in rich text
+    references?: HtmlReferences;
+    // Field display names by reference name; fields missing here are labelled from their reference name
+    fieldNames?: Map<string, string>;
+    // Only show these fields (reference or display names, case-insensitive)
+    fields?: string[];
+    // Sections to show (default: all)
+    sections?: DetailSection[];
+    // Comments on the work item when only some were fetched, for the truncation notice
+    totalComments?: number;
+    // Why the discussion stops early (a later comments page failed), for the truncation notice
+    commentsError?: string;
+    // Characters of rich text and comments shown per work item; the rest is cut off
+    maxChars?: number;
+}
+
+// Bookkeeping fields left out of the details unless asked for by name; the title is the heading
+const HIDDEN_DETAIL_FIELDS = new Set([
+    "System.Id",
+    "System.Title",
+    "System.Rev",
+    "System.Watermark",
+    "System.AuthorizedDate",
+    "System.AuthorizedAs",
+    "System.RevisedDate",
+    "System.PersonId",
+    "System.AreaId",
+    "System.IterationId",
+    "System.NodeName",
+    "System.CommentCount",
+    "System.History"
+]);
+
+// Shown first, in this order; the remaining fields follow alphabetically by label
+const LEADING_DETAIL_FIELDS = [
+    "System.WorkItemType",
+    "System.State",
+    "System.Reason",
+    "System.AssignedTo",
+    "System.AreaPath",
+    "System.IterationPath",
+    "Microsoft.VSTS.Common.Priority",
+    "Microsoft.VSTS.Common.Severity",
+    "System.CreatedBy",
+    "System.CreatedDate",
+    "System.ChangedBy",
+    "System.ChangedDate",
+    "System.Tags"
+];
+
+interface DetailField {
+    label: string;
+    value: string;
+    // HTML fields (description, repro steps, ...) are rendered as Markdown sections
+    richText: boolean;
+}
+
+// "Custom.CustomerImpact" → "Customer Impact"
+function fieldLabel(referenceName: string, fieldNames: Map<string, string>): string {
+    const name = fieldNames.get(referenceName);
+    if (name) return name;
+    const last = referenceName.split(".").pop() ?? referenceName;
+    return last.replace(/([a-z\d])([A-Z])/g, "$1 $2");
+}
+
+/**
+ * Picks the non-empty fields to show, labelled by display name: all but HIDDEN_DETAIL_FIELDS,
+ * or exactly the requested ones. Identities show their display name.
+ */
+function selectDetailFields(workItem: WorkItem, { fieldNames = new Map(), references = {}, fields, sections }: WorkItemDetailsOptions): DetailField[] {
+    const wanted = fields?.map(name => name.trim().toLowerCase()).filter(Boolean);
+    const rank = (name: string) => {
+        const index = LEADING_DETAIL_FIELDS.indexOf(name);
+        return index === -1 ? LEADING_DETAIL_FIELDS.length : index;
+    };
+
+    return Object.entries(workItem.fields as Record<string, unknown>)
+        .filter(([, value]) => value !== undefined && value !== null && value !== "")
+        .filter(([name]) => !sections || !(name in SECTION_FIELDS) || sections.includes(SECTION_FIELDS[name]))
+        .map(([name, value]) => ({ name, value, label: fieldLabel(name, fieldNames) }))
+        .filter(({ name, label }) => wanted?.length
+            ? name !== "System.Title" && (wanted.includes(name.toLowerCase()) || wanted.includes(label.toLowerCase()))
+            : !HIDDEN_DETAIL_FIELDS.has(name))
+        .sort((a, b) => rank(a.name) - rank(b.name) || a.label.localeCompare(b.label))
+        .map(({ name, value, label }) => {
+            if (typeof value === "object") {
+                const identity = value as { displayName?: string };
+                return { label, value: identity.displayName ?? JSON.stringify(value), richText: false };
+            }
+            const text = String(value);
+            const richText = RICH_TEXT_FIELDS.has(name) || looksLikeHtml(text);
+            return { label, value: richText ? htmlToMarkdown(text, references) : text, richText };
+        })
+        .filter(field => field.value !== "");
+}
+
+// Section markers for the text rendering of rich text fields
+const RICH_TEXT_ICONS: Record<string, string> = {
+    Description: "📝",
+    "Acceptance Criteria": "✅"
+};
+
+interface DetailContent {
+    fields: DetailField[];
+    comments: { author: string; body: string }[];
+    relations: WorkItemRelation[];
+    // Set when maxComments or maxChars left something out
+    truncation?: string;
+}
+
+/**
+ * Selects what a work item's details show: fields, the discussion as Markdown and relations,
+ * minus excluded sections. Rich text and comments share the maxChars allowance in that order;
+ * whatever no longer fits is cut off and noted.
+ */
+function selectDetailContent(workItem: WorkItem, comments: WorkItemComment[], options: WorkItemDetailsOptions): DetailContent {
+    const { references = {}, sections, totalComments = comments.length, commentsError, maxChars } = options;
+    const shows = (section: DetailSection) => !sections || sections.includes(section);
+
+    let remaining = maxChars ?? Number.POSITIVE_INFINITY;
+    let cut = false;
+    const take = (text: string) => {
+        if (text.length <= remaining) {
+            remaining -= text.length;
+            return text;
+        }
+        cut = true;
+        const kept = text.slice(0, remaining).trimEnd();
+        remaining = 0;
+        return kept && `${kept}…`;
+    };
+
+    const fields = selectDetailFields(workItem, options)
+        .map(field => field.richText ? { ...field, value: take(field.value) } : field)
+        .filter(field => field.value !== "");
+    const discussion = shows("discussion")
+        ? comments
+            .map(c => ({ author: c.createdBy.displayName, body: take(htmlToMarkdown(c.text, references)) }))
+            .filter(c => c.body !== "")
+        : [];
+
+    const notes: string[] = [];
+    const total = Math.max(totalComments, comments.length);
+    if (shows("discussion") && commentsError) notes.push(`comments truncated: ${commentsError}`);
+    else if (shows("discussion") && discussion.length < total) notes.push(`showing ${discussion.length} of ${total} comments`);
+    if (cut) notes.push(`text cut at ${maxChars} characters`);
 
-  export function getWorkItemDetailsTool(token: string, organization?: string) {
     return {
+        fields,
+        comments: discussion,
+        relations: shows("relations") ? workItem.relations ?? [] : [],
+        truncation: notes.length > 0 ? `Truncated: ${notes.join("; ")}. Raise maxComments or maxChars to see more.` : undefined
+    };
+}
+
+function formatWorkItemDetailsMarkdown(workItem: WorkItem, comments: WorkItemComment[], options: WorkItemDetailsOptions): string {
+    const { builds = new Map() } = options;
+    const content = selectDetailContent(workItem, comments, options);
+    let text = `### [#${workItem.id}](${workItemWebUrl(workItem)}) ${workItem.fields["System.Title"]}\n\n`;
+
+    for (const field of content.fields.filter(f => !f.richText)) {
+        text += `- **${field.label}:** ${field.value}\n`;
+    }
+    text += "\n";
+
+    for (const field of content.fields.filter(f => f.richText)) {
+        text += `#### ${field.label}\n\n${field.value}\n\n`;
+    }
+    if (content.comments.length > 0) {
+        text += "#### Discussion\n\n";
+        for (const c of content.comments) {
+            text += `- **${c.author}:** ${c.body.replace(/\n/g, "\n  ")}\n`;
+        }
+        text += "\n";
+    }
+    if (content.relations.length > 0) {
+        text += "#### Relations\n\n";
+        for (const relation of content.relations) {
+            const { label, target, buildId } = describeRelation(relation);
+            const build = buildId !== undefined ? builds.get(buildId) : undefined;
+            const linkTarget = build ? `[${describeBuild(build)}](${build.webUrl})` : target;
+            text += `- **${label}:** ${linkTarget}${relation.attributes?.comment ? ` — ${relation.attributes.comment}` : ""}\n`;
+        }
+        text += "\n";
+    }
+    if (content.truncation) {
+        text += `> ✂️ ${content.truncation}\n\n`;
+    }
+    return text;
+}
+
+/**
+ * Renders a single work item (non-empty fields, rich text sections, discussion and relations)
+ * as the block used by getWorkItemDetails and the write tools. Rich text is converted to Markdown.
+ */
+function formatWorkItemDetails(
+    workItem: WorkItem,
+    comments: WorkItemComment[],
+    format: "text" | "markdown" = "text",
+    options: WorkItemDetailsOptions = {}
+): string {
+    if (format === "markdown") return formatWorkItemDetailsMarkdown(workItem, comments, options);
+
+    const { builds = new Map() } = options;
+
+    const content = selectDetailContent(workItem, comments, options);
+    let text = "";
+
+    text += `ID: ${workItem.id}\n`;
+    text += `Title: ${workItem.fields["System.Title"]}\n`;
+    for (const field of content.fields.filter(f => !f.richText)) {
+        text += `${field.label}: ${field.value}\n`;
+    }
+    text += "\n";
+
+    // 📝 Description, acceptance criteria, repro steps and other rich text fields
+    for (const field of content.fields.filter(f => f.richText)) {
+        text += `${RICH_TEXT_ICONS[field.label] ?? "📄"} ${field.label}:\n${field.value}\n\n`;
+    }
+
+    // 💬 Discussion (comments endpoint)
+    if (content.comments.length > 0) {
+        text += `💬 Discussion:\n`;
+        content.comments.forEach((c, i) => {
+            text += `   ${i + 1}. ${c.author}: ${c.body.replace(/\n/g, "\n      ")}\n`;
+        });
+        text += "\n";
+    }
+
+    // 🧬 Relations (parent/child, related, PRs, commits, builds, attachments)
+    if (content.relations.length > 0) {
+        text += `🧬 Relations:\n`;
+        for (const relation of content.relations) {
+            const { label, target, buildId } = describeRelation(relation);
+            const build = buildId !== undefined ? builds.get(buildId) : undefined;
+            const linkTarget = build ? `${describeBuild(build)} — ${build.webUrl}` : target;
+            text += `   - ${label}: ${linkTarget}${relation.attributes?.comment ? ` (${relation.attributes.comment})` : ""}\n`;
+        }
+        text += "\n";
+    }
+
+    if (content.truncation) {
+        text += `✂️ ${content.truncation}\n\n`;
+    }
+
+    text += `🔗 URL: ${workItemWebUrl(workItem)}\n`;
+    text += "-".repeat(50) + "\n\n";
+    return text;
+}
+
+// Browser URL of a work item by ID, for #references
+export function workItemUrlFor(client: AdoClient): (id: number) => string {
+    return id => `${client.baseUrl}/_workitems/edit/${id}`;
+}
+
+/**
+ * Looks up the people mentioned and the work items referenced in rich text, so they render as
+ * names and titled links. Lookups are best effort: what cannot be fetched renders as IDs.
+ */
+async function fetchHtmlReferences(client: AdoClient, htmls: (string | undefined)[]): Promise<HtmlReferences> {
+    const userIds = new Set<string>();
+    const workItemIds = new Set<number>();
+    for (const html of htmls) {
+        const found = findHtmlReferences(html);
+        for (const id of found.userIds) userIds.add(id);
+        for (const id of found.workItemIds) workItemIds.add(id);
+    }
+
+    const [users, workItems] = await Promise.all([
+        fetchIdentityNames(client, [...userIds]).catch(() => new Map<string, string>()),
+        fetchWorkItemsInBatches(client, [...workItemIds], "none").catch(() => [])
+    ]);
+    return {
+        users,
+        workItemTitles: new Map(workItems.map(item => [item.id, item.fields["System.Title"]])),
+        workItemUrl: workItemUrlFor(client)
+    };
+}
+
+/**
+ * Looks up the builds linked from work items, per project, keyed by build ID.
+ * Build links are informational: without Build (Read) access the plain links are shown instead.
+ */
+async function fetchLinkedBuilds(client: AdoClient, workItems: WorkItem[]): Promise<Map<number, BuildSummary>> {
+    const idsByProject = new Map<string, Set<number>>();
+    for (const workItem of workItems) {
+        const project = workItem.fields["System.TeamProject"];
+        if (!project) continue;
+        for (const relation of workItem.relations ?? []) {
+            const buildId = buildIdFromUrl(relation.url);
+            if (buildId === undefined) continue;
+            if (!idsByProject.has(project)) idsByProject.set(project, new Set());
+            idsByProject.get(project)?.add(buildId);
+        }
+    }
+
+    const builds = new Map<number, BuildSummary>();
+    for (const [project, ids] of idsByProject) {
+        try {
+            for (const build of await fetchBuildsById(client, project, [...ids])) {
+                builds.set(build.id, toBuildSummary(build));
+            }
+        } catch {
+            // Fall back to the plain "Build 123" links
+        }
+    }
+    return builds;
+}
+
+// Trims a work item's fields to an allow-list for structured output, keeping the fields every work item has
+function withOnlyFields(workItem: WorkItem, fields: string[], fieldNames: Map<string, string>): WorkItem {
+    const wanted = new Set(fields.map(name => name.trim().toLowerCase()));
+    const kept = Object.entries(workItem.fields).filter(([name]) =>
+        name === "System.Title" || name === "System.WorkItemType" || name === "System.State" ||
+        wanted.has(name.toLowerCase()) || wanted.has(fieldLabel(name, fieldNames).toLowerCase()));
+    return { ...workItem, fields: Object.fromEntries(kept) as WorkItem["fields"] };
+}
+
+  export function getWorkItemDetailsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
       token,
       name: "getWorkItemDetails",
+      annotations: { title: "Get Work Item Details", readOnlyHint: true },
       schema: {
         ids: z.union([z.number(), z.array(z.number())])
-          .describe("One or more work item IDs to fetch details for")
+          .describe("One or more work item IDs to fetch details for"),
+        fields: z.array(z.string()).optional()
+          .describe("Only show these fields, by display or reference name (e.g., Customer Impact, Microsoft.VSTS.Common.Priority). Default: all non-empty fields"),
+        include: z.array(z.enum(DETAIL_SECTIONS)).optional()
+          .describe("Only show these sections: description, acceptanceCriteria, discussion, relations (default: all). Plain fields are always shown"),
+        exclude: z.array(z.enum(DETAIL_SECTIONS)).optional()
+          .describe("Leave out these sections (e.g., ['discussion', 'relations']); excluded sections are not fetched"),
+        maxComments: z.number().int().min(1).optional()
+          .describe("Show at most this many comments per work item (default: all)"),
+        maxChars: z.number().int().min(1).optional()
+          .describe("Cut rich text and comments off after this many characters per work item (default: no limit)"),
+        organization: organizationSchema,
+        format: outputFormatSchema
+      },
+      outputSchema: {
+        workItems: z.array(workItemWithCommentsSchema.extend({
+          builds: z.array(buildSummarySchema),
+          // Comments on the work item, including those past maxComments; absent when the discussion is excluded
+          totalComments: z.number().optional(),
+          // Set when a later comments page failed, so the comments are partial
+          commentsError: z.string().optional()
+        })),
+        missingIds: z.array(z.number())
       },
-      handler: async ({ ids }: { ids: number | number[] }) => {
+      handler: async ({
+        ids,
+        fields,
+        include,
+        exclude,
+        maxComments,
+        maxChars,
+        organization,
+        format = "text"
+      }: {
+        ids: number | number[];
+        fields?: string[];
+        include?: DetailSection[];
+        exclude?: DetailSection[];
+        maxComments?: number;
+        maxChars?: number;
+        organization?: string;
+        format?: OutputFormat;
+      }) => {
         try {
-          const org = organization || process.env.ADO_ORGANIZATION;
-          if (!org) throw new Error("Organization name is required.");
-  
-          const idList = Array.isArray(ids) ? ids : [ids];
-          const baseUrl = `https://dev.azure.com/${org}`;
-          const url = `${baseUrl}/_apis/wit/workitems?ids=${idList.join(",")}&$expand=all&api-version=7.1-preview.3`;
-  
-          const response = await fetch(url, {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              "Content-Type": "application/json"
-            }
-          });
-  
-          if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`Failed to fetch work item details: ${error}`);
-          }
-  
-          const data = (await response.json()) as WorkItemsResponse;
-          if (!data.value || data.value.length === 0) {
-            return {
-              content: [{ type: "text" as const, text: "No work items found for the given IDs." }]
-            };
-          }
+          const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+          const idList = [...new Set(Array.isArray(ids) ? ids : [ids])];
+          const sections = DETAIL_SECTIONS.filter(section => (!include?.length || include.includes(section)) && !exclude?.includes(section));
+          const shows = (field: string) => !(field in SECTION_FIELDS) || sections.includes(SECTION_FIELDS[field]);
+          const withRelations = sections.includes("relations");
+          const workItems = await fetchWorkItemsInBatches(client, idList, withRelations ? "all" : "fields");
   
-          let responseText = `📌 Work Item Details (${data.count})\n`;
-          responseText += "=".repeat(50) + "\n\n";
+          const found = new Set(workItems.map(item => item.id));
+          const missing = idList.filter(id => !found.has(id));
   
-          for (const workItem of data.value) {
-            const fields = workItem.fields;
+          const details = await mapWithConcurrency(workItems, COMMENTS_CONCURRENCY, async workItem => ({
+            workItem,
+            discussion: sections.includes("discussion") ? await fetchWorkItemDiscussion(client, workItem.id, maxComments) : undefined
+          }));
   
-            responseText += `ID: ${workItem.id}\n`;
-            responseText += `Title: ${fields["System.Title"]}\n`;
-            responseText += `Type: ${fields["System.WorkItemType"]}\n`;
-            responseText += `State: ${fields["System.State"]}\n`;
-            responseText += `Assigned To: ${fields["System.AssignedTo"]?.displayName || "Unassigned"}\n`;
-            responseText += `Iteration: ${fields["System.IterationPath"] || "N/A"}\n`;
-            responseText += `Priority: ${fields["Microsoft.VSTS.Common.Priority"] || "N/A"}\n`;
-            responseText += `Severity: ${fields["Microsoft.VSTS.Common.Severity"] || "N/A"}\n`;
-            responseText += `Created: ${fields["System.CreatedDate"] || "N/A"}\n`;
-            responseText += `Changed: ${fields["System.ChangedDate"] || "N/A"}\n`;
-            responseText += `Tags: ${fields["System.Tags"] || "None"}\n\n`;
+          const builds = withRelations ? await fetchLinkedBuilds(client, workItems) : new Map<number, BuildSummary>();
+          const references = await fetchHtmlReferences(client, details.flatMap(d => [
+            ...Object.entries(d.workItem.fields)
+              .filter((entry): entry is [string, string] => typeof entry[1] === "string" && looksLikeHtml(entry[1]) && shows(entry[0]))
+              .map(([, value]) => value),
+            ...(d.discussion?.comments ?? []).map(c => c.text)
+          ]));
+          // Display names are cosmetic: without them fields are labelled from their reference names
+          const fieldNames = new Map((await fetchFieldDefinitions(client).catch(() => []))
+            .map(definition => [definition.referenceName, definition.name]));
+          const options: WorkItemDetailsOptions = { builds, references, fieldNames, fields, sections, maxChars };
+          const optionsFor = (d: typeof details[number]) => ({ ...options, totalComments: d.discussion?.totalCount, commentsError: d.discussion?.error });
+          const linkedBuilds = (workItem: WorkItem) => (workItem.relations ?? [])
+            .map(relation => builds.get(buildIdFromUrl(relation.url) ?? -1))
+            .filter((build): build is BuildSummary => build !== undefined);
+          // Excluded sections are left out of the structured output too
+          const shownFields = (workItem: WorkItem) => {
+            const selected = fields?.length ? withOnlyFields(workItem, fields, fieldNames) : workItem;
+            const kept = Object.entries(selected.fields).filter(([name]) => shows(name));
+            return { ...selected, fields: Object.fromEntries(kept) as WorkItem["fields"] };
+          };
   
-            if (fields["System.Description"]) {
-              responseText += `📝 Description:\n${parseWorkItemHtml(fields["System.Description"])}\n\n`;
-            }
+          const structured = {
+            workItems: details.map(d => ({
+              ...toWorkItemOutput(shownFields(d.workItem)),
+              comments: d.discussion?.comments ?? [],
+              builds: linkedBuilds(d.workItem),
+              totalComments: d.discussion?.totalCount,
+              commentsError: d.discussion?.error
+            })),
+            missingIds: missing
+          };
   
-            // ✅ Acceptance Criteria (if exists as custom field)
-            if ((fields as any)["Microsoft.VSTS.Common.AcceptanceCriteria"]) {
-              responseText += `✅ Acceptance Criteria:\n${parseWorkItemHtml((fields as any)["Microsoft.VSTS.Common.AcceptanceCriteria"])}\n\n`;
-            }
+          return toolResult(structured, format, {
+            text: () => {
+              if (workItems.length === 0) return "No work items found for the given IDs.";
   
-            // 💬 Discussion (comments endpoint)
-            const discussionUrl = `${baseUrl}/_apis/wit/workItems/${workItem.id}/comments?api-version=7.1-preview.3`;
-            const discussionResp = await fetch(discussionUrl, {
-              headers: {
-                Authorization: `Bearer ${token}`,
-                "Content-Type": "application/json"
+              let responseText = `📌 Work Item Details (${workItems.length})\n`;
+              responseText += "=".repeat(50) + "\n\n";
+              if (missing.length > 0) {
+                responseText += `⚠️ Not found or not accessible: ${missing.join(", ")}\n\n`;
               }
-            });
+              for (const d of details) {
+                responseText += formatWorkItemDetails(d.workItem, d.discussion?.comments ?? [], "text", optionsFor(d));
+              }
+              return responseText;
+            },
+            markdown: () => {
+              if (workItems.length === 0) return "_No work items found for the given IDs._";
   
-            if (discussionResp.ok) {
-              const discussionData = (await discussionResp.json()) as { comments: { createdBy: { displayName: string }; text: string }[] };
-              const comments = discussionData.comments || [];
-              if (comments.length > 0) {
-                responseText += `💬 Discussion:\n`;
-                comments.forEach((c: any, i: number) => {
-                  responseText += `   ${i + 1}. ${c.createdBy.displayName}: ${c.text?.replace(/<[^>]+>/g, "")}\n`;
-                });
-                responseText += "\n";
+              let responseText = `## Work Item Details (${workItems.length})\n\n`;
+              if (missing.length > 0) {
+                responseText += `> Not found or not accessible: ${missing.join(", ")}\n\n`;
+              }
+              for (const d of details) {
+                responseText += formatWorkItemDetails(d.workItem, d.discussion?.comments ?? [], "markdown", optionsFor(d));
               }
+              return responseText;
             }
-  
-            responseText += `🔗 URL: ${workItem.url.replace("_apis/wit/workItems", "_workitems/edit")}\n`;
-            responseText += "-".repeat(50) + "\n\n";
-          }
-  
-          return {
-            content: [{ type: "text" as const, text: responseText }]
-          };
+          });
   
         } catch (error: unknown) {
           const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
@@ -437,9 +986,246 @@ function findClosestMatch<T extends { name: string; id: string }>(list: T[], que
           };
         }
       }
-    };
+    });
   }
   
   
   
   
+
+
+// Fields that may be written through the create/update tools, keyed by the WorkItem.fields shape.
+// Typed as a Record so adding a field to WorkItem without deciding its writability fails to compile.
+const WORK_ITEM_FIELD_WRITABILITY: Record<WorkItemFieldName, boolean> = {
+    "System.Title": true,
+    "System.WorkItemType": true,
+    "System.State": true,
+    "System.AssignedTo": true,
+    "System.CreatedDate": false,
+    "System.ChangedDate": false,
+    "System.Description": true,
+    "System.Tags": true,
+    "Microsoft.VSTS.Common.Priority": true,
+    "Microsoft.VSTS.Common.Severity": true,
+    "Microsoft.VSTS.Common.AcceptanceCriteria": true,
+    "System.History": true,
+    "System.IterationPath": true,
+    "System.TeamProject": false,
+    "Microsoft.VSTS.Scheduling.RemainingWork": true
+};
+
+const workItemFieldValueSchema = z.union([z.string(), z.number(), z.null()]);
+
+/**
+ * Builds a JSON Patch document from a field map.
+ * - Rejects field names not declared on WorkItem.fields or declared read-only
+ * - `null` values remove the field, everything else is written with "add"
+ *   (which ADO treats as upsert)
+ */
+function buildWorkItemPatch(fields: Record<string, string | number | null>): JsonPatchOperation[] {
+    const unknownFields = Object.keys(fields).filter(name => !(name in WORK_ITEM_FIELD_WRITABILITY));
+    if (unknownFields.length > 0) {
+        const allowed = Object.keys(WORK_ITEM_FIELD_WRITABILITY)
+            .filter(name => WORK_ITEM_FIELD_WRITABILITY[name as WorkItemFieldName]);
+        throw new Error(`Unknown field(s): ${unknownFields.join(", ")}. Allowed fields: ${allowed.join(", ")}`);
+    }
+
+    const readOnlyFields = Object.keys(fields).filter(name => !WORK_ITEM_FIELD_WRITABILITY[name as WorkItemFieldName]);
+    if (readOnlyFields.length > 0) {
+        throw new Error(`Field(s) cannot be modified: ${readOnlyFields.join(", ")}`);
+    }
+
+    return Object.entries(fields).map(([name, value]): JsonPatchOperation =>
+        value === null
+            ? { op: "remove", path: `/fields/${name}` }
+            : { op: "add", path: `/fields/${name}`, value }
+    );
+}
+
+/**
+ * Resolves user and iteration path values in a field map (fuzzy names, partial paths) to the exact
+ * values ADO stores; null (clear) values are left alone.
+ */
+async function resolveWorkItemFieldValues(
+    client: AdoClient,
+    fields: Record<string, string | number | null>,
+    projectId?: string
+): Promise<Record<string, string | number | null>> {
+    const resolved = { ...fields };
+    const assignedTo = fields["System.AssignedTo"];
+    if (typeof assignedTo === "string" && assignedTo.trim()) {
+        resolved["System.AssignedTo"] = await resolveUserValue(client, assignedTo);
+    }
+    const iterationPath = fields["System.IterationPath"];
+    if (typeof iterationPath === "string" && iterationPath.trim()) {
+        const iterationProject = await resolvePathProject(client, iterationPath, projectId);
+        resolved["System.IterationPath"] = await resolveClassificationPath(client, iterationProject, "iterations", iterationPath);
+    }
+    return resolved;
+}
+
+// Rich-text fields ADO stores as HTML
+const RICH_TEXT_FIELDS = new Set(["System.Description", "Microsoft.VSTS.Common.AcceptanceCriteria", "System.History"]);
+
+/**
+ * Converts Markdown (or plain text) values of rich-text fields to HTML; values that are already HTML are kept.
+ */
+function richTextFieldsToHtml(client: AdoClient, fields: Record<string, string | number | null>): Record<string, string | number | null> {
+    return Object.fromEntries(Object.entries(fields).map(([name, value]) =>
+        RICH_TEXT_FIELDS.has(name) && typeof value === "string" && !looksLikeHtml(value)
+            ? [name, markdownToHtml(value, { workItemUrl: workItemUrlFor(client) })]
+            : [name, value]
+    ));
+}
+
+export function sendWorkItemPatch(client: AdoClient, path: string, method: "POST" | "PATCH", patch: JsonPatchOperation[]): Promise<WorkItem> {
+    return client.request<WorkItem>(path, { method, body: patch, contentType: "application/json-patch+json" });
+}
+
+// Output shared by the write tools: the saved work item, rendered like getWorkItemDetails
+export const savedWorkItemOutputSchema = {
+    workItem: workItemWithCommentsSchema
+};
+
+export function savedWorkItemResult(heading: string, workItem: WorkItem, comments: WorkItemComment[], format: OutputFormat) {
+    return toolResult({ workItem: { ...toWorkItemOutput(workItem), comments } }, format, {
+        text: () => `${heading}\n${"=".repeat(50)}\n\n${formatWorkItemDetails(workItem, comments)}`,
+        markdown: () => `## ${heading}\n\n${formatWorkItemDetails(workItem, comments, "markdown")}`
+    });
+}
+
+export function createWorkItemTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "createWorkItem",
+        annotations: { title: "Create Work Item", readOnlyHint: false, destructiveHint: false },
+        schema: {
+            project: z.string().describe("The name or ID of the Azure DevOps project to create the work item in (fuzzy match supported)"),
+            type: z.string().describe("The work item type (e.g., 'Bug', 'Task', 'User Story')"),
+            title: z.string().describe("Title of the new work item"),
+            fields: z.record(z.string(), workItemFieldValueSchema).optional()
+                .describe("Additional field values keyed by reference name (e.g., { \"System.State\": \"Active\", \"Microsoft.VSTS.Common.Priority\": 2 }); description and acceptance criteria take Markdown"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: savedWorkItemOutputSchema,
+        handler: async ({
+            project,
+            type,
+            title,
+            fields = {},
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            type: string;
+            title: string;
+            fields?: Record<string, string | number | null>;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const values = await resolveWorkItemFieldValues(client, { ...fields, "System.Title": title }, projectId);
+                const patch = buildWorkItemPatch(richTextFieldsToHtml(client, values));
+                const url = `${projectId}/_apis/wit/workitems/$${encodeURIComponent(type)}?api-version=7.1-preview.3`;
+
+                const workItem = await sendWorkItemPatch(client, url, "POST", patch);
+
+                return savedWorkItemResult(`✅ Created work item ${workItem.id}`, workItem, [], format);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error creating work item: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function updateWorkItemTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "updateWorkItem",
+        annotations: { title: "Update Work Item", readOnlyHint: false, destructiveHint: true },
+        schema: {
+            id: z.number().describe("The ID of the work item to update"),
+            fields: z.record(z.string(), workItemFieldValueSchema)
+                .describe("Field values to set keyed by reference name; use null to clear a field (e.g., { \"System.State\": \"Resolved\", \"System.AssignedTo\": \"jane@contoso.com\" }); description, acceptance criteria and history take Markdown"),
+            expectedRevision: z.number().optional()
+                .describe("Only apply the update if the work item is still at this revision"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: savedWorkItemOutputSchema,
+        handler: async ({
+            id,
+            fields,
+            expectedRevision,
+            organization,
+            format = "text"
+        }: {
+            id: number;
+            fields: Record<string, string | number | null>;
+            expectedRevision?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const patch = buildWorkItemPatch(richTextFieldsToHtml(client, await resolveWorkItemFieldValues(client, fields)));
+                if (patch.length === 0) throw new Error("At least one field must be provided.");
+                if (expectedRevision !== undefined) {
+                    patch.unshift({ op: "test", path: "/rev", value: expectedRevision });
+                }
+
+                const url = `_apis/wit/workitems/${id}?api-version=7.1-preview.3`;
+                const workItem = await sendWorkItemPatch(client, url, "PATCH", patch);
+                const comments = await fetchWorkItemComments(client, workItem.id);
+
+                return savedWorkItemResult(`✏️ Updated work item ${workItem.id}`, workItem, comments, format);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error updating work item: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function addWorkItemCommentTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "addWorkItemComment",
+        annotations: { title: "Add Work Item Comment", readOnlyHint: false, destructiveHint: false },
+        schema: {
+            id: z.number().describe("The ID of the work item to comment on"),
+            text: z.string().min(1).describe("The comment text in Markdown (HTML is sent as is); #123 links a work item"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: savedWorkItemOutputSchema,
+        handler: async ({ id, text, organization, format = "text" }: { id: number; text: string; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const html = looksLikeHtml(text) ? text : markdownToHtml(text, { workItemUrl: workItemUrlFor(client) });
+                await client.post(`_apis/wit/workItems/${id}/comments?api-version=7.1-preview.3`, { text: html });
+
+                const workItem = await client.get<WorkItem>(`_apis/wit/workitems/${id}?$expand=all&api-version=7.1-preview.3`);
+                const comments = await fetchWorkItemComments(client, id);
+
+                return savedWorkItemResult(`💬 Added comment to work item ${id}`, workItem, comments, format);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error adding comment: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
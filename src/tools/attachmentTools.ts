@@ -0,0 +1,325 @@
+import { z } from "zod";
+import type { JsonPatchOperation, WorkItemRelation } from "../interface/adoInterfaces";
+import { type AdoClient, type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { AdoResponseTooLargeError } from "../client/adoErrors";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { resolveByName } from "../utils/nameMatching";
+import {
+    type AttachmentLimits,
+    DEFAULT_ATTACHMENT_LIMITS,
+    attachmentIdFromUrl,
+    base64ToBytes,
+    bytesToBase64,
+    formatBytes,
+    isAttachmentRelation,
+    isTextContent,
+    mimeTypeForFileName
+} from "../utils/attachments";
+import {
+    escapeMarkdownCell,
+    fetchWorkItemComments,
+    fetchWorkItemsInBatches,
+    savedWorkItemOutputSchema,
+    savedWorkItemResult,
+    sendWorkItemPatch
+} from "./adoTools";
+import { fetchAllUpdates } from "./historyTools";
+import { defineTool } from "./toolDefinition";
+
+const attachmentSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    size: z.number().optional(),
+    comment: z.string().optional(),
+    uploadedBy: z.string().optional(),
+    uploadedDate: z.string().optional(),
+    url: z.string()
+});
+
+type Attachment = z.infer<typeof attachmentSchema>;
+
+const contentKindSchema = z.enum(["auto", "text", "image", "resource"]);
+type ContentKind = z.infer<typeof contentKindSchema>;
+
+function toAttachment(relation: WorkItemRelation): Attachment {
+    return {
+        id: attachmentIdFromUrl(relation.url) ?? relation.url,
+        name: relation.attributes?.name ?? "attachment",
+        size: relation.attributes?.resourceSize,
+        comment: relation.attributes?.comment || undefined,
+        uploadedDate: relation.attributes?.authorizedDate,
+        url: relation.url
+    };
+}
+
+async function fetchAttachments(client: AdoClient, workItemId: number): Promise<Attachment[]> {
+    const [workItem] = await fetchWorkItemsInBatches(client, [workItemId], "relations");
+    if (!workItem) throw new Error(`Work item ${workItemId} not found or not accessible.`);
+    return (workItem.relations ?? []).filter(isAttachmentRelation).map(toAttachment);
+}
+
+/**
+ * Fills in who attached each file from the revision that added it; the relation itself
+ * only carries the date. Best effort: the list is returned as-is if the history can't be read.
+ */
+async function addUploaders(client: AdoClient, workItemId: number, attachments: Attachment[]): Promise<Attachment[]> {
+    if (attachments.length === 0) return attachments;
+    const uploaders = new Map<string, { uploadedBy: string; uploadedDate: string }>();
+    try {
+        for (const update of await fetchAllUpdates(client, workItemId)) {
+            for (const relation of update.relations?.added ?? []) {
+                if (isAttachmentRelation(relation)) {
+                    uploaders.set(relation.url.toLowerCase(), { uploadedBy: update.revisedBy.displayName, uploadedDate: update.revisedDate });
+                }
+            }
+        }
+    } catch {
+        return attachments;
+    }
+    return attachments.map(attachment => ({ ...attachment, ...uploaders.get(attachment.url.toLowerCase()) }));
+}
+
+function describeAttachment(attachment: Attachment): string {
+    const details = [
+        attachment.size !== undefined ? formatBytes(attachment.size) : undefined,
+        attachment.uploadedBy ? `by ${attachment.uploadedBy}` : undefined,
+        attachment.uploadedDate ? new Date(attachment.uploadedDate).toLocaleString() : undefined
+    ].filter(Boolean);
+    return details.length > 0 ? `${attachment.name} (${details.join(", ")})` : attachment.name;
+}
+
+export function listWorkItemAttachmentsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listWorkItemAttachments",
+        annotations: { title: "List Work Item Attachments", readOnlyHint: true },
+        schema: {
+            id: z.number().describe("The ID of the work item"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            workItemId: z.number(),
+            count: z.number(),
+            attachments: z.array(attachmentSchema)
+        },
+        handler: async ({ id, organization, format = "text" }: { id: number; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const attachments = await addUploaders(client, id, await fetchAttachments(client, id));
+
+                return toolResult({ workItemId: id, count: attachments.length, attachments }, format, {
+                    text: () => {
+                        if (attachments.length === 0) return `Work item ${id} has no attachments.`;
+
+                        let responseText = `📎 Attachments of work item ${id} (${attachments.length})\n${"=".repeat(50)}\n\n`;
+                        attachments.forEach((attachment, index) => {
+                            responseText += `${index + 1}. ${describeAttachment(attachment)}\n`;
+                            responseText += `   ID: ${attachment.id}\n`;
+                            if (attachment.comment) responseText += `   Comment: ${attachment.comment}\n`;
+                            responseText += "\n";
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (attachments.length === 0) return `_Work item ${id} has no attachments._`;
+
+                        let responseText = `## Attachments of #${id} (${attachments.length})\n\n| Name | Size | Uploaded By | Uploaded | Comment |\n|---|---|---|---|---|\n`;
+                        for (const attachment of attachments) {
+                            responseText += `| [${escapeMarkdownCell(attachment.name)}](${attachment.url}) | ${attachment.size !== undefined ? formatBytes(attachment.size) : ""} | ${escapeMarkdownCell(attachment.uploadedBy ?? "")} | ${attachment.uploadedDate ? new Date(attachment.uploadedDate).toLocaleString() : ""} | ${escapeMarkdownCell(attachment.comment ?? "")} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error listing attachments: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+/**
+ * Picks how to return downloaded content. `auto` returns images as image content, text as text,
+ * and anything else as an embedded resource; an explicit kind that doesn't fit the file fails.
+ */
+function contentKindFor(requested: ContentKind, mimeType: string, bytes: Uint8Array): Exclude<ContentKind, "auto"> {
+    const isImage = mimeType.startsWith("image/") && mimeType !== "image/svg+xml";
+    const isText = isTextContent(mimeType, bytes) || mimeType === "image/svg+xml";
+    if (requested === "image" && !isImage) throw new Error(`The attachment is not an image (${mimeType}).`);
+    if (requested === "text" && !isText) throw new Error(`The attachment is not text (${mimeType}). Use as: "resource" instead.`);
+    if (requested !== "auto") return requested;
+    return isImage ? "image" : isText ? "text" : "resource";
+}
+
+export function getWorkItemAttachmentTool(
+    token: string,
+    organizations: OrganizationSettings,
+    clientOptions: AdoClientOptions = {},
+    limits: AttachmentLimits = DEFAULT_ATTACHMENT_LIMITS
+) {
+    return defineTool({
+        token,
+        name: "getWorkItemAttachment",
+        annotations: { title: "Get Work Item Attachment", readOnlyHint: true },
+        schema: {
+            id: z.number().describe("The ID of the work item the file is attached to"),
+            attachment: z.string().describe("Attachment file name or ID (see listWorkItemAttachments)"),
+            as: contentKindSchema.optional().default("auto")
+                .describe(`How to return the content: 'text', 'image', 'resource' (base64 blob) or 'auto' (default, by file type). Files over ${formatBytes(limits.maxReadBytes)} are not returned`),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            workItemId: z.number(),
+            attachment: attachmentSchema,
+            mimeType: z.string(),
+            returnedAs: z.enum(["text", "image", "resource"])
+        },
+        handler: async ({
+            id,
+            attachment: query,
+            as = "auto",
+            organization,
+            format = "text"
+        }: {
+            id: number;
+            attachment: string;
+            as?: ContentKind;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const attachment = resolveByName(await fetchAttachments(client, id), query, {
+                    kind: "attachment",
+                    names: item => [item.name],
+                    id: item => item.id
+                });
+
+                const tooLarge = (size?: number) => new Error(
+                    `${attachment.name} is ${size !== undefined ? `${formatBytes(size)}, ` : ""}over the ${formatBytes(limits.maxReadBytes)} limit. Download it from ${attachment.url}`
+                );
+                if (attachment.size !== undefined && attachment.size > limits.maxReadBytes) throw tooLarge(attachment.size);
+
+                // The size attribute is missing on some older attachments, so the client enforces the limit while reading
+                const data = await client.get<ArrayBuffer>(
+                    `${attachment.url}?fileName=${encodeURIComponent(attachment.name)}&download=true&api-version=7.1`,
+                    { responseType: "arrayBuffer", maxBytes: limits.maxReadBytes }
+                ).catch((error: unknown) => {
+                    throw error instanceof AdoResponseTooLargeError ? tooLarge(error.size) : error;
+                });
+
+                const bytes = new Uint8Array(data);
+                const mimeType = mimeTypeForFileName(attachment.name);
+                const returnedAs = contentKindFor(as, mimeType, bytes);
+
+                const summary = toolResult({ workItemId: id, attachment, mimeType, returnedAs }, format, {
+                    text: () => `📎 ${describeAttachment(attachment)} from work item ${id}, returned as ${returnedAs} (${mimeType})`,
+                    markdown: () => `**[${attachment.name}](${attachment.url})** from #${id} (${formatBytes(bytes.length)}, \`${mimeType}\`)`
+                });
+
+                const content = returnedAs === "text"
+                    ? { type: "text" as const, text: new TextDecoder().decode(bytes) }
+                    : returnedAs === "image"
+                        ? { type: "image" as const, data: bytesToBase64(bytes), mimeType }
+                        : { type: "resource" as const, resource: { uri: attachment.url, mimeType, blob: bytesToBase64(bytes) } };
+
+                return { ...summary, content: [...summary.content, content] };
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching attachment: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function uploadWorkItemAttachmentTool(
+    token: string,
+    organizations: OrganizationSettings,
+    clientOptions: AdoClientOptions = {},
+    limits: AttachmentLimits = DEFAULT_ATTACHMENT_LIMITS
+) {
+    return defineTool({
+        token,
+        name: "uploadWorkItemAttachment",
+        annotations: { title: "Upload Work Item Attachment", readOnlyHint: false, destructiveHint: false },
+        schema: {
+            id: z.number().describe("The ID of the work item to attach the file to"),
+            fileName: z.string().describe("File name shown on the work item, including the extension (e.g., build.log, screenshot.png)"),
+            content: z.string().describe(`File content, as plain text or base64 (see encoding). At most ${formatBytes(limits.maxUploadBytes)}`),
+            encoding: z.enum(["text", "base64"]).optional().default("text")
+                .describe("How content is encoded: 'text' (default, stored as UTF-8) or 'base64' for binary files such as images"),
+            comment: z.string().optional().describe("Optional comment stored on the attachment link"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: savedWorkItemOutputSchema,
+        handler: async ({
+            id,
+            fileName,
+            content,
+            encoding = "text",
+            comment,
+            organization,
+            format = "text"
+        }: {
+            id: number;
+            fileName: string;
+            content: string;
+            encoding?: "text" | "base64";
+            comment?: string;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                if (!fileName.trim()) throw new Error("A file name is required.");
+
+                let bytes: Uint8Array;
+                try {
+                    bytes = encoding === "base64" ? base64ToBytes(content) : new TextEncoder().encode(content);
+                } catch {
+                    throw new Error("Content is not valid base64.");
+                }
+                if (bytes.length > limits.maxUploadBytes) {
+                    throw new Error(`${fileName} is ${formatBytes(bytes.length)}, over the ${formatBytes(limits.maxUploadBytes)} upload limit.`);
+                }
+
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const uploaded = await client.post<{ id: string; url: string }>(
+                    `_apis/wit/attachments?fileName=${encodeURIComponent(fileName.trim())}&api-version=7.1`,
+                    bytes,
+                    { contentType: "application/octet-stream" }
+                );
+
+                const patch: JsonPatchOperation[] = [{
+                    op: "add",
+                    path: "/relations/-",
+                    value: {
+                        rel: "AttachedFile",
+                        url: uploaded.url,
+                        ...(comment ? { attributes: { comment } } : {})
+                    }
+                }];
+
+                const workItem = await sendWorkItemPatch(client, `_apis/wit/workitems/${id}?$expand=relations&api-version=7.1-preview.3`, "PATCH", patch);
+                const comments = await fetchWorkItemComments(client, id);
+
+                return savedWorkItemResult(`📎 Attached ${fileName.trim()} (${formatBytes(bytes.length)}) to work item ${id}`, workItem, comments, format);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error uploading attachment: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
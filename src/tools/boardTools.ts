@@ -0,0 +1,564 @@
+import { z } from "zod";
+import type {
+    AdoListResponse,
+    BacklogLevel,
+    BacklogLevelWorkItems,
+    Board,
+    BoardColumn,
+    BoardReference,
+    JsonPatchOperation,
+    WorkItem
+} from "../interface/adoInterfaces";
+import { toWorkItemOutput, workItemSchema } from "../interface/adoSchemas";
+import { type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { resolveByName } from "../utils/nameMatching";
+import {
+    escapeMarkdownCell,
+    fetchWorkItemsInBatches,
+    resolveTeamContext,
+    sendWorkItemPatch,
+    type TeamContext,
+    teamScopeSchema,
+    workItemWebUrl
+} from "./adoTools";
+import { defineTool } from "./toolDefinition";
+
+// ADO gives the default swimlane no name
+const DEFAULT_LANE = "Default Lane";
+
+// A column filter needs each backlog item's fields; backlog items past this many are not checked
+const MAX_COLUMN_SCAN = 2000;
+
+const boardSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    columns: z.array(z.object({
+        name: z.string(),
+        type: z.string(),
+        wipLimit: z.number().optional(),
+        split: z.boolean(),
+        // The state each work item type has in the column
+        states: z.record(z.string(), z.string())
+    })),
+    swimlanes: z.array(z.string())
+});
+
+const boardCardSchema = z.object({
+    id: z.number(),
+    title: z.string(),
+    workItemType: z.string(),
+    state: z.string(),
+    assignedTo: z.string().optional(),
+    column: z.string().optional(),
+    lane: z.string(),
+    // Set in split columns: false while Doing, true once Done
+    done: z.boolean().optional(),
+    url: z.string()
+});
+
+type BoardCard = z.infer<typeof boardCardSchema>;
+
+const backlogLevelSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string(),
+    workItemTypes: z.array(z.string())
+});
+
+async function listTeamBoards(ctx: TeamContext): Promise<BoardReference[]> {
+    const data = await ctx.client.get<AdoListResponse<BoardReference>>(`${ctx.teamPath}_apis/work/boards?api-version=7.1-preview.1`);
+    return data.value || [];
+}
+
+async function fetchBoard(ctx: TeamContext, board: BoardReference): Promise<Board> {
+    return ctx.client.get<Board>(`${ctx.teamPath}_apis/work/boards/${board.id}?api-version=7.1-preview.1`);
+}
+
+// Resolves a board by name (Stories, Features, Epics, ...; fuzzy) or ID and fetches its columns and lanes
+async function resolveBoard(ctx: TeamContext, board: string): Promise<Board> {
+    const boards = await listTeamBoards(ctx);
+    return fetchBoard(ctx, resolveByName(boards, board, { kind: "board", names: b => [b.name, b.id] }));
+}
+
+// The board a work item type is shown on: the one with a column mapping for it
+async function findBoardForType(ctx: TeamContext, workItemType: string): Promise<Board> {
+    const boards = await Promise.all((await listTeamBoards(ctx)).map(board => fetchBoard(ctx, board)));
+    const board = boards.find(b => b.columns.some(column => workItemType in column.stateMappings));
+    if (!board) throw new Error(`None of the team's boards shows ${workItemType} work items.`);
+    return board;
+}
+
+async function listBacklogLevels(ctx: TeamContext): Promise<BacklogLevel[]> {
+    const data = await ctx.client.get<AdoListResponse<BacklogLevel>>(`${ctx.teamPath}_apis/work/backlogs?api-version=7.1-preview.1`);
+    // Top of the hierarchy first: Epics, Features, Stories, Tasks
+    return (data.value || []).sort((a, b) => b.rank - a.rank);
+}
+
+/**
+ * Resolves a backlog level by name (fuzzy) or ID, e.g. "Features" or "Microsoft.FeatureCategory";
+ * no argument means the requirement level (Stories, Backlog items, ...).
+ */
+function resolveBacklogLevel(levels: BacklogLevel[], level?: string): BacklogLevel {
+    if (!level) {
+        const requirements = levels.find(l => l.type === "requirement");
+        if (!requirements) throw new Error("The team has no requirement backlog.");
+        return requirements;
+    }
+    return resolveByName(levels, level, { kind: "backlog level", names: l => [l.name, l.id] });
+}
+
+// The backlog level a board shows: boards are named after their level
+function backlogLevelOfBoard(levels: BacklogLevel[], board: Board): BacklogLevel {
+    const level = levels.find(l => l.name.toLowerCase() === board.name.toLowerCase())
+        ?? levels.find(l => l.workItemTypes.some(type => board.columns.some(column => type.name in column.stateMappings)));
+    if (!level) throw new Error(`No backlog level matches the ${board.name} board.`);
+    return level;
+}
+
+// IDs of a backlog level's work items, in backlog priority order
+async function fetchBacklogItemIds(ctx: TeamContext, level: BacklogLevel): Promise<number[]> {
+    const data = await ctx.client.get<BacklogLevelWorkItems>(
+        `${ctx.teamPath}_apis/work/backlogs/${encodeURIComponent(level.id)}/workItems?api-version=7.1-preview.1`
+    );
+    return [...new Set((data.workItems || []).map(link => link.target.id))];
+}
+
+function toBoardOutput(board: Board) {
+    return {
+        id: board.id,
+        name: board.name,
+        columns: board.columns.map(column => ({
+            name: column.name,
+            type: column.columnType,
+            wipLimit: column.itemLimit > 0 ? column.itemLimit : undefined,
+            split: column.isSplit === true,
+            states: column.stateMappings
+        })),
+        swimlanes: board.rows.map(row => row.name || DEFAULT_LANE)
+    };
+}
+
+/**
+ * Where a work item sits on a board. The column, lane and Doing/Done fields are specific to the
+ * team's board; cards never moved on it show in the first column mapped to their state.
+ */
+function toBoardCard(workItem: WorkItem, board: Board): BoardCard {
+    const fields = workItem.fields as Record<string, unknown>;
+    const workItemType = workItem.fields["System.WorkItemType"];
+    const state = workItem.fields["System.State"];
+    const column = (fields[board.fields.columnField.referenceName] as string | undefined)
+        || board.columns.find(c => c.stateMappings[workItemType] === state)?.name;
+    const split = board.columns.find(c => c.name === column)?.isSplit === true;
+    return {
+        id: workItem.id,
+        title: workItem.fields["System.Title"],
+        workItemType,
+        state,
+        assignedTo: workItem.fields["System.AssignedTo"]?.displayName,
+        column,
+        lane: (fields[board.fields.rowField.referenceName] as string | undefined) || DEFAULT_LANE,
+        done: split ? fields[board.fields.doneField.referenceName] === true : undefined,
+        url: workItemWebUrl(workItem)
+    };
+}
+
+// "Active (Doing)" / "Closed"
+function describeColumn(card: BoardCard): string {
+    const column = card.column ?? "not on the board";
+    return card.done === undefined ? column : `${column} (${card.done ? "Done" : "Doing"})`;
+}
+
+function describeColumnHeading(column: BoardColumn, cards: number): string {
+    return column.itemLimit > 0 ? `${column.name} (${cards}/${column.itemLimit})` : `${column.name} (${cards})`;
+}
+
+export function listBoardsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listBoards",
+        annotations: { title: "List Boards", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            boards: z.array(boardSchema)
+        },
+        handler: async ({ project, team, organization, format = "text" }: { project: string; team: string; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const boards = await Promise.all((await listTeamBoards(ctx)).map(board => fetchBoard(ctx, board)));
+                const structured = { boards: boards.map(toBoardOutput) };
+
+                return toolResult(structured, format, {
+                    text: () => {
+                        if (boards.length === 0) return "No boards found for this team.";
+
+                        let responseText = `🗂️ Boards (${boards.length})\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        for (const board of structured.boards) {
+                            responseText += `${board.name}\n`;
+                            responseText += `   Columns: ${board.columns.map(column =>
+                                `${column.name}${column.wipLimit ? ` [WIP ${column.wipLimit}]` : ""}${column.split ? " [split]" : ""}`).join(" → ")}\n`;
+                            responseText += `   Swimlanes: ${board.swimlanes.join(", ")}\n`;
+                            responseText += `   ID: ${board.id}\n\n`;
+                        }
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (boards.length === 0) return "_No boards found for this team._";
+
+                        let responseText = `## Boards (${boards.length})\n\n`;
+                        for (const board of structured.boards) {
+                            responseText += `### ${board.name}\n\n| Column | Type | WIP Limit | Split | States |\n|---|---|---|---|---|\n`;
+                            for (const column of board.columns) {
+                                const states = Object.entries(column.states).map(([type, state]) => `${type}: ${state}`).join(", ");
+                                responseText += `| ${column.name} | ${column.type} | ${column.wipLimit ?? ""} | ${column.split ? "yes" : ""} | ${escapeMarkdownCell(states)} |\n`;
+                            }
+                            responseText += `\n**Swimlanes:** ${board.swimlanes.join(", ")}\n\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching boards: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function listBoardItemsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listBoardItems",
+        annotations: { title: "List Board Items", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            board: z.string().describe("The board: its backlog level name (e.g., Stories, Features, Epics) or ID"),
+            column: z.string().optional().describe("Only cards in this column (fuzzy match supported)"),
+            top: z.number().int().min(1).max(1000).optional().default(100)
+                .describe("Number of cards to return, in backlog order (default: 100, max: 1000)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            board: z.object({ id: z.string(), name: z.string() }),
+            total: z.number(),
+            // Set when a column filter only checked the first backlog items (see MAX_COLUMN_SCAN)
+            scanned: z.number().optional(),
+            cards: z.array(boardCardSchema)
+        },
+        handler: async ({
+            project,
+            team,
+            board,
+            column,
+            top = 100,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            team: string;
+            board: string;
+            column?: string;
+            top?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const [teamBoard, levels] = await Promise.all([resolveBoard(ctx, board), listBacklogLevels(ctx)]);
+                const onlyColumn = column ? resolveByName(teamBoard.columns, column, { kind: "column", names: c => [c.name] }) : undefined;
+
+                // The backlog holds the board's cards in priority order
+                const ids = await fetchBacklogItemIds(ctx, backlogLevelOfBoard(levels, teamBoard));
+                const scanIds = onlyColumn ? ids.slice(0, MAX_COLUMN_SCAN) : ids.slice(0, top);
+                const scanned = onlyColumn && scanIds.length < ids.length ? scanIds.length : undefined;
+                const matching = (await fetchWorkItemsInBatches(client, scanIds, "none"))
+                    .map(workItem => toBoardCard(workItem, teamBoard))
+                    .filter(card => !onlyColumn || card.column === onlyColumn.name);
+                const total = onlyColumn ? matching.length : ids.length;
+                const cards = matching.slice(0, top);
+                const lanes = teamBoard.rows.length > 1;
+                const scanNotice = scanned !== undefined && onlyColumn
+                    ? `Only the first ${scanned} of ${ids.length} backlog items were checked for the ${onlyColumn.name} column.`
+                    : undefined;
+
+                const structured = { board: { id: teamBoard.id, name: teamBoard.name }, total, scanned, cards };
+                const columns = teamBoard.columns
+                    .map(c => ({ column: c, cards: cards.filter(card => card.column === c.name) }))
+                    .filter(group => group.cards.length > 0 || !onlyColumn);
+                const cardDetails = (card: BoardCard) => [
+                    card.done !== undefined ? (card.done ? "Done" : "Doing") : undefined,
+                    card.assignedTo ?? "Unassigned",
+                    lanes ? card.lane : undefined
+                ].filter(Boolean).join(", ");
+
+                return toolResult(structured, format, {
+                    text: () => {
+                        if (cards.length === 0) return `No cards found on the ${teamBoard.name} board.${scanNotice ? ` ${scanNotice}` : ""}`;
+
+                        let responseText = `🗂️ ${teamBoard.name} Board (${cards.length}${total > cards.length ? ` of ${total}` : ""} cards)\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        for (const group of columns) {
+                            responseText += `${describeColumnHeading(group.column, group.cards.length)}\n`;
+                            for (const card of group.cards) {
+                                responseText += `   - [${card.workItemType}] ${card.title} (#${card.id}, ${cardDetails(card)})\n`;
+                            }
+                            responseText += "\n";
+                        }
+                        if (total > cards.length) {
+                            responseText += `Showing the first ${cards.length} cards in backlog order. Increase top to see more.\n`;
+                        }
+                        if (scanNotice) responseText += `${scanNotice}\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (cards.length === 0) return `_No cards found on the ${teamBoard.name} board._${scanNotice ? ` _${scanNotice}_` : ""}`;
+
+                        let responseText = `## ${teamBoard.name} Board\n\n`;
+                        for (const group of columns) {
+                            responseText += `### ${describeColumnHeading(group.column, group.cards.length)}\n\n`;
+                            for (const card of group.cards) {
+                                responseText += `- [${card.workItemType}] [**${card.title}**](${card.url}) (#${card.id}, ${cardDetails(card)})\n`;
+                            }
+                            responseText += "\n";
+                        }
+                        if (total > cards.length) {
+                            responseText += `_Showing the first ${cards.length} of ${total} cards in backlog order. Increase top to see more._\n`;
+                        }
+                        if (scanNotice) responseText += `_${scanNotice}_\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching board items: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function moveBoardItemTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "moveBoardItem",
+        annotations: { title: "Move Board Item", readOnlyHint: false, destructiveHint: true },
+        schema: {
+            ...teamScopeSchema,
+            id: z.number().describe("The ID of the work item to move"),
+            column: z.string().optional().describe("Column to move the card to (fuzzy match supported); the work item's state follows the column"),
+            lane: z.string().optional().describe(`Swimlane to move the card to (fuzzy match supported; '${DEFAULT_LANE}' for the unnamed lane)`),
+            done: z.boolean().optional().describe("In a split column, put the card in Done (true) or Doing (false, default)"),
+            board: z.string().optional().describe("The board (e.g., Stories, Features). Default: the board showing the work item's type"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            board: z.object({ id: z.string(), name: z.string() }),
+            card: boardCardSchema
+        },
+        handler: async ({
+            project,
+            team,
+            id,
+            column,
+            lane,
+            done,
+            board,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            team: string;
+            id: number;
+            column?: string;
+            lane?: string;
+            done?: boolean;
+            board?: string;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                if (column === undefined && lane === undefined && done === undefined) {
+                    throw new Error("Give a column, lane or done to move the card to.");
+                }
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const [workItem] = await fetchWorkItemsInBatches(client, [id], "none");
+                if (!workItem) throw new Error(`Work item ${id} does not exist or is not accessible.`);
+
+                const workItemType = workItem.fields["System.WorkItemType"];
+                const teamBoard = board ? await resolveBoard(ctx, board) : await findBoardForType(ctx, workItemType);
+                const current = toBoardCard(workItem, teamBoard);
+                const patch: JsonPatchOperation[] = [];
+
+                if (column !== undefined || done !== undefined) {
+                    const target = column
+                        ? resolveByName(teamBoard.columns, column, { kind: "column", names: c => [c.name] })
+                        : teamBoard.columns.find(c => c.name === current.column);
+                    const state = target?.stateMappings[workItemType];
+                    if (!target || !state) throw new Error(`${workItemType} work items are not on the ${teamBoard.name} board.`);
+                    if (done !== undefined && !target.isSplit) throw new Error(`Column "${target.name}" is not split into Doing and Done.`);
+
+                    patch.push({ op: "add", path: `/fields/${teamBoard.fields.columnField.referenceName}`, value: target.name });
+                    if (state !== workItem.fields["System.State"]) {
+                        patch.push({ op: "add", path: "/fields/System.State", value: state });
+                    }
+                    if (target.isSplit) {
+                        // A card moved to another column starts in Doing
+                        const stayDone = target.name === current.column && column === undefined && current.done === true;
+                        patch.push({ op: "add", path: `/fields/${teamBoard.fields.doneField.referenceName}`, value: done ?? stayDone });
+                    }
+                }
+                if (lane !== undefined) {
+                    const row = resolveByName(teamBoard.rows, lane, { kind: "swimlane", names: r => [r.name || DEFAULT_LANE] });
+                    patch.push({ op: "add", path: `/fields/${teamBoard.fields.rowField.referenceName}`, value: row.name ?? "" });
+                }
+
+                const saved = await sendWorkItemPatch(client, `_apis/wit/workitems/${id}?api-version=7.1-preview.3`, "PATCH", patch);
+                const card = toBoardCard(saved, teamBoard);
+                const structured = { board: { id: teamBoard.id, name: teamBoard.name }, card };
+
+                return toolResult(structured, format, {
+                    text: () => {
+                        let responseText = `🗂️ Moved work item ${card.id} on the ${teamBoard.name} board\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        responseText += `Title: ${card.title}\n`;
+                        responseText += `Column: ${describeColumn(current)} → ${describeColumn(card)}\n`;
+                        responseText += `Lane: ${current.lane === card.lane ? card.lane : `${current.lane} → ${card.lane}`}\n`;
+                        responseText += `State: ${current.state === card.state ? card.state : `${current.state} → ${card.state}`}\n`;
+                        responseText += `URL: ${card.url}\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## Moved [#${card.id}](${card.url}) ${card.title}\n\n`;
+                        responseText += `- **Board:** ${teamBoard.name}\n`;
+                        responseText += `- **Column:** ${describeColumn(current)} → ${describeColumn(card)}\n`;
+                        responseText += `- **Lane:** ${current.lane === card.lane ? card.lane : `${current.lane} → ${card.lane}`}\n`;
+                        responseText += `- **State:** ${current.state === card.state ? card.state : `${current.state} → ${card.state}`}\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error moving board item: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function listBacklogTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listBacklog",
+        annotations: { title: "List Backlog", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            level: z.string().optional()
+                .describe("Backlog level name or ID (e.g., Epics, Features, Stories; fuzzy match supported). Default: the requirement level"),
+            top: z.number().int().min(1).max(1000).optional().default(50)
+                .describe("Number of work items to return, highest priority first (default: 50, max: 1000)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            level: backlogLevelSchema,
+            levels: z.array(backlogLevelSchema),
+            total: z.number(),
+            // In backlog priority order
+            workItems: z.array(workItemSchema)
+        },
+        handler: async ({
+            project,
+            team,
+            level,
+            top = 50,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            team: string;
+            level?: string;
+            top?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const levels = await listBacklogLevels(ctx);
+                const backlog = resolveBacklogLevel(levels, level);
+                const ids = await fetchBacklogItemIds(ctx, backlog);
+                const workItems = await fetchWorkItemsInBatches(client, ids.slice(0, top), "none");
+
+                const toLevelOutput = (l: BacklogLevel) => ({ id: l.id, name: l.name, type: l.type, workItemTypes: l.workItemTypes.map(type => type.name) });
+                const structured = {
+                    level: toLevelOutput(backlog),
+                    levels: levels.filter(l => !l.isHidden).map(toLevelOutput),
+                    total: ids.length,
+                    workItems: workItems.map(toWorkItemOutput)
+                };
+                const otherLevels = structured.levels.filter(l => l.id !== backlog.id).map(l => l.name).join(", ");
+
+                return toolResult(structured, format, {
+                    text: () => {
+                        if (workItems.length === 0) return `The ${backlog.name} backlog is empty.`;
+
+                        let responseText = `📋 ${backlog.name} Backlog (${workItems.length}${ids.length > workItems.length ? ` of ${ids.length}` : ""} work items)\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        workItems.forEach((item, index) => {
+                            const fields = item.fields;
+                            responseText += `${index + 1}. [${fields["System.WorkItemType"]}] ${fields["System.Title"]}\n`;
+                            responseText += `   ID: ${item.id}\n`;
+                            responseText += `   State: ${fields["System.State"]}\n`;
+                            responseText += `   Assigned To: ${fields["System.AssignedTo"]?.displayName || "Unassigned"}\n`;
+                            if (fields["System.IterationPath"]) responseText += `   Iteration: ${fields["System.IterationPath"]}\n`;
+                            responseText += "\n";
+                        });
+                        if (ids.length > workItems.length) {
+                            responseText += `Showing the top ${workItems.length} of ${ids.length} work items. Increase top to see more.\n`;
+                        }
+                        if (otherLevels) responseText += `Other backlog levels: ${otherLevels}\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (workItems.length === 0) return `_The ${backlog.name} backlog is empty._`;
+
+                        let responseText = `## ${backlog.name} Backlog\n\n| # | ID | Type | Title | State | Assigned To | Iteration |\n|---|---|---|---|---|---|---|\n`;
+                        workItems.forEach((item, index) => {
+                            const fields = item.fields;
+                            responseText += `| ${index + 1} | [${item.id}](${workItemWebUrl(item)}) | ${fields["System.WorkItemType"]} | ${escapeMarkdownCell(fields["System.Title"])} | ${fields["System.State"]} | ${fields["System.AssignedTo"]?.displayName ?? ""} | ${escapeMarkdownCell(fields["System.IterationPath"] ?? "")} |\n`;
+                        });
+                        if (ids.length > workItems.length) {
+                            responseText += `\n_Showing the top ${workItems.length} of ${ids.length} work items. Increase top to see more._\n`;
+                        }
+                        if (otherLevels) responseText += `\n_Other backlog levels: ${otherLevels}_\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching backlog: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
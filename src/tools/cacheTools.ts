@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { CACHE_KINDS } from "../client/adoCache";
+import type { AdoClientOptions } from "../client/adoClient";
+import type { OrganizationSettings } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { defineTool } from "./toolDefinition";
+
+export function clearCacheTool(token: string, _organizations: OrganizationSettings, { cache }: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "clearCache",
+        // Only drops this session's cache; nothing in Azure DevOps changes
+        annotations: { title: "Clear Cache", readOnlyHint: true },
+        schema: {
+            kinds: z.array(z.enum(CACHE_KINDS)).optional()
+                .describe("What to drop from the session cache (default: everything). Use after renaming projects or teams, or changing sprints or process"),
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            kinds: z.array(z.enum(CACHE_KINDS)),
+            removedEntries: z.number()
+        },
+        handler: async ({ kinds = [...CACHE_KINDS], format = "text" }: { kinds?: (typeof CACHE_KINDS)[number][]; format?: OutputFormat }) => {
+            try {
+                if (!cache) throw new Error("Caching is not enabled for this session.");
+                const removedEntries = cache.invalidate(kinds);
+
+                return toolResult({ kinds, removedEntries }, format, {
+                    text: () => `🧹 Cleared ${removedEntries} cached entries (${kinds.join(", ")}).`,
+                    markdown: () => `Cleared **${removedEntries}** cached entries: ${kinds.map(kind => `\`${kind}\``).join(", ")}.`
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error clearing cache: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
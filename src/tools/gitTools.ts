@@ -0,0 +1,553 @@
+import { z } from "zod";
+import type {
+    AdoListResponse,
+    GitPullRequest,
+    GitPullRequestCommentThread,
+    GitRepository,
+    IdentityRef
+} from "../interface/adoInterfaces";
+import { gitRepositorySchema, pullRequestSchema, pullRequestThreadSchema } from "../interface/adoSchemas";
+import { type AdoClient, type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { fetchAuthenticatedUser, resolveIdentity } from "../utils/identities";
+import { resolveByName } from "../utils/nameMatching";
+import { escapeMarkdownCell, fetchWorkItemsInBatches, resolveProjectId } from "./adoTools";
+import { defineTool } from "./toolDefinition";
+
+const PR_VOTES = {
+    approve: 10,
+    approveWithSuggestions: 5,
+    noVote: 0,
+    waitForAuthor: -5,
+    reject: -10
+} as const;
+
+type PullRequestVote = keyof typeof PR_VOTES;
+
+const VOTE_LABELS: Record<number, string> = {
+    10: "Approved",
+    5: "Approved with suggestions",
+    0: "No vote",
+    [-5]: "Waiting for author",
+    [-10]: "Rejected"
+};
+
+const linkedWorkItemSchema = z.object({
+    id: z.number(),
+    title: z.string(),
+    type: z.string(),
+    state: z.string()
+});
+
+const pullRequestParamsSchema = {
+    project: z.string().describe("The name or ID of the Azure DevOps project (fuzzy match supported)"),
+    pullRequestId: z.number().describe("The ID of the pull request")
+};
+
+/**
+ * Resolves a repository name (fuzzy) or ID inside a project to the repository.
+ */
+async function resolveRepository(client: AdoClient, projectId: string, repository: string): Promise<GitRepository> {
+    const data = await client.get<AdoListResponse<GitRepository>>(`${projectId}/_apis/git/repositories?api-version=7.1`);
+    return resolveByName(data.value || [], repository, { kind: "repository", names: repo => [repo.name], id: repo => repo.id });
+}
+
+/**
+ * Trims a PR response down to the shape declared by pullRequestSchema (drops _links, avatars, ...).
+ */
+function toPullRequestOutput(pr: GitPullRequest): GitPullRequest {
+    const identity = ({ id, displayName, uniqueName }: IdentityRef): IdentityRef => ({ id, displayName, uniqueName });
+    return {
+        pullRequestId: pr.pullRequestId,
+        title: pr.title,
+        description: pr.description,
+        status: pr.status,
+        isDraft: pr.isDraft,
+        mergeStatus: pr.mergeStatus,
+        createdBy: identity(pr.createdBy),
+        creationDate: pr.creationDate,
+        closedDate: pr.closedDate,
+        sourceRefName: pr.sourceRefName,
+        targetRefName: pr.targetRefName,
+        reviewers: (pr.reviewers ?? []).map(reviewer => ({
+            ...identity(reviewer),
+            vote: reviewer.vote,
+            isRequired: reviewer.isRequired,
+            hasDeclined: reviewer.hasDeclined
+        })),
+        repository: {
+            id: pr.repository.id,
+            name: pr.repository.name,
+            project: pr.repository.project && { id: pr.repository.project.id, name: pr.repository.project.name }
+        },
+        url: pr.url
+    };
+}
+
+async function fetchPullRequest(client: AdoClient, projectId: string, pullRequestId: number): Promise<GitPullRequest> {
+    return client.get<GitPullRequest>(`${projectId}/_apis/git/pullrequests/${pullRequestId}?api-version=7.1`);
+}
+
+function pullRequestWebUrl(client: AdoClient, pr: GitPullRequest): string {
+    const project = encodeURIComponent(pr.repository.project?.name ?? "");
+    return `${client.baseUrl}/${project}/_git/${encodeURIComponent(pr.repository.name)}/pullrequest/${pr.pullRequestId}`;
+}
+
+const branchName = (ref: string) => ref.replace(/^refs\/heads\//, "");
+const voteLabel = (vote: number) => VOTE_LABELS[vote] ?? `Vote ${vote}`;
+const isDiscussionThread = (thread: GitPullRequestCommentThread) =>
+    !thread.isDeleted && thread.comments.some(comment => comment.commentType !== "system");
+
+export function listRepositoriesTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listRepositories",
+        annotations: { title: "List Repositories", readOnlyHint: true },
+        schema: {
+            project: z.string().describe("The name or ID of the Azure DevOps project (fuzzy match supported)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            count: z.number(),
+            repositories: z.array(gitRepositorySchema)
+        },
+        handler: async ({ project, organization, format = "text" }: { project: string; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const data = await client.get<AdoListResponse<GitRepository>>(`${projectId}/_apis/git/repositories?api-version=7.1`);
+                const repositories = (data.value || []).map(repo => ({
+                    id: repo.id,
+                    name: repo.name,
+                    url: repo.url,
+                    webUrl: repo.webUrl,
+                    defaultBranch: repo.defaultBranch,
+                    size: repo.size,
+                    isDisabled: repo.isDisabled,
+                    project: { id: repo.project.id, name: repo.project.name }
+                }));
+
+                return toolResult({ count: repositories.length, repositories }, format, {
+                    text: () => {
+                        if (repositories.length === 0) return "No repositories found in this project.";
+
+                        let responseText = `Found ${repositories.length} repositories\n\n`;
+                        repositories.forEach((repo, index) => {
+                            responseText += `${index + 1}. ${repo.name}${repo.isDisabled ? " (disabled)" : ""}\n`;
+                            responseText += `   ID: ${repo.id}\n`;
+                            if (repo.defaultBranch) responseText += `   Default Branch: ${branchName(repo.defaultBranch)}\n`;
+                            if (repo.webUrl) responseText += `   URL: ${repo.webUrl}\n`;
+                            responseText += "\n";
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (repositories.length === 0) return "_No repositories found in this project._";
+
+                        let responseText = `## Repositories (${repositories.length})\n\n`;
+                        for (const repo of repositories) {
+                            const name = repo.webUrl ? `[${repo.name}](${repo.webUrl})` : repo.name;
+                            responseText += `- **${name}**${repo.defaultBranch ? ` — default branch \`${branchName(repo.defaultBranch)}\`` : ""}${repo.isDisabled ? " (disabled)" : ""}\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching repositories: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function listPullRequestsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listPullRequests",
+        annotations: { title: "List Pull Requests", readOnlyHint: true },
+        schema: {
+            project: z.string().describe("The name or ID of the Azure DevOps project (fuzzy match supported)"),
+            repository: z.string().optional().describe("Repository name or ID (fuzzy match supported; default: all repositories in the project)"),
+            status: z.enum(["active", "completed", "abandoned", "all"]).optional().default("active")
+                .describe("Pull request status (default: active)"),
+            creator: z.string().optional().describe("Only PRs created by this user (name, email, ID or '@me')"),
+            reviewer: z.string().optional().describe("Only PRs with this reviewer (name, email, ID or '@me')"),
+            targetBranch: z.string().optional().describe("Only PRs into this branch (e.g., 'main' or 'refs/heads/main')"),
+            top: z.number().int().min(1).max(200).optional().default(50).describe("Maximum number of PRs to return (default: 50)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            count: z.number(),
+            pullRequests: z.array(pullRequestSchema)
+        },
+        handler: async ({
+            project,
+            repository,
+            status = "active",
+            creator,
+            reviewer,
+            targetBranch,
+            top = 50,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            repository?: string;
+            status?: "active" | "completed" | "abandoned" | "all";
+            creator?: string;
+            reviewer?: string;
+            targetBranch?: string;
+            top?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+
+                const params = new URLSearchParams({ "searchCriteria.status": status, $top: String(top), "api-version": "7.1" });
+                if (creator) params.set("searchCriteria.creatorId", (await resolveIdentity(client, creator)).id);
+                if (reviewer) params.set("searchCriteria.reviewerId", (await resolveIdentity(client, reviewer)).id);
+                if (targetBranch) {
+                    params.set("searchCriteria.targetRefName", targetBranch.startsWith("refs/") ? targetBranch : `refs/heads/${targetBranch}`);
+                }
+
+                const base = repository
+                    ? `${projectId}/_apis/git/repositories/${(await resolveRepository(client, projectId, repository)).id}/pullrequests`
+                    : `${projectId}/_apis/git/pullrequests`;
+                const data = await client.get<AdoListResponse<GitPullRequest>>(`${base}?${params}`);
+                const pullRequests = (data.value || []).map(toPullRequestOutput);
+
+                return toolResult({ count: pullRequests.length, pullRequests }, format, {
+                    text: () => {
+                        if (pullRequests.length === 0) return "No pull requests found matching the criteria.";
+
+                        let responseText = `Found ${pullRequests.length} pull requests\n\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        pullRequests.forEach((pr, index) => {
+                            responseText += `${index + 1}. !${pr.pullRequestId} ${pr.title}${pr.isDraft ? " (draft)" : ""}\n`;
+                            responseText += `   Repository: ${pr.repository.name}\n`;
+                            responseText += `   ${branchName(pr.sourceRefName)} → ${branchName(pr.targetRefName)}\n`;
+                            responseText += `   Status: ${pr.status}\n`;
+                            responseText += `   Created By: ${pr.createdBy.displayName} on ${new Date(pr.creationDate).toLocaleString()}\n`;
+                            if (pr.reviewers.length > 0) {
+                                responseText += `   Reviewers: ${pr.reviewers.map(r => `${r.displayName} (${voteLabel(r.vote)})`).join(", ")}\n`;
+                            }
+                            responseText += `   URL: ${pullRequestWebUrl(client, pr)}\n\n`;
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (pullRequests.length === 0) return "_No pull requests found matching the criteria._";
+
+                        let responseText = `## Pull Requests (${pullRequests.length})\n\n`;
+                        responseText += "| ID | Title | Repository | Branches | Created By | Status |\n|---|---|---|---|---|---|\n";
+                        for (const pr of pullRequests) {
+                            responseText += `| [!${pr.pullRequestId}](${pullRequestWebUrl(client, pr)}) | ${escapeMarkdownCell(pr.title)}${pr.isDraft ? " _(draft)_" : ""} | ${pr.repository.name} | \`${branchName(pr.sourceRefName)}\` → \`${branchName(pr.targetRefName)}\` | ${pr.createdBy.displayName} | ${pr.status} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching pull requests: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function getPullRequestTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getPullRequest",
+        annotations: { title: "Get Pull Request", readOnlyHint: true },
+        schema: {
+            ...pullRequestParamsSchema,
+            includeSystemThreads: z.boolean().optional().default(false)
+                .describe("Include system threads such as vote and push notifications (default: false)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            pullRequest: pullRequestSchema,
+            workItems: z.array(linkedWorkItemSchema),
+            threads: z.array(pullRequestThreadSchema)
+        },
+        handler: async ({
+            project,
+            pullRequestId,
+            includeSystemThreads = false,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            pullRequestId: number;
+            includeSystemThreads?: boolean;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const pr = await fetchPullRequest(client, projectId, pullRequestId);
+                const prPath = `${projectId}/_apis/git/repositories/${pr.repository.id}/pullRequests/${pullRequestId}`;
+
+                const [workItemRefs, threadData] = await Promise.all([
+                    client.get<AdoListResponse<{ id: string }>>(`${prPath}/workitems?api-version=7.1`),
+                    client.get<AdoListResponse<GitPullRequestCommentThread>>(`${prPath}/threads?api-version=7.1`)
+                ]);
+                const linked = await fetchWorkItemsInBatches(client, (workItemRefs.value || []).map(ref => Number(ref.id)), "none");
+                const workItems = linked.map(item => ({
+                    id: item.id,
+                    title: item.fields["System.Title"],
+                    type: item.fields["System.WorkItemType"],
+                    state: item.fields["System.State"]
+                }));
+                const threads = (threadData.value || [])
+                    .filter(thread => includeSystemThreads ? !thread.isDeleted : isDiscussionThread(thread))
+                    .map(thread => ({
+                        id: thread.id,
+                        status: thread.status,
+                        publishedDate: thread.publishedDate,
+                        threadContext: thread.threadContext && {
+                            filePath: thread.threadContext.filePath,
+                            rightFileStart: thread.threadContext.rightFileStart
+                        },
+                        comments: thread.comments.map(comment => ({
+                            id: comment.id,
+                            parentCommentId: comment.parentCommentId,
+                            author: { id: comment.author.id, displayName: comment.author.displayName, uniqueName: comment.author.uniqueName },
+                            content: comment.content,
+                            publishedDate: comment.publishedDate,
+                            commentType: comment.commentType
+                        }))
+                    }));
+                const pullRequest = toPullRequestOutput(pr);
+                const location = (thread: (typeof threads)[number]) => thread.threadContext
+                    ? ` on ${thread.threadContext.filePath}${thread.threadContext.rightFileStart ? `:${thread.threadContext.rightFileStart.line}` : ""}`
+                    : "";
+
+                return toolResult({ pullRequest, workItems, threads }, format, {
+                    text: () => {
+                        let responseText = `🔀 Pull Request !${pr.pullRequestId}: ${pr.title}${pr.isDraft ? " (draft)" : ""}\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        responseText += `📁 Repository: ${pr.repository.name}\n`;
+                        responseText += `🌿 ${branchName(pr.sourceRefName)} → ${branchName(pr.targetRefName)}\n`;
+                        responseText += `🔄 Status: ${pr.status}${pr.mergeStatus ? ` (merge: ${pr.mergeStatus})` : ""}\n`;
+                        responseText += `👤 Created By: ${pr.createdBy.displayName} on ${new Date(pr.creationDate).toLocaleString()}\n`;
+                        responseText += `🔗 URL: ${pullRequestWebUrl(client, pr)}\n`;
+                        if (pr.description) responseText += `\n📝 Description:\n${pr.description}\n`;
+
+                        responseText += `\n👥 Reviewers (${pullRequest.reviewers.length}):\n`;
+                        for (const reviewer of pullRequest.reviewers) {
+                            responseText += `   ${reviewer.displayName}: ${voteLabel(reviewer.vote)}${reviewer.isRequired ? " (required)" : ""}\n`;
+                        }
+
+                        if (workItems.length > 0) {
+                            responseText += `\n📌 Linked Work Items (${workItems.length}):\n`;
+                            for (const item of workItems) responseText += `   #${item.id} [${item.type}] ${item.title} (${item.state})\n`;
+                        }
+
+                        responseText += `\n💬 Threads (${threads.length}):\n`;
+                        for (const thread of threads) {
+                            responseText += "-".repeat(30) + "\n";
+                            responseText += `Thread ${thread.id}${thread.status ? ` [${thread.status}]` : ""}${location(thread)}\n`;
+                            for (const comment of thread.comments) {
+                                responseText += `   ${comment.author.displayName} (${new Date(comment.publishedDate).toLocaleString()}): ${comment.content ?? ""}\n`;
+                            }
+                        }
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## !${pr.pullRequestId}: ${pr.title}${pr.isDraft ? " _(draft)_" : ""}\n\n`;
+                        responseText += `- **Repository:** ${pr.repository.name}\n`;
+                        responseText += `- **Branches:** \`${branchName(pr.sourceRefName)}\` → \`${branchName(pr.targetRefName)}\`\n`;
+                        responseText += `- **Status:** ${pr.status}${pr.mergeStatus ? ` (merge: ${pr.mergeStatus})` : ""}\n`;
+                        responseText += `- **Created By:** ${pr.createdBy.displayName}, ${pr.creationDate}\n`;
+                        responseText += `- **URL:** ${pullRequestWebUrl(client, pr)}\n`;
+                        if (pr.description) responseText += `\n### Description\n\n${pr.description}\n`;
+
+                        responseText += "\n### Reviewers\n\n";
+                        for (const reviewer of pullRequest.reviewers) {
+                            responseText += `- ${reviewer.displayName}: **${voteLabel(reviewer.vote)}**${reviewer.isRequired ? " (required)" : ""}\n`;
+                        }
+
+                        if (workItems.length > 0) {
+                            responseText += "\n### Linked Work Items\n\n";
+                            for (const item of workItems) responseText += `- #${item.id} [${item.type}] ${item.title} (${item.state})\n`;
+                        }
+
+                        responseText += `\n### Threads (${threads.length})\n`;
+                        for (const thread of threads) {
+                            responseText += `\n#### Thread ${thread.id}${thread.status ? ` (${thread.status})` : ""}${location(thread)}\n\n`;
+                            for (const comment of thread.comments) {
+                                responseText += `- **${comment.author.displayName}** (${comment.publishedDate}): ${comment.content ?? ""}\n`;
+                            }
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching pull request: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function addPullRequestCommentTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "addPullRequestComment",
+        annotations: { title: "Add Pull Request Comment", readOnlyHint: false, destructiveHint: false },
+        schema: {
+            ...pullRequestParamsSchema,
+            text: z.string().describe("The comment text (Markdown)"),
+            threadId: z.number().optional().describe("Reply in this existing thread instead of starting a new one"),
+            filePath: z.string().optional().describe("Start the thread on this file (e.g., '/src/index.ts'); ignored for replies"),
+            line: z.number().int().min(1).optional().describe("Line in the new version of filePath to comment on"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            pullRequestId: z.number(),
+            threadId: z.number(),
+            commentId: z.number()
+        },
+        handler: async ({
+            project,
+            pullRequestId,
+            text,
+            threadId,
+            filePath,
+            line,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            pullRequestId: number;
+            text: string;
+            threadId?: number;
+            filePath?: string;
+            line?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const pr = await fetchPullRequest(client, projectId, pullRequestId);
+                const threadsPath = `${projectId}/_apis/git/repositories/${pr.repository.id}/pullRequests/${pullRequestId}/threads`;
+
+                let result: { threadId: number; commentId: number };
+                if (threadId !== undefined) {
+                    // Replies hang off the thread's first comment, as in the web UI
+                    const comment = await client.post<{ id: number }>(
+                        `${threadsPath}/${threadId}/comments?api-version=7.1`,
+                        { content: text, parentCommentId: 1, commentType: "text" }
+                    );
+                    result = { threadId, commentId: comment.id };
+                } else {
+                    const threadContext = filePath
+                        ? {
+                            filePath: filePath.startsWith("/") ? filePath : `/${filePath}`,
+                            ...(line ? { rightFileStart: { line, offset: 1 }, rightFileEnd: { line, offset: 1 } } : {})
+                        }
+                        : undefined;
+                    const thread = await client.post<GitPullRequestCommentThread>(`${threadsPath}?api-version=7.1`, {
+                        comments: [{ parentCommentId: 0, content: text, commentType: "text" }],
+                        status: "active",
+                        threadContext
+                    });
+                    result = { threadId: thread.id, commentId: thread.comments[0]?.id ?? 1 };
+                }
+
+                const structured = { pullRequestId, ...result };
+                const where = threadId !== undefined ? `thread ${result.threadId}` : `new thread ${result.threadId}`;
+                return toolResult(structured, format, {
+                    text: () => `💬 Comment added to PR !${pullRequestId} (${where})\n🔗 URL: ${pullRequestWebUrl(client, pr)}\n`,
+                    markdown: () => `Comment added to **!${pullRequestId}** (${where}) — ${pullRequestWebUrl(client, pr)}\n`
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error adding pull request comment: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function setPullRequestVoteTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "setPullRequestVote",
+        annotations: { title: "Set Pull Request Vote", readOnlyHint: false, destructiveHint: true },
+        schema: {
+            ...pullRequestParamsSchema,
+            vote: z.enum(Object.keys(PR_VOTES) as [PullRequestVote, ...PullRequestVote[]])
+                .describe("Your vote: approve, approveWithSuggestions, noVote, waitForAuthor or reject"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            pullRequestId: z.number(),
+            reviewer: z.string(),
+            vote: z.number(),
+            voteLabel: z.string()
+        },
+        handler: async ({
+            project,
+            pullRequestId,
+            vote,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            pullRequestId: number;
+            vote: PullRequestVote;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const [pr, me] = await Promise.all([
+                    fetchPullRequest(client, projectId, pullRequestId),
+                    fetchAuthenticatedUser(client)
+                ]);
+
+                // Voting adds the caller as a reviewer if they are not one yet
+                const reviewer = await client.request<{ vote: number }>(
+                    `${projectId}/_apis/git/repositories/${pr.repository.id}/pullRequests/${pullRequestId}/reviewers/${me.id}?api-version=7.1`,
+                    { method: "PUT", body: { vote: PR_VOTES[vote] } }
+                );
+
+                const structured = { pullRequestId, reviewer: me.displayName, vote: reviewer.vote, voteLabel: voteLabel(reviewer.vote) };
+                return toolResult(structured, format, {
+                    text: () => `🗳️ ${me.displayName} voted "${voteLabel(reviewer.vote)}" on PR !${pullRequestId}: ${pr.title}\n🔗 URL: ${pullRequestWebUrl(client, pr)}\n`,
+                    markdown: () => `**${me.displayName}** voted **${voteLabel(reviewer.vote)}** on [!${pullRequestId}](${pullRequestWebUrl(client, pr)}): ${pr.title}\n`
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error setting pull request vote: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import type { WorkItemUpdate } from "../interface/adoInterfaces";
+import { type AdoClient, type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { describeRelation } from "../utils/workItemRelations";
+import { htmlToMarkdown, looksLikeHtml } from "../utils/markdown";
+import { defineTool } from "./toolDefinition";
+
+// The updates endpoint returns at most 200 entries per page
+const UPDATES_PAGE_SIZE = 200;
+const MAX_VALUE_LENGTH = 300;
+
+// Bookkeeping fields that change on every revision; hidden unless explicitly requested
+const NOISY_FIELDS = new Set([
+    "System.Rev",
+    "System.ChangedDate",
+    "System.ChangedBy",
+    "System.AuthorizedDate",
+    "System.AuthorizedAs",
+    "System.RevisedDate",
+    "System.Watermark",
+    "System.PersonId",
+    "System.CommentCount"
+]);
+
+const fieldChangeSchema = z.object({
+    field: z.string(),
+    oldValue: z.string().optional(),
+    newValue: z.string().optional()
+});
+
+const historyEntrySchema = z.object({
+    rev: z.number(),
+    changedBy: z.string(),
+    changedDate: z.string(),
+    fields: z.array(fieldChangeSchema),
+    relationsAdded: z.array(z.string()),
+    relationsRemoved: z.array(z.string())
+});
+
+type HistoryEntry = z.infer<typeof historyEntrySchema>;
+
+export async function fetchAllUpdates(client: AdoClient, id: number): Promise<WorkItemUpdate[]> {
+    const updates: WorkItemUpdate[] = [];
+    for (let skip = 0; ; skip += UPDATES_PAGE_SIZE) {
+        const page = await client.get<{ count: number; value: WorkItemUpdate[] }>(
+            `_apis/wit/workItems/${id}/updates?$top=${UPDATES_PAGE_SIZE}&$skip=${skip}&api-version=7.1-preview.3`
+        );
+        updates.push(...(page.value || []));
+        if (!page.value || page.value.length < UPDATES_PAGE_SIZE) return updates;
+    }
+}
+
+/**
+ * Renders a field value as readable text.
+ * - Identities become their display name
+ * - HTML (description, history, ...) is converted to Markdown
+ */
+function formatFieldValue(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "object") {
+        const identity = value as { displayName?: string };
+        return identity.displayName ?? JSON.stringify(value);
+    }
+    const text = String(value);
+    return looksLikeHtml(text) ? htmlToMarkdown(text) : text;
+}
+
+function truncate(value: string | undefined): string {
+    if (value === undefined || value === "") return "∅";
+    const oneLine = value.replace(/\s*\n\s*/g, " ⏎ ");
+    return oneLine.length > MAX_VALUE_LENGTH ? `${oneLine.slice(0, MAX_VALUE_LENGTH)}…` : oneLine;
+}
+
+function toHistoryEntry(update: WorkItemUpdate, fieldFilter?: Set<string>): HistoryEntry {
+    const fields = Object.entries(update.fields ?? {})
+        .filter(([name]) => fieldFilter ? fieldFilter.has(name.toLowerCase()) : !NOISY_FIELDS.has(name))
+        .map(([field, change]) => ({
+            field,
+            oldValue: formatFieldValue(change.oldValue),
+            newValue: formatFieldValue(change.newValue)
+        }));
+
+    const describe = (relation: Parameters<typeof describeRelation>[0]) => {
+        const { label, target } = describeRelation(relation);
+        return `${label}: ${target}`;
+    };
+
+    return {
+        rev: update.rev,
+        changedBy: update.revisedBy?.displayName ?? "Unknown",
+        // revisedDate is when the revision was superseded; ChangedDate is when this change was made
+        changedDate: String(update.fields?.["System.ChangedDate"]?.newValue ?? update.revisedDate),
+        fields,
+        relationsAdded: fieldFilter ? [] : (update.relations?.added ?? []).map(describe),
+        relationsRemoved: fieldFilter ? [] : (update.relations?.removed ?? []).map(describe)
+    };
+}
+
+export function getWorkItemHistoryTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getWorkItemHistory",
+        annotations: { title: "Get Work Item History", readOnlyHint: true },
+        schema: {
+            id: z.number().describe("The ID of the work item"),
+            fields: z.array(z.string()).optional()
+                .describe("Only show changes to these fields, by reference name (e.g., ['System.State', 'System.AssignedTo'])"),
+            since: z.string().optional().describe("Only show changes made on or after this date (ISO 8601)"),
+            until: z.string().optional().describe("Only show changes made on or before this date (ISO 8601)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            id: z.number(),
+            changes: z.array(historyEntrySchema)
+        },
+        handler: async ({
+            id,
+            fields,
+            since,
+            until,
+            organization,
+            format = "text"
+        }: {
+            id: number;
+            fields?: string[];
+            since?: string;
+            until?: string;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const sinceTime = since ? Date.parse(since) : undefined;
+                const untilTime = until ? Date.parse(until) : undefined;
+                if (Number.isNaN(sinceTime) || Number.isNaN(untilTime)) {
+                    throw new Error("since and until must be ISO 8601 dates.");
+                }
+
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const updates = await fetchAllUpdates(client, id);
+                const fieldFilter = fields?.length ? new Set(fields.map(f => f.toLowerCase())) : undefined;
+
+                const changes = updates
+                    .map(update => toHistoryEntry(update, fieldFilter))
+                    .filter(entry => {
+                        const time = Date.parse(entry.changedDate);
+                        if (sinceTime !== undefined && time < sinceTime) return false;
+                        if (untilTime !== undefined && time > untilTime) return false;
+                        return entry.fields.length > 0 || entry.relationsAdded.length > 0 || entry.relationsRemoved.length > 0;
+                    });
+
+                return toolResult({ id, changes }, format, {
+                    text: () => {
+                        if (changes.length === 0) return `No matching changes found for work item ${id}.`;
+
+                        let responseText = `🕓 History of work item ${id} (${changes.length} changes)\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        for (const change of changes) {
+                            responseText += `Rev ${change.rev} — ${change.changedBy} — ${new Date(change.changedDate).toLocaleString()}\n`;
+                            for (const field of change.fields) {
+                                responseText += `   ${field.field}: ${truncate(field.oldValue)} → ${truncate(field.newValue)}\n`;
+                            }
+                            for (const relation of change.relationsAdded) responseText += `   + ${relation}\n`;
+                            for (const relation of change.relationsRemoved) responseText += `   - ${relation}\n`;
+                            responseText += "\n";
+                        }
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (changes.length === 0) return `_No matching changes found for work item ${id}._`;
+
+                        let responseText = `## History of work item ${id} (${changes.length} changes)\n\n`;
+                        for (const change of changes) {
+                            responseText += `### Rev ${change.rev} — ${change.changedBy}, ${change.changedDate}\n\n`;
+                            for (const field of change.fields) {
+                                responseText += `- \`${field.field}\`: ${truncate(field.oldValue)} → **${truncate(field.newValue)}**\n`;
+                            }
+                            for (const relation of change.relationsAdded) responseText += `- Added link ${relation}\n`;
+                            for (const relation of change.relationsRemoved) responseText += `- Removed link ${relation}\n`;
+                            responseText += "\n";
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching work item history: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
@@ -0,0 +1,599 @@
+import { z } from "zod";
+import type {
+    DateRange,
+    IterationWorkItemsResponse,
+    TeamIteration,
+    TeamMemberCapacity,
+    TeamSettings,
+    WorkItem
+} from "../interface/adoInterfaces";
+import { toWorkItemOutput, workItemSchema } from "../interface/adoSchemas";
+import { type AdoClient, type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { resolveByName } from "../utils/nameMatching";
+import {
+    escapeMarkdownCell,
+    fetchWorkItemsInBatches,
+    resolveTeamContext,
+    type TeamContext,
+    teamScopeSchema,
+    workItemWebUrl
+} from "./adoTools";
+import { defineTool } from "./toolDefinition";
+
+// Burndown needs one revisions request per work item; cap the sprint size and the requests in flight
+const MAX_BURNDOWN_ITEMS = 200;
+const BURNDOWN_CONCURRENCY = 6;
+const REVISIONS_PAGE_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const iterationSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    path: z.string(),
+    startDate: z.string().optional(),
+    finishDate: z.string().optional(),
+    timeFrame: z.string().optional()
+});
+
+const iterationParamSchema = z.string().optional()
+    .describe("Iteration name, path or ID (fuzzy match supported; default: the current sprint)");
+
+async function listTeamIterations(ctx: TeamContext, timeframe?: "past" | "current" | "future"): Promise<TeamIteration[]> {
+    const filter = timeframe ? `$timeframe=${timeframe}&` : "";
+    return ctx.client.cached("iterations", `${ctx.teamPath.toLowerCase()}${timeframe ?? "all"}`, async () => {
+        const data = await ctx.client.get<{ value: TeamIteration[] }>(
+            `${ctx.teamPath}_apis/work/teamsettings/iterations?${filter}api-version=7.1-preview.1`
+        );
+        return data.value || [];
+    });
+}
+
+/**
+ * Resolves an iteration by ID, name or path (fuzzy); no argument (or "current") means the current sprint.
+ */
+async function resolveIteration(ctx: TeamContext, iteration?: string): Promise<TeamIteration> {
+    if (!iteration || /^(current|@currentiteration)$/i.test(iteration.trim())) {
+        const [current] = await listTeamIterations(ctx, "current");
+        if (!current) throw new Error("The team has no current iteration. Check the team's sprint dates.");
+        return current;
+    }
+
+    const iterations = await listTeamIterations(ctx);
+    return resolveByName(iterations, iteration, { kind: "iteration", names: it => [it.name, it.path], id: it => it.id });
+}
+
+function toIterationOutput(iteration: TeamIteration) {
+    return {
+        id: iteration.id,
+        name: iteration.name,
+        path: iteration.path,
+        startDate: iteration.attributes?.startDate,
+        finishDate: iteration.attributes?.finishDate,
+        timeFrame: iteration.attributes?.timeFrame
+    };
+}
+
+function formatDateRange(iteration: TeamIteration): string {
+    const { startDate, finishDate } = iteration.attributes ?? {};
+    if (!startDate || !finishDate) return "no dates set";
+    return `${startDate.slice(0, 10)} → ${finishDate.slice(0, 10)}`;
+}
+
+async function fetchIterationWorkItems(ctx: TeamContext, iteration: TeamIteration): Promise<WorkItem[]> {
+    const data = await ctx.client.get<IterationWorkItemsResponse>(
+        `${ctx.teamPath}_apis/work/teamsettings/iterations/${iteration.id}/workitems?api-version=7.1-preview.1`
+    );
+    const ids = [...new Set((data.workItemRelations ?? []).map(link => link.target.id))];
+    return fetchWorkItemsInBatches(ctx.client, ids, "none");
+}
+
+/**
+ * Lists the team's working days (UTC, YYYY-MM-DD) between two dates inclusive, skipping days off.
+ */
+function workingDaysBetween(start: Date, end: Date, workingDays: Set<string>, daysOff: DateRange[] = []): string[] {
+    const days: string[] = [];
+    for (let t = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()); t <= end.getTime(); t += DAY_MS) {
+        const day = new Date(t);
+        if (!workingDays.has(DAY_NAMES[day.getUTCDay()])) continue;
+        const off = daysOff.some(range => t >= Date.parse(range.start) && t <= Date.parse(range.end));
+        if (!off) days.push(day.toISOString().slice(0, 10));
+    }
+    return days;
+}
+
+async function fetchWorkingDays(ctx: TeamContext): Promise<Set<string>> {
+    const settings = await ctx.client.get<TeamSettings>(`${ctx.teamPath}_apis/work/teamsettings?api-version=7.1-preview.1`);
+    return new Set((settings.workingDays ?? DAY_NAMES.slice(1, 6)).map(day => day.toLowerCase()));
+}
+
+function sprintDates(iteration: TeamIteration): { start: Date; finish: Date } {
+    const { startDate, finishDate } = iteration.attributes ?? {};
+    if (!startDate || !finishDate) throw new Error(`Iteration "${iteration.name}" has no start and finish dates.`);
+    return { start: new Date(startDate), finish: new Date(finishDate) };
+}
+
+function remainingWork(workItem: WorkItem): number {
+    return workItem.fields["Microsoft.VSTS.Scheduling.RemainingWork"] ?? 0;
+}
+
+export function listIterationsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listIterations",
+        annotations: { title: "List Iterations", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            timeframe: z.enum(["past", "current", "future", "all"]).optional().default("all")
+                .describe("Which iterations to list (default: all)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            iterations: z.array(iterationSchema)
+        },
+        handler: async ({
+            project,
+            team,
+            timeframe = "all",
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            team: string;
+            timeframe?: "past" | "current" | "future" | "all";
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const iterations = await listTeamIterations(ctx, timeframe === "all" ? undefined : timeframe);
+
+                return toolResult({ iterations: iterations.map(toIterationOutput) }, format, {
+                    text: () => {
+                        if (iterations.length === 0) return "No iterations found for this team.";
+
+                        let responseText = `Found ${iterations.length} iterations\n\n`;
+                        iterations.forEach((it, index) => {
+                            responseText += `${index + 1}. ${it.name}${it.attributes?.timeFrame === "current" ? " (current)" : ""}\n`;
+                            responseText += `   Path: ${it.path}\n`;
+                            responseText += `   Dates: ${formatDateRange(it)}\n`;
+                            responseText += `   ID: ${it.id}\n\n`;
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (iterations.length === 0) return "_No iterations found for this team._";
+
+                        let responseText = `## Iterations (${iterations.length})\n\n| Name | Dates | Timeframe | Path |\n|---|---|---|---|\n`;
+                        for (const it of iterations) {
+                            responseText += `| ${it.name} | ${formatDateRange(it)} | ${it.attributes?.timeFrame ?? ""} | ${escapeMarkdownCell(it.path)} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching iterations: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function getCurrentSprintTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getCurrentSprint",
+        annotations: { title: "Get Current Sprint", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            iteration: iterationSchema,
+            workingDaysRemaining: z.number(),
+            workItemCount: z.number(),
+            stateCounts: z.record(z.string(), z.number())
+        },
+        handler: async ({ project, team, organization, format = "text" }: { project: string; team: string; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const iteration = await resolveIteration(ctx);
+                const [workItems, workingDays] = await Promise.all([
+                    fetchIterationWorkItems(ctx, iteration),
+                    fetchWorkingDays(ctx)
+                ]);
+
+                const { finish } = sprintDates(iteration);
+                const workingDaysRemaining = workingDaysBetween(new Date(), finish, workingDays).length;
+                const stateCounts: Record<string, number> = {};
+                for (const item of workItems) {
+                    const state = item.fields["System.State"];
+                    stateCounts[state] = (stateCounts[state] ?? 0) + 1;
+                }
+
+                const structured = {
+                    iteration: toIterationOutput(iteration),
+                    workingDaysRemaining,
+                    workItemCount: workItems.length,
+                    stateCounts
+                };
+                const summary = Object.entries(stateCounts).map(([state, n]) => `${state}: ${n}`).join(", ") || "none";
+
+                return toolResult(structured, format, {
+                    text: () => {
+                        let responseText = `🏃 Current Sprint: ${iteration.name}\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        responseText += `Path: ${iteration.path}\n`;
+                        responseText += `Dates: ${formatDateRange(iteration)}\n`;
+                        responseText += `Working days remaining: ${workingDaysRemaining}\n`;
+                        responseText += `Work items: ${workItems.length} (${summary})\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## Current Sprint: ${iteration.name}\n\n`;
+                        responseText += `- **Path:** ${iteration.path}\n`;
+                        responseText += `- **Dates:** ${formatDateRange(iteration)}\n`;
+                        responseText += `- **Working days remaining:** ${workingDaysRemaining}\n`;
+                        responseText += `- **Work items:** ${workItems.length} (${summary})\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching current sprint: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function listSprintWorkItemsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listSprintWorkItems",
+        annotations: { title: "List Sprint Work Items", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            iteration: iterationParamSchema,
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            iteration: iterationSchema,
+            workItems: z.array(workItemSchema)
+        },
+        handler: async ({
+            project,
+            team,
+            iteration,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            team: string;
+            iteration?: string;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const sprint = await resolveIteration(ctx, iteration);
+                const workItems = await fetchIterationWorkItems(ctx, sprint);
+
+                return toolResult({ iteration: toIterationOutput(sprint), workItems: workItems.map(toWorkItemOutput) }, format, {
+                    text: () => {
+                        if (workItems.length === 0) return `No work items planned in ${sprint.name}.`;
+
+                        let responseText = `Found ${workItems.length} work items in ${sprint.name} (${formatDateRange(sprint)})\n\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        workItems.forEach((item, index) => {
+                            const fields = item.fields;
+                            responseText += `${index + 1}. [${fields["System.WorkItemType"]}] ${fields["System.Title"]}\n`;
+                            responseText += `   ID: ${item.id}\n`;
+                            responseText += `   State: ${fields["System.State"]}\n`;
+                            responseText += `   Assigned To: ${fields["System.AssignedTo"]?.displayName || "Unassigned"}\n`;
+                            if (fields["Microsoft.VSTS.Scheduling.RemainingWork"] !== undefined) {
+                                responseText += `   Remaining Work: ${fields["Microsoft.VSTS.Scheduling.RemainingWork"]}h\n`;
+                            }
+                            responseText += `   URL: ${workItemWebUrl(item)}\n\n`;
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (workItems.length === 0) return `_No work items planned in ${sprint.name}._`;
+
+                        let responseText = `## ${sprint.name} (${formatDateRange(sprint)})\n\n`;
+                        responseText += "| ID | Type | Title | State | Assigned To | Remaining |\n|---|---|---|---|---|---|\n";
+                        for (const item of workItems) {
+                            const fields = item.fields;
+                            responseText += `| [${item.id}](${workItemWebUrl(item)}) | ${fields["System.WorkItemType"]} | ${escapeMarkdownCell(fields["System.Title"])} | ${fields["System.State"]} | ${fields["System.AssignedTo"]?.displayName ?? "Unassigned"} | ${fields["Microsoft.VSTS.Scheduling.RemainingWork"] ?? ""} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching sprint work items: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function getSprintCapacityTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getSprintCapacity",
+        annotations: { title: "Get Sprint Capacity", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            iteration: iterationParamSchema,
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            iteration: iterationSchema,
+            workingDaysRemaining: z.number(),
+            members: z.array(z.object({
+                name: z.string(),
+                capacityPerDay: z.number(),
+                availableHours: z.number(),
+                remainingWork: z.number()
+            })),
+            unassignedRemainingWork: z.number(),
+            totalAvailableHours: z.number(),
+            totalRemainingWork: z.number()
+        },
+        handler: async ({
+            project,
+            team,
+            iteration,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            team: string;
+            iteration?: string;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const sprint = await resolveIteration(ctx, iteration);
+                const iterationPath = `${ctx.teamPath}_apis/work/teamsettings/iterations/${sprint.id}`;
+
+                const [capacityData, teamDaysOff, workingDays, workItems] = await Promise.all([
+                    // 7.1 wraps members in { teamMembers }, earlier versions return { value }
+                    ctx.client.get<{ teamMembers?: TeamMemberCapacity[]; value?: TeamMemberCapacity[] }>(
+                        `${iterationPath}/capacities?api-version=7.1-preview.3`
+                    ),
+                    ctx.client.get<{ daysOff: DateRange[] }>(`${iterationPath}/teamdaysoff?api-version=7.1-preview.1`),
+                    fetchWorkingDays(ctx),
+                    fetchIterationWorkItems(ctx, sprint)
+                ]);
+
+                // Capacity only counts what is left of the sprint
+                const { start, finish } = sprintDates(sprint);
+                const from = new Date(Math.max(Date.now(), start.getTime()));
+                const remainingDays = workingDaysBetween(from, finish, workingDays, teamDaysOff.daysOff ?? []);
+
+                const remainingByAssignee = new Map<string, number>();
+                let unassignedRemainingWork = 0;
+                for (const item of workItems) {
+                    const assignee = item.fields["System.AssignedTo"]?.displayName;
+                    if (assignee) {
+                        remainingByAssignee.set(assignee, (remainingByAssignee.get(assignee) ?? 0) + remainingWork(item));
+                    } else {
+                        unassignedRemainingWork += remainingWork(item);
+                    }
+                }
+
+                const members = (capacityData.teamMembers ?? capacityData.value ?? []).map(member => {
+                    const capacityPerDay = member.activities.reduce((sum, activity) => sum + activity.capacityPerDay, 0);
+                    const memberDays = remainingDays.filter(day =>
+                        !member.daysOff.some(range => {
+                            const t = Date.parse(day);
+                            return t >= Date.parse(range.start) && t <= Date.parse(range.end);
+                        })
+                    );
+                    const name = member.teamMember.displayName;
+                    const assigned = remainingByAssignee.get(name) ?? 0;
+                    remainingByAssignee.delete(name);
+                    return { name, capacityPerDay, availableHours: capacityPerDay * memberDays.length, remainingWork: assigned };
+                });
+
+                // People with work assigned but no capacity entry still count against the sprint
+                for (const [name, remaining] of remainingByAssignee) {
+                    members.push({ name, capacityPerDay: 0, availableHours: 0, remainingWork: remaining });
+                }
+
+                const totalAvailableHours = members.reduce((sum, m) => sum + m.availableHours, 0);
+                const totalRemainingWork = members.reduce((sum, m) => sum + m.remainingWork, 0) + unassignedRemainingWork;
+
+                const structured = {
+                    iteration: toIterationOutput(sprint),
+                    workingDaysRemaining: remainingDays.length,
+                    members,
+                    unassignedRemainingWork,
+                    totalAvailableHours,
+                    totalRemainingWork
+                };
+                const status = (available: number, remaining: number) =>
+                    remaining > available ? `over by ${remaining - available}h` : `${available - remaining}h spare`;
+
+                return toolResult(structured, format, {
+                    text: () => {
+                        let responseText = `📈 Capacity for ${sprint.name} (${remainingDays.length} working days left)\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        for (const m of members) {
+                            responseText += `${m.name}: ${m.availableHours}h available (${m.capacityPerDay}h/day), ${m.remainingWork}h remaining — ${status(m.availableHours, m.remainingWork)}\n`;
+                        }
+                        if (unassignedRemainingWork > 0) {
+                            responseText += `Unassigned: ${unassignedRemainingWork}h remaining\n`;
+                        }
+                        responseText += `\nTeam: ${totalAvailableHours}h available, ${totalRemainingWork}h remaining — ${status(totalAvailableHours, totalRemainingWork)}\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## Capacity for ${sprint.name}\n\n_${remainingDays.length} working days left_\n\n`;
+                        responseText += "| Member | Per day | Available | Remaining | Status |\n|---|---|---|---|---|\n";
+                        for (const m of members) {
+                            responseText += `| ${m.name} | ${m.capacityPerDay}h | ${m.availableHours}h | ${m.remainingWork}h | ${status(m.availableHours, m.remainingWork)} |\n`;
+                        }
+                        if (unassignedRemainingWork > 0) {
+                            responseText += `| _Unassigned_ | | | ${unassignedRemainingWork}h | |\n`;
+                        }
+                        responseText += `| **Team** | | **${totalAvailableHours}h** | **${totalRemainingWork}h** | ${status(totalAvailableHours, totalRemainingWork)} |\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching sprint capacity: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+async function fetchRevisions(client: AdoClient, id: number): Promise<WorkItem[]> {
+    const revisions: WorkItem[] = [];
+    for (let skip = 0; ; skip += REVISIONS_PAGE_SIZE) {
+        const page = await client.get<{ value: WorkItem[] }>(
+            `_apis/wit/workItems/${id}/revisions?$top=${REVISIONS_PAGE_SIZE}&$skip=${skip}&api-version=7.1-preview.3`
+        );
+        revisions.push(...(page.value || []));
+        if (!page.value || page.value.length < REVISIONS_PAGE_SIZE) return revisions;
+    }
+}
+
+export function getSprintBurndownTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getSprintBurndown",
+        annotations: { title: "Get Sprint Burndown", readOnlyHint: true },
+        schema: {
+            ...teamScopeSchema,
+            iteration: iterationParamSchema,
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            iteration: iterationSchema,
+            days: z.array(z.object({
+                date: z.string(),
+                remaining: z.number(),
+                ideal: z.number()
+            })),
+            truncated: z.boolean()
+        },
+        handler: async ({
+            project,
+            team,
+            iteration,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            team: string;
+            iteration?: string;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const ctx = await resolveTeamContext(client, project, team);
+                const sprint = await resolveIteration(ctx, iteration);
+                const [workItems, workingDays] = await Promise.all([
+                    fetchIterationWorkItems(ctx, sprint),
+                    fetchWorkingDays(ctx)
+                ]);
+
+                const tracked = workItems.slice(0, MAX_BURNDOWN_ITEMS);
+                const revisions = await mapWithConcurrency(tracked, BURNDOWN_CONCURRENCY, item => fetchRevisions(ctx.client, item.id));
+
+                const { start, finish } = sprintDates(sprint);
+                const lastDay = new Date(Math.min(Date.now(), finish.getTime()));
+                const sprintDays = workingDaysBetween(start, finish, workingDays);
+                const elapsedDays = sprintDays.filter(day => Date.parse(day) <= lastDay.getTime());
+
+                // Remaining work at the end of a day: each item's latest revision by then, if it was in this sprint
+                const remainingAt = (day: string) => {
+                    const cutoff = Date.parse(day) + DAY_MS;
+                    let total = 0;
+                    for (const history of revisions) {
+                        let latest: WorkItem | undefined;
+                        for (const revision of history) {
+                            const changed = Date.parse(revision.fields["System.ChangedDate"] ?? "");
+                            if (changed < cutoff) latest = revision;
+                        }
+                        if (latest &&
+                            latest.fields["System.IterationPath"] === sprint.path &&
+                            latest.fields["System.State"] !== "Removed") {
+                            total += remainingWork(latest);
+                        }
+                    }
+                    return total;
+                };
+
+                const startRemaining = sprintDays.length > 0 ? remainingAt(sprintDays[0]) : 0;
+                const days = elapsedDays.map(date => {
+                    const index = sprintDays.indexOf(date);
+                    const ideal = sprintDays.length > 1
+                        ? Math.round(startRemaining * (1 - index / (sprintDays.length - 1)) * 10) / 10
+                        : 0;
+                    return { date, remaining: remainingAt(date), ideal };
+                });
+                const truncated = workItems.length > tracked.length;
+
+                return toolResult({ iteration: toIterationOutput(sprint), days, truncated }, format, {
+                    text: () => {
+                        if (days.length === 0) return `${sprint.name} has not started yet (${formatDateRange(sprint)}).`;
+
+                        let responseText = `📉 Burndown for ${sprint.name} (${formatDateRange(sprint)})\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        for (const day of days) {
+                            responseText += `${day.date}: ${day.remaining}h remaining (ideal ${day.ideal}h)\n`;
+                        }
+                        if (truncated) responseText += `\n⚠️ Only the first ${MAX_BURNDOWN_ITEMS} work items are included.\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (days.length === 0) return `_${sprint.name} has not started yet (${formatDateRange(sprint)})._`;
+
+                        let responseText = `## Burndown for ${sprint.name}\n\n| Date | Remaining | Ideal |\n|---|---|---|\n`;
+                        for (const day of days) {
+                            responseText += `| ${day.date} | ${day.remaining}h | ${day.ideal}h |\n`;
+                        }
+                        if (truncated) responseText += `\n> Only the first ${MAX_BURNDOWN_ITEMS} work items are included.\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error computing sprint burndown: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { AdoAccount, AdoListResponse, AdoProfile } from "../interface/adoInterfaces";
+import { type AdoClientOptions, createAdoClient, DEFAULT_SERVER_URL } from "../client/adoClient";
+import type { OrganizationSettings } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { defineTool } from "./toolDefinition";
+
+// Profile and accounts live on the account service, not on dev.azure.com/{org}
+const PROFILE_URL = "https://app.vssps.visualstudio.com/_apis/profile/profiles/me?api-version=7.1-preview.3";
+const ACCOUNTS_URL = "https://app.vssps.visualstudio.com/_apis/accounts";
+
+const organizationEntrySchema = z.object({
+    name: z.string(),
+    id: z.string().optional(),
+    url: z.string().optional(),
+    allowed: z.boolean(),
+    isDefault: z.boolean(),
+    // Whether the token's user is a member; unknown when discovery failed
+    reachable: z.boolean().optional()
+});
+
+type OrganizationEntry = z.infer<typeof organizationEntrySchema>;
+
+export function listOrganizationsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listOrganizations",
+        annotations: { title: "List Organizations", readOnlyHint: true },
+        schema: {
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            organizations: z.array(organizationEntrySchema),
+            discoveryError: z.string().optional()
+        },
+        handler: async ({ format = "text" }: { format?: OutputFormat }) => {
+            try {
+                const { defaultOrganization, allowedOrganizations } = organizations;
+                const isAllowed = (name: string) => allowedOrganizations.some(org => org.toLowerCase() === name.toLowerCase());
+                const isDefault = (name: string) => name.toLowerCase() === defaultOrganization?.toLowerCase();
+
+                // Discovery needs a token that is valid for all accessible organizations;
+                // an org-scoped PAT still lets us report the configured allow-list
+                let accounts: AdoAccount[] = [];
+                let discoveryError: string | undefined;
+                try {
+                    const client = createAdoClient(token, undefined, clientOptions);
+                    const profile = await client.get<AdoProfile>(PROFILE_URL);
+                    const data = await client.get<AdoListResponse<AdoAccount>>(
+                        `${ACCOUNTS_URL}?memberId=${encodeURIComponent(profile.publicAlias)}&api-version=7.1-preview.1`
+                    );
+                    accounts = data.value || [];
+                } catch (error: unknown) {
+                    discoveryError = error instanceof Error ? error.message : "Unknown error occurred";
+                }
+
+                const entries: OrganizationEntry[] = accounts.map(account => ({
+                    name: account.accountName,
+                    id: account.accountId,
+                    url: `https://dev.azure.com/${account.accountName}`,
+                    allowed: isAllowed(account.accountName),
+                    isDefault: isDefault(account.accountName),
+                    reachable: true
+                }));
+                for (const name of allowedOrganizations) {
+                    if (entries.some(entry => entry.name.toLowerCase() === name.toLowerCase())) continue;
+                    entries.push({
+                        name,
+                        url: `${clientOptions.serverUrl || DEFAULT_SERVER_URL}/${name}`,
+                        allowed: true,
+                        isDefault: isDefault(name),
+                        reachable: discoveryError ? undefined : false
+                    });
+                }
+                entries.sort((a, b) => Number(b.allowed) - Number(a.allowed) || a.name.localeCompare(b.name));
+
+                const status = (entry: OrganizationEntry) => [
+                    entry.isDefault ? "default" : undefined,
+                    entry.allowed ? "allowed" : "not allowed on this server",
+                    entry.reachable === false ? "token has no access" : undefined
+                ].filter(Boolean).join(", ");
+
+                return toolResult({ organizations: entries, discoveryError }, format, {
+                    text: () => {
+                        let responseText = `Found ${entries.length} organizations\n\n`;
+                        entries.forEach((entry, index) => {
+                            responseText += `${index + 1}. ${entry.name} (${status(entry)})\n`;
+                            if (entry.url) responseText += `   URL: ${entry.url}\n`;
+                            responseText += "\n";
+                        });
+                        if (discoveryError) {
+                            responseText += `⚠️ Could not discover organizations for this token (${discoveryError}); showing the configured ones only.\n`;
+                        }
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## Organizations (${entries.length})\n\n`;
+                        for (const entry of entries) {
+                            responseText += `- **${entry.name}** — ${status(entry)}\n`;
+                        }
+                        if (discoveryError) {
+                            responseText += `\n> Could not discover organizations for this token (${discoveryError}); showing the configured ones only.\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error listing organizations: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
@@ -0,0 +1,492 @@
+import { z } from "zod";
+import type {
+    AdoListResponse,
+    Build,
+    BuildDefinitionReference,
+    BuildLog,
+    PipelineRun,
+    TimelineRecord
+} from "../interface/adoInterfaces";
+import { type AdoClient, type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type BuildSummary, buildSummarySchema, describeBuild, toBuildSummary } from "../utils/builds";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { resolveByName } from "../utils/nameMatching";
+import { escapeMarkdownCell, resolveProjectId } from "./adoTools";
+import { defineTool } from "./toolDefinition";
+
+// Log tails are for an LLM to read: a few failed tasks, a bounded number of lines and characters each
+const MAX_FAILED_TASK_LOGS = 3;
+const MAX_LOG_TAIL_CHARS = 6000;
+// Azure Pipelines prefixes every log line with an ISO timestamp
+const LOG_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d+Z /;
+// ANSI colour codes in task output; built from a string as regex literals may not contain control characters
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, "g");
+
+const projectParamSchema = z.string().describe("The name or ID of the Azure DevOps project (fuzzy match supported)");
+
+const pipelineSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    path: z.string(),
+    queueStatus: z.string().optional(),
+    latestRun: buildSummarySchema.optional()
+});
+
+const failedTaskSchema = z.object({
+    name: z.string(),
+    job: z.string().optional(),
+    issues: z.array(z.string()),
+    logTail: z.string().optional(),
+    logLines: z.number().optional()
+});
+
+/**
+ * Resolves a pipeline (build definition) by ID, name or folder path (fuzzy).
+ */
+async function resolvePipeline(client: AdoClient, projectId: string, pipeline: string): Promise<BuildDefinitionReference> {
+    const data = await client.get<AdoListResponse<BuildDefinitionReference>>(`${projectId}/_apis/build/definitions?api-version=7.1`);
+    return resolveByName(data.value || [], pipeline, {
+        kind: "pipeline",
+        names: d => [d.name, `${d.path}\\${d.name}`.replace(/^\\+/, "")],
+        id: d => String(d.id)
+    });
+}
+
+/**
+ * Keeps the end of a log, where the failure usually is: at most `lines` lines and MAX_LOG_TAIL_CHARS characters,
+ * without timestamps or colour codes.
+ */
+function trimLogTail(log: string, lines: number): string {
+    const cleaned = log.split(/\r?\n/).map(line => line.replace(LOG_TIMESTAMP, "").replace(ANSI_ESCAPE, ""));
+    while (cleaned.length > 0 && cleaned[cleaned.length - 1].trim() === "") cleaned.pop();
+
+    const tail = cleaned.slice(-lines).join("\n");
+    return tail.length > MAX_LOG_TAIL_CHARS ? `…${tail.slice(-MAX_LOG_TAIL_CHARS)}` : tail;
+}
+
+function buildOutcome(build: BuildSummary): string {
+    return build.status === "completed" ? build.result ?? "completed" : build.status;
+}
+
+export function listPipelinesTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listPipelines",
+        annotations: { title: "List Pipelines", readOnlyHint: true },
+        schema: {
+            project: projectParamSchema,
+            name: z.string().optional().describe("Only pipelines whose name contains this text"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            count: z.number(),
+            pipelines: z.array(pipelineSchema)
+        },
+        handler: async ({ project, name, organization, format = "text" }: { project: string; name?: string; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const nameFilter = name ? `&name=${encodeURIComponent(`*${name}*`)}` : "";
+                const data = await client.get<AdoListResponse<BuildDefinitionReference>>(
+                    `${projectId}/_apis/build/definitions?includeLatestBuilds=true&queryOrder=definitionNameAscending${nameFilter}&api-version=7.1`
+                );
+                const pipelines = (data.value || []).map(definition => ({
+                    id: definition.id,
+                    name: definition.name,
+                    path: definition.path,
+                    queueStatus: definition.queueStatus,
+                    latestRun: definition.latestBuild && toBuildSummary(definition.latestBuild)
+                }));
+
+                return toolResult({ count: pipelines.length, pipelines }, format, {
+                    text: () => {
+                        if (pipelines.length === 0) return "No pipelines found in this project.";
+
+                        let responseText = `Found ${pipelines.length} pipelines\n\n`;
+                        pipelines.forEach((pipeline, index) => {
+                            responseText += `${index + 1}. ${pipeline.name} (ID: ${pipeline.id})\n`;
+                            responseText += `   Folder: ${pipeline.path}\n`;
+                            if (pipeline.queueStatus && pipeline.queueStatus !== "enabled") {
+                                responseText += `   Queue Status: ${pipeline.queueStatus}\n`;
+                            }
+                            if (pipeline.latestRun) {
+                                responseText += `   Latest Run: #${pipeline.latestRun.buildNumber} — ${buildOutcome(pipeline.latestRun)} (${pipeline.latestRun.sourceBranch})\n`;
+                            }
+                            responseText += "\n";
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (pipelines.length === 0) return "_No pipelines found in this project._";
+
+                        let responseText = `## Pipelines (${pipelines.length})\n\n| ID | Name | Folder | Latest Run |\n|---|---|---|---|\n`;
+                        for (const pipeline of pipelines) {
+                            const latest = pipeline.latestRun
+                                ? `[#${pipeline.latestRun.buildNumber}](${pipeline.latestRun.webUrl}) ${buildOutcome(pipeline.latestRun)}`
+                                : "";
+                            responseText += `| ${pipeline.id} | ${escapeMarkdownCell(pipeline.name)} | ${escapeMarkdownCell(pipeline.path)} | ${latest} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching pipelines: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function listPipelineRunsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listPipelineRuns",
+        annotations: { title: "List Pipeline Runs", readOnlyHint: true },
+        schema: {
+            project: projectParamSchema,
+            pipeline: z.string().optional().describe("Pipeline name or ID (fuzzy match supported; default: all pipelines)"),
+            branch: z.string().optional().describe("Only runs of this branch (e.g., 'main' or 'refs/heads/main')"),
+            result: z.enum(["succeeded", "partiallySucceeded", "failed", "canceled"]).optional()
+                .describe("Only completed runs with this result"),
+            top: z.number().int().min(1).max(100).optional().default(20).describe("Maximum number of runs to return (default: 20)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            count: z.number(),
+            runs: z.array(buildSummarySchema)
+        },
+        handler: async ({
+            project,
+            pipeline,
+            branch,
+            result,
+            top = 20,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            pipeline?: string;
+            branch?: string;
+            result?: "succeeded" | "partiallySucceeded" | "failed" | "canceled";
+            top?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+
+                const params = new URLSearchParams({ queryOrder: "queueTimeDescending", $top: String(top), "api-version": "7.1" });
+                if (pipeline) params.set("definitions", String((await resolvePipeline(client, projectId, pipeline)).id));
+                if (branch) params.set("branchName", branch.startsWith("refs/") ? branch : `refs/heads/${branch}`);
+                if (result) params.set("resultFilter", result);
+
+                const data = await client.get<AdoListResponse<Build>>(`${projectId}/_apis/build/builds?${params}`);
+                const runs = (data.value || []).map(toBuildSummary);
+
+                return toolResult({ count: runs.length, runs }, format, {
+                    text: () => {
+                        if (runs.length === 0) return "No pipeline runs found matching the criteria.";
+
+                        let responseText = `Found ${runs.length} pipeline runs\n\n`;
+                        runs.forEach((run, index) => {
+                            responseText += `${index + 1}. ${describeBuild(run)}\n`;
+                            responseText += `   Run ID: ${run.id}\n`;
+                            if (run.requestedFor) responseText += `   Requested For: ${run.requestedFor}${run.reason ? ` (${run.reason})` : ""}\n`;
+                            if (run.queueTime) responseText += `   Queued: ${new Date(run.queueTime).toLocaleString()}\n`;
+                            responseText += `   URL: ${run.webUrl}\n\n`;
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (runs.length === 0) return "_No pipeline runs found matching the criteria._";
+
+                        let responseText = `## Pipeline Runs (${runs.length})\n\n| Run | Pipeline | Result | Branch | Requested For | Queued |\n|---|---|---|---|---|---|\n`;
+                        for (const run of runs) {
+                            responseText += `| [#${run.buildNumber}](${run.webUrl}) | ${escapeMarkdownCell(run.pipeline)} | ${buildOutcome(run)} | \`${run.sourceBranch}\` | ${run.requestedFor ?? ""} | ${run.queueTime ?? ""} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching pipeline runs: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function getPipelineRunTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getPipelineRun",
+        annotations: { title: "Get Pipeline Run", readOnlyHint: true },
+        schema: {
+            project: projectParamSchema,
+            runId: z.number().describe("The ID of the pipeline run (build ID)"),
+            logLines: z.number().int().min(1).max(500).optional().default(50)
+                .describe("How many lines of each failed task's log to return (default: 50, max: 500)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            run: buildSummarySchema,
+            stages: z.array(z.object({
+                name: z.string(),
+                type: z.string(),
+                state: z.string().optional(),
+                result: z.string().optional()
+            })),
+            failedTasks: z.array(failedTaskSchema)
+        },
+        handler: async ({
+            project,
+            runId,
+            logLines = 50,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            runId: number;
+            logLines?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const buildPath = `${projectId}/_apis/build/builds/${runId}`;
+
+                const [build, timeline] = await Promise.all([
+                    client.get<Build>(`${buildPath}?api-version=7.1`),
+                    // A run that has not started yet has no timeline
+                    client.get<{ records: TimelineRecord[] } | undefined>(`${buildPath}/timeline?api-version=7.1`)
+                ]);
+                const records = (timeline?.records ?? []).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+                const byId = new Map(records.map(record => [record.id, record]));
+
+                const stages = records
+                    .filter(record => record.type === "Stage" || record.type === "Job")
+                    .map(record => ({
+                        name: record.name,
+                        type: record.type,
+                        state: record.state,
+                        result: record.result ?? undefined
+                    }));
+
+                const failedRecords = records.filter(record => record.type === "Task" && record.result === "failed");
+                const withLogs = failedRecords.filter(record => record.log).slice(0, MAX_FAILED_TASK_LOGS);
+
+                // The logs list gives line counts, so only the tail of each log is downloaded
+                const logs = withLogs.length > 0
+                    ? new Map((await client.get<AdoListResponse<BuildLog>>(`${buildPath}/logs?api-version=7.1`)).value.map(log => [log.id, log]))
+                    : new Map<number, BuildLog>();
+                const tails = new Map<string, { tail: string; lines: number }>();
+                for (const record of withLogs) {
+                    const logId = record.log?.id;
+                    if (logId === undefined) continue;
+                    const lineCount = logs.get(logId)?.lineCount ?? 0;
+                    const startLine = Math.max(1, lineCount - logLines + 1);
+                    try {
+                        const text = await client.get<string>(
+                            `${buildPath}/logs/${logId}?startLine=${startLine}&api-version=7.1`,
+                            { responseType: "text" }
+                        );
+                        tails.set(record.id, { tail: trimLogTail(text, logLines), lines: lineCount });
+                    } catch {
+                        // The run is still worth reporting; this task just goes without its log tail
+                    }
+                }
+
+                const failedTasks = failedRecords.map(record => ({
+                    name: record.name,
+                    job: record.parentId ? byId.get(record.parentId)?.name : undefined,
+                    issues: (record.issues ?? []).filter(issue => issue.type === "error").map(issue => issue.message),
+                    logTail: tails.get(record.id)?.tail,
+                    logLines: tails.get(record.id)?.lines
+                }));
+                const run = toBuildSummary(build);
+                const omittedLogs = failedRecords.filter(record => record.log).length - withLogs.length;
+
+                return toolResult({ run, stages, failedTasks }, format, {
+                    text: () => {
+                        let responseText = `🏗️ ${describeBuild(run)}\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        if (run.requestedFor) responseText += `👤 Requested For: ${run.requestedFor}${run.reason ? ` (${run.reason})` : ""}\n`;
+                        if (run.finishTime) responseText += `🏁 Finished: ${new Date(run.finishTime).toLocaleString()}\n`;
+                        responseText += `🔗 URL: ${run.webUrl}\n\n`;
+
+                        if (stages.length > 0) {
+                            responseText += "📋 Timeline:\n";
+                            for (const stage of stages) {
+                                responseText += `   ${stage.type === "Job" ? "   " : ""}${stage.name}: ${stage.result ?? stage.state ?? "pending"}\n`;
+                            }
+                            responseText += "\n";
+                        }
+
+                        for (const task of failedTasks) {
+                            responseText += `❌ Failed Task: ${task.name}${task.job ? ` (job: ${task.job})` : ""}\n`;
+                            for (const issue of task.issues) responseText += `   ${issue}\n`;
+                            if (task.logTail) {
+                                responseText += `\n   Last lines of the log (${task.logLines} lines total):\n`;
+                                responseText += `${task.logTail}\n`;
+                            }
+                            responseText += "-".repeat(50) + "\n";
+                        }
+                        if (omittedLogs > 0) responseText += `⚠️ Logs of ${omittedLogs} more failed tasks omitted.\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## ${describeBuild(run)}\n\n`;
+                        if (run.requestedFor) responseText += `- **Requested For:** ${run.requestedFor}${run.reason ? ` (${run.reason})` : ""}\n`;
+                        if (run.finishTime) responseText += `- **Finished:** ${run.finishTime}\n`;
+                        responseText += `- **URL:** ${run.webUrl}\n\n`;
+
+                        if (stages.length > 0) {
+                            responseText += "### Timeline\n\n";
+                            for (const stage of stages) {
+                                responseText += `${stage.type === "Job" ? "  " : ""}- ${stage.name}: **${stage.result ?? stage.state ?? "pending"}**\n`;
+                            }
+                            responseText += "\n";
+                        }
+
+                        for (const task of failedTasks) {
+                            responseText += `### Failed: ${task.name}${task.job ? ` (job: ${task.job})` : ""}\n\n`;
+                            for (const issue of task.issues) responseText += `- ${issue}\n`;
+                            if (task.logTail) {
+                                responseText += `\nLast lines of the log (${task.logLines} lines total):\n\n\`\`\`\n${task.logTail}\n\`\`\`\n`;
+                            }
+                            responseText += "\n";
+                        }
+                        if (omittedLogs > 0) responseText += `> Logs of ${omittedLogs} more failed tasks omitted.\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching pipeline run: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function queuePipelineRunTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "queuePipelineRun",
+        annotations: { title: "Queue Pipeline Run", readOnlyHint: false, destructiveHint: false },
+        schema: {
+            project: projectParamSchema,
+            pipeline: z.string().describe("Pipeline name or ID (fuzzy match supported)"),
+            branch: z.string().optional().describe("Branch to run (default: the pipeline's default branch)"),
+            parameters: z.record(z.string(), z.string()).optional()
+                .describe("Runtime parameters declared by the YAML pipeline, e.g. { \"environment\": \"staging\" }"),
+            variables: z.record(z.string(), z.string()).optional()
+                .describe("Values for variables marked 'settable at queue time'"),
+            confirm: z.boolean().optional().default(false)
+                .describe("Must be true to actually queue the run; otherwise only a preview is returned"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            queued: z.boolean(),
+            pipeline: z.object({ id: z.number(), name: z.string() }),
+            branch: z.string().optional(),
+            parameters: z.record(z.string(), z.string()),
+            variables: z.record(z.string(), z.string()),
+            run: z.object({
+                id: z.number(),
+                name: z.string(),
+                state: z.string(),
+                webUrl: z.string()
+            }).optional()
+        },
+        handler: async ({
+            project,
+            pipeline,
+            branch,
+            parameters = {},
+            variables = {},
+            confirm = false,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            pipeline: string;
+            branch?: string;
+            parameters?: Record<string, string>;
+            variables?: Record<string, string>;
+            confirm?: boolean;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const definition = await resolvePipeline(client, projectId, pipeline);
+                const refName = branch ? (branch.startsWith("refs/") ? branch : `refs/heads/${branch}`) : undefined;
+                const summary = {
+                    pipeline: { id: definition.id, name: definition.name },
+                    branch: refName?.replace(/^refs\/heads\//, ""),
+                    parameters,
+                    variables
+                };
+                const describeInputs = (separator: string) => [
+                    ...Object.entries(parameters).map(([key, value]) => `parameter ${key}=${value}`),
+                    ...Object.entries(variables).map(([key, value]) => `variable ${key}=${value}`)
+                ].join(separator);
+
+                // Queuing starts real work (deployments, releases); require an explicit second call
+                if (!confirm) {
+                    return toolResult({ queued: false, ...summary }, format, {
+                        text: () => {
+                            let responseText = `⏸️ Not queued. This would run "${definition.name}" on ${summary.branch ?? "its default branch"}`;
+                            if (describeInputs(", ")) responseText += ` with ${describeInputs(", ")}`;
+                            return `${responseText}.\nCall queuePipelineRun again with confirm: true to queue it.\n`;
+                        },
+                        markdown: () => {
+                            let responseText = `**Not queued.** This would run **${definition.name}** on \`${summary.branch ?? "default branch"}\``;
+                            if (describeInputs(", ")) responseText += ` with ${describeInputs(", ")}`;
+                            return `${responseText}.\n\nCall \`queuePipelineRun\` again with \`confirm: true\` to queue it.\n`;
+                        }
+                    });
+                }
+
+                const created = await client.post<PipelineRun>(`${projectId}/_apis/pipelines/${definition.id}/runs?api-version=7.1`, {
+                    ...(refName ? { resources: { repositories: { self: { refName } } } } : {}),
+                    templateParameters: parameters,
+                    variables: Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, { value }]))
+                });
+                const run = {
+                    id: created.id,
+                    name: created.name,
+                    state: created.state,
+                    webUrl: created._links?.web?.href ?? created.url
+                };
+
+                return toolResult({ queued: true, ...summary, run }, format, {
+                    text: () => `🚀 Queued "${definition.name}" run #${run.name} (ID: ${run.id}) on ${summary.branch ?? "the default branch"}\n🔗 URL: ${run.webUrl}\n`,
+                    markdown: () => `Queued **${definition.name}** run [#${run.name}](${run.webUrl}) (ID: ${run.id}) on \`${summary.branch ?? "default branch"}\`\n`
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error queuing pipeline run: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
@@ -0,0 +1,252 @@
+import { z } from "zod";
+import type {
+    QueryHierarchyItem,
+    WorkItem,
+    WorkItemLink,
+    WorkItemQueryResult
+} from "../interface/adoInterfaces";
+import { toWorkItemOutput, workItemLinkSchema, workItemSchema } from "../interface/adoSchemas";
+import { type AdoClient, type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { fetchWorkItemsInBatches, resolveProjectId, resolveTeamId } from "./adoTools";
+import { defineTool } from "./toolDefinition";
+
+const GUID_PATTERN = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+const queryResultOutputSchema = {
+    queryType: z.string(),
+    total: z.number(),
+    workItems: z.array(workItemSchema),
+    relations: z.array(workItemLinkSchema)
+};
+
+function formatWorkItemLine(item: WorkItem | undefined, id: number, indent = "", format: "text" | "markdown" = "text"): string {
+    if (!item) return `${indent}#${id} (not accessible)\n`;
+    const fields = item.fields;
+    const title = format === "markdown" ? `**${fields["System.Title"]}**` : fields["System.Title"];
+    return `${indent}[${fields["System.WorkItemType"]}] ${title} (#${item.id}, ${fields["System.State"]})\n`;
+}
+
+/**
+ * Collects the work item IDs referenced by a query result, in result order.
+ * Flat queries list them in `workItems`; tree and one-hop queries in `workItemRelations`.
+ */
+function collectResultIds(result: WorkItemQueryResult): number[] {
+    const ids = new Set<number>();
+    for (const ref of result.workItems ?? []) ids.add(ref.id);
+    for (const link of result.workItemRelations ?? []) {
+        if (link.source) ids.add(link.source.id);
+        ids.add(link.target.id);
+    }
+    return [...ids];
+}
+
+/**
+ * Renders tree links indented by depth. `top` can cut a tree apart, so every hydrated item is shown:
+ * children whose parent was cut off, and items no remaining link leads to, are shown as roots.
+ */
+function renderTree(links: WorkItemLink[], items: Map<number, WorkItem>, format: "text" | "markdown"): string {
+    const children = new Map<number | null, number[]>();
+    for (const link of links) {
+        const parent = link.source && items.has(link.source.id) ? link.source.id : null;
+        const list = children.get(parent) ?? [];
+        children.set(parent, list);
+        list.push(link.target.id);
+    }
+
+    let text = "";
+    const shown = new Set<number>();
+    const visit = (id: number, depth: number, seen: Set<number>) => {
+        const indent = format === "markdown" ? `${"  ".repeat(depth)}- ` : "   ".repeat(depth);
+        text += formatWorkItemLine(items.get(id), id, indent, format);
+        shown.add(id);
+        if (seen.has(id)) return;
+        seen.add(id);
+        for (const child of children.get(id) ?? []) visit(child, depth + 1, seen);
+    };
+    for (const root of children.get(null) ?? []) visit(root, 0, new Set());
+    for (const id of items.keys()) {
+        if (!shown.has(id)) visit(id, 0, new Set());
+    }
+    return text;
+}
+
+function renderOneHop(links: WorkItemLink[], items: Map<number, WorkItem>, format: "text" | "markdown"): string {
+    let text = "";
+    for (const link of links) {
+        if (!link.source) {
+            text += formatWorkItemLine(items.get(link.target.id), link.target.id, format === "markdown" ? "- " : "", format);
+        } else {
+            const indent = format === "markdown" ? `  - _${link.rel ?? "linked"}_: ` : `   ↳ ${link.rel ?? "linked"}: `;
+            text += formatWorkItemLine(items.get(link.target.id), link.target.id, indent, format);
+        }
+    }
+    return text;
+}
+
+/**
+ * Hydrates a WIQL result and builds the tool result, rendered according to its result type.
+ * - flat: one line per work item
+ * - tree: indented by parent/child depth
+ * - oneHop: each source followed by its linked targets and the link type
+ */
+async function queryResult(client: AdoClient, result: WorkItemQueryResult, top: number, format: OutputFormat, heading?: string) {
+    const allIds = collectResultIds(result);
+    const ids = allIds.slice(0, top);
+    const workItems = ids.length > 0 ? await fetchWorkItemsInBatches(client, ids, "none") : [];
+    const items = new Map(workItems.map(item => [item.id, item]));
+    const visibleLinks = (result.workItemRelations ?? []).filter(link => items.has(link.target.id));
+
+    const structured = {
+        queryType: result.queryType,
+        total: allIds.length,
+        workItems: workItems.map(toWorkItemOutput),
+        relations: visibleLinks
+    };
+
+    const render = (style: "text" | "markdown") => {
+        let responseText = heading ? (style === "markdown" ? `## ${heading}\n\n` : `🔎 ${heading}\n`) : "";
+        if (allIds.length === 0) return `${responseText}No work items found matching the query.`;
+
+        responseText += style === "markdown"
+            ? `Found ${allIds.length} work items (${result.queryType} query)\n\n`
+            : `Found ${allIds.length} work items (${result.queryType} query)\n${"=".repeat(50)}\n\n`;
+
+        if (result.queryType === "tree") {
+            responseText += renderTree(visibleLinks, items, style);
+        } else if (result.queryType === "oneHop") {
+            responseText += renderOneHop(visibleLinks, items, style);
+        } else {
+            ids.forEach((id, index) => {
+                responseText += `${index + 1}. ${formatWorkItemLine(items.get(id), id, "", style)}`;
+            });
+        }
+
+        if (allIds.length > ids.length) {
+            responseText += `\nShowing the first ${ids.length} of ${allIds.length} work items. Increase top to see more.\n`;
+        }
+        return responseText;
+    };
+
+    return toolResult(structured, format, {
+        text: () => render("text"),
+        markdown: () => render("markdown")
+    });
+}
+
+export function runWiqlTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "runWiql",
+        annotations: { title: "Run WIQL Query", readOnlyHint: true },
+        schema: {
+            query: z.string().min(1).describe("The WIQL query to run (flat, tree or one-hop)"),
+            project: z.string().optional().describe("The name or ID of the project the query is scoped to, required for @Project (fuzzy match supported)"),
+            team: z.string().optional().describe("The name or ID of the team, required for @CurrentIteration (fuzzy match supported)"),
+            top: z.number().int().min(1).max(1000).optional().default(200).describe("Maximum number of work items to return (default: 200, max: 1000)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: queryResultOutputSchema,
+        handler: async ({
+            query,
+            project,
+            team,
+            top = 200,
+            organization,
+            format = "text"
+        }: {
+            query: string;
+            project?: string;
+            team?: string;
+            top?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                // Team macros such as @CurrentIteration resolve against the team in the URL, which needs the project
+                if (team && !project) throw new Error("team requires project: give the project the team belongs to.");
+                const projectId = project ? await resolveProjectId(client, project) : undefined;
+                const teamId = team && projectId ? await resolveTeamId(client, projectId, team) : undefined;
+
+                const projectPath = projectId ? `${projectId}/` : "";
+                const teamPath = teamId ? `${teamId}/` : "";
+                const result = await client.post<WorkItemQueryResult>(
+                    `${projectPath}${teamPath}_apis/wit/wiql?$top=${top}&api-version=7.1-preview.2`,
+                    { query },
+                    { idempotent: true }
+                );
+                return await queryResult(client, result, top, format);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error running WIQL query: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function runSavedQueryTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "runSavedQuery",
+        annotations: { title: "Run Saved Query", readOnlyHint: true },
+        schema: {
+            project: z.string().describe("The name or ID of the project that owns the query (fuzzy match supported)"),
+            query: z.string().min(1).describe("The query ID, or its path (e.g., 'Shared Queries/Bugs/Active Bugs' or 'My Queries/Assigned to me')"),
+            team: z.string().optional().describe("The name or ID of the team, required when the query uses @CurrentIteration (fuzzy match supported)"),
+            top: z.number().int().min(1).max(1000).optional().default(200).describe("Maximum number of work items to return (default: 200, max: 1000)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: queryResultOutputSchema,
+        handler: async ({
+            project,
+            query,
+            team,
+            top = 200,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            query: string;
+            team?: string;
+            top?: number;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const teamId = team ? await resolveTeamId(client, projectId, team) : undefined;
+
+                // Look up the stored query so paths resolve to IDs and folders are rejected
+                const queryRef = GUID_PATTERN.test(query)
+                    ? query
+                    : query.split("/").filter(Boolean).map(encodeURIComponent).join("/");
+                const savedQuery = await client.get<QueryHierarchyItem>(
+                    `${projectId}/_apis/wit/queries/${queryRef}?api-version=7.1-preview.2`
+                );
+                if (savedQuery.isFolder) {
+                    throw new Error(`"${savedQuery.path}" is a query folder, not a query.`);
+                }
+
+                const teamPath = teamId ? `${teamId}/` : "";
+                const result = await client.get<WorkItemQueryResult>(
+                    `${projectId}/${teamPath}_apis/wit/wiql/${savedQuery.id}?$top=${top}&api-version=7.1-preview.2`
+                );
+                return await queryResult(client, result, top, format, savedQuery.path);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error running saved query: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
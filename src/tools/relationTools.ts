@@ -0,0 +1,280 @@
+import { z } from "zod";
+import type { JsonPatchOperation, WorkItem, WorkItemTreeNode } from "../interface/adoInterfaces";
+import { type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import {
+    WORK_ITEM_LINK_TYPES,
+    type WorkItemLinkType,
+    workItemIdFromUrl
+} from "../utils/workItemRelations";
+import {
+    fetchWorkItemComments,
+    fetchWorkItemsInBatches,
+    savedWorkItemOutputSchema,
+    savedWorkItemResult,
+    sendWorkItemPatch
+} from "./adoTools";
+import { defineTool } from "./toolDefinition";
+
+// Upper bound on nodes a single tree walk hydrates, so a large Epic cannot exhaust the Worker
+const MAX_TREE_NODES = 500;
+
+const treeNodeSchema: z.ZodType<WorkItemTreeNode> = z.lazy(() => z.object({
+    id: z.number(),
+    title: z.string(),
+    type: z.string(),
+    state: z.string(),
+    assignedTo: z.string().optional(),
+    children: z.array(treeNodeSchema)
+}));
+
+const linkTypeSchema = z.enum(Object.keys(WORK_ITEM_LINK_TYPES) as [WorkItemLinkType, ...WorkItemLinkType[]])
+    .describe("Link type, seen from the source work item (e.g., 'parent' makes the target the parent of the source)");
+
+function childIds(workItem: WorkItem): number[] {
+    return (workItem.relations ?? [])
+        .filter(relation => relation.rel === WORK_ITEM_LINK_TYPES.child)
+        .map(relation => workItemIdFromUrl(relation.url))
+        .filter((id): id is number => id !== undefined);
+}
+
+function toTreeNode(workItem: WorkItem): WorkItemTreeNode {
+    return {
+        id: workItem.id,
+        title: workItem.fields["System.Title"],
+        type: workItem.fields["System.WorkItemType"],
+        state: workItem.fields["System.State"],
+        assignedTo: workItem.fields["System.AssignedTo"]?.displayName,
+        children: []
+    };
+}
+
+function renderTreeNode(node: WorkItemTreeNode, depth: number, format: "text" | "markdown"): string {
+    const assignee = node.assignedTo ? ` — ${node.assignedTo}` : "";
+    const line = format === "markdown"
+        ? `${"  ".repeat(depth)}- [${node.type}] **${node.title}** (#${node.id}, ${node.state})${assignee}\n`
+        : `${"   ".repeat(depth)}[${node.type}] ${node.title} (#${node.id}, ${node.state})${assignee}\n`;
+    return line + node.children.map(child => renderTreeNode(child, depth + 1, format)).join("");
+}
+
+export function getWorkItemTreeTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getWorkItemTree",
+        annotations: { title: "Get Work Item Tree", readOnlyHint: true },
+        schema: {
+            id: z.number().describe("The ID of the root work item (e.g., an Epic or Feature)"),
+            depth: z.number().int().min(1).max(6).optional().default(3)
+                .describe("How many levels of children to walk (default: 3, max: 6)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            root: treeNodeSchema,
+            total: z.number(),
+            stateCounts: z.record(z.string(), z.record(z.string(), z.number())),
+            truncated: z.boolean()
+        },
+        handler: async ({ id, depth = 3, organization, format = "text" }: { id: number; depth?: number; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const [rootItem] = await fetchWorkItemsInBatches(client, [id], "relations");
+                if (!rootItem) throw new Error(`Work item ${id} not found or not accessible.`);
+
+                // Walk the hierarchy breadth-first, one batched request per level
+                const root = toTreeNode(rootItem);
+                const seen = new Set([rootItem.id]);
+                let level: { item: WorkItem; node: WorkItemTreeNode }[] = [{ item: rootItem, node: root }];
+                let truncated = false;
+
+                for (let d = 0; d < depth && level.length > 0; d++) {
+                    const pending = level.flatMap(({ item }) => childIds(item)).filter(childId => !seen.has(childId));
+                    const allowed = pending.slice(0, Math.max(0, MAX_TREE_NODES - seen.size));
+                    if (allowed.length < pending.length) truncated = true;
+                    allowed.forEach(childId => seen.add(childId));
+
+                    const children = new Map((await fetchWorkItemsInBatches(client, allowed, "relations")).map(item => [item.id, item]));
+                    const next: typeof level = [];
+                    for (const { item, node } of level) {
+                        for (const childId of childIds(item)) {
+                            const child = children.get(childId);
+                            if (!child) continue;
+                            const childNode = toTreeNode(child);
+                            node.children.push(childNode);
+                            next.push({ item: child, node: childNode });
+                            children.delete(childId);
+                        }
+                    }
+                    level = next;
+                }
+
+                // Roll up state counts per work item type, excluding the root
+                const stateCounts: Record<string, Record<string, number>> = {};
+                let total = 0;
+                const count = (node: WorkItemTreeNode) => {
+                    for (const child of node.children) {
+                        stateCounts[child.type] ??= {};
+                        stateCounts[child.type][child.state] = (stateCounts[child.type][child.state] ?? 0) + 1;
+                        total++;
+                        count(child);
+                    }
+                };
+                count(root);
+
+                const renderCounts = (style: "text" | "markdown") => Object.entries(stateCounts)
+                    .map(([type, states]) => {
+                        const summary = Object.entries(states).map(([state, n]) => `${state}: ${n}`).join(", ");
+                        return style === "markdown" ? `- **${type}:** ${summary}\n` : `   ${type}: ${summary}\n`;
+                    })
+                    .join("");
+
+                return toolResult({ root, total, stateCounts, truncated }, format, {
+                    text: () => {
+                        let responseText = `🌳 Work Item Tree for #${id} (${total} descendants)\n`;
+                        responseText += "=".repeat(50) + "\n\n";
+                        responseText += renderTreeNode(root, 0, "text");
+                        if (total > 0) responseText += `\n📊 Rollup:\n${renderCounts("text")}`;
+                        if (truncated) responseText += `\n⚠️ Stopped after ${MAX_TREE_NODES} work items.\n`;
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## Work Item Tree for #${id} (${total} descendants)\n\n`;
+                        responseText += renderTreeNode(root, 0, "markdown");
+                        if (total > 0) responseText += `\n### Rollup\n\n${renderCounts("markdown")}`;
+                        if (truncated) responseText += `\n> Stopped after ${MAX_TREE_NODES} work items.\n`;
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching work item tree: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function linkWorkItemsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "linkWorkItems",
+        annotations: { title: "Link Work Items", readOnlyHint: false, destructiveHint: false },
+        schema: {
+            sourceId: z.number().describe("The ID of the work item to add the link to"),
+            targetId: z.number().describe("The ID of the work item to link to"),
+            linkType: linkTypeSchema,
+            comment: z.string().optional().describe("Optional comment stored on the link"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: savedWorkItemOutputSchema,
+        handler: async ({
+            sourceId,
+            targetId,
+            linkType,
+            comment,
+            organization,
+            format = "text"
+        }: {
+            sourceId: number;
+            targetId: number;
+            linkType: WorkItemLinkType;
+            comment?: string;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                if (sourceId === targetId) throw new Error("A work item cannot be linked to itself.");
+
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const patch: JsonPatchOperation[] = [{
+                    op: "add",
+                    path: "/relations/-",
+                    value: {
+                        rel: WORK_ITEM_LINK_TYPES[linkType],
+                        url: `${client.baseUrl}/_apis/wit/workItems/${targetId}`,
+                        ...(comment ? { attributes: { comment } } : {})
+                    }
+                }];
+
+                const workItem = await sendWorkItemPatch(client, `_apis/wit/workitems/${sourceId}?$expand=relations&api-version=7.1-preview.3`, "PATCH", patch);
+                const comments = await fetchWorkItemComments(client, sourceId);
+
+                return savedWorkItemResult(`🔗 Linked #${sourceId} → #${targetId} (${linkType})`, workItem, comments, format);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error linking work items: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function unlinkWorkItemsTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "unlinkWorkItems",
+        annotations: { title: "Unlink Work Items", readOnlyHint: false, destructiveHint: true },
+        schema: {
+            sourceId: z.number().describe("The ID of the work item to remove the link from"),
+            targetId: z.number().describe("The ID of the linked work item"),
+            linkType: linkTypeSchema.optional().describe("Only remove links of this type (default: any link to the target)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: savedWorkItemOutputSchema,
+        handler: async ({
+            sourceId,
+            targetId,
+            linkType,
+            organization,
+            format = "text"
+        }: {
+            sourceId: number;
+            targetId: number;
+            linkType?: WorkItemLinkType;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const [source] = await fetchWorkItemsInBatches(client, [sourceId], "relations");
+                if (!source) throw new Error(`Work item ${sourceId} not found or not accessible.`);
+
+                const indexes = (source.relations ?? [])
+                    .map((relation, index) => ({ relation, index }))
+                    .filter(({ relation }) =>
+                        workItemIdFromUrl(relation.url) === targetId &&
+                        (!linkType || relation.rel === WORK_ITEM_LINK_TYPES[linkType]))
+                    .map(({ index }) => index);
+
+                if (indexes.length === 0) {
+                    throw new Error(`#${sourceId} has no ${linkType ? `${linkType} ` : ""}link to #${targetId}.`);
+                }
+
+                // Remove from the highest index down so earlier removals don't shift later ones;
+                // the revision test rejects the patch if the relations changed since we read them
+                const patch: JsonPatchOperation[] = [
+                    { op: "test", path: "/rev", value: source.rev },
+                    ...indexes.reverse().map((index): JsonPatchOperation => ({ op: "remove", path: `/relations/${index}` }))
+                ];
+
+                const workItem = await sendWorkItemPatch(client, `_apis/wit/workitems/${sourceId}?$expand=relations&api-version=7.1-preview.3`, "PATCH", patch);
+                const comments = await fetchWorkItemComments(client, sourceId);
+
+                return savedWorkItemResult(`✂️ Removed ${indexes.length} link(s) from #${sourceId} to #${targetId}`, workItem, comments, format);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error unlinking work items: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
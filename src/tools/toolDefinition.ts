@@ -0,0 +1,43 @@
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { z, ZodRawShape, ZodTypeAny } from "zod";
+
+// What a tool factory defines: see any of the tool modules
+export interface ToolDefinition<S extends ZodRawShape, R extends CallToolResult = CallToolResult> {
+    token: string;
+    name: string;
+    annotations: ToolAnnotations & { title: string };
+    schema: S;
+    outputSchema?: ZodRawShape;
+    // Called with the arguments as `schema` parses them
+    handler: (args: z.objectOutputType<S, ZodTypeAny>) => Promise<R>;
+}
+
+// A tool of any schema, as the registry holds it
+export interface AdoTool {
+    name: string;
+    annotations: ToolAnnotations & { title: string };
+    schema: ZodRawShape;
+    outputSchema?: ZodRawShape;
+    register(server: McpServer): void;
+}
+
+/**
+ * Checks the handler against the schema, so a handler expecting arguments the schema
+ * doesn't produce fails to compile, and pairs them for registration.
+ * The handler is also checked as the SDK's ToolCallback, which registerTool takes.
+ */
+export function defineTool<S extends ZodRawShape, R extends CallToolResult>(
+    tool: ToolDefinition<S, R> & { handler: ToolCallback<S> }
+): ToolDefinition<S, R> & Pick<AdoTool, "register"> {
+    return {
+        ...tool,
+        register(server) {
+            server.registerTool(
+                tool.name,
+                { title: tool.annotations.title, inputSchema: tool.schema, outputSchema: tool.outputSchema, annotations: tool.annotations },
+                tool.handler
+            );
+        }
+    };
+}
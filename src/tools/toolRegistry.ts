@@ -0,0 +1,150 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Env } from "../interface/adoInterfaces";
+import type { AdoClientOptions } from "../client/adoClient";
+import type { OrganizationSettings } from "../utils/organizations";
+import type { AttachmentLimits } from "../utils/attachments";
+import * as adoTools from "./adoTools";
+import * as attachmentTools from "./attachmentTools";
+import * as boardTools from "./boardTools";
+import * as cacheTools from "./cacheTools";
+import * as gitTools from "./gitTools";
+import * as historyTools from "./historyTools";
+import * as iterationTools from "./iterationTools";
+import * as organizationTools from "./organizationTools";
+import * as pipelineTools from "./pipelineTools";
+import * as queryTools from "./queryTools";
+import * as relationTools from "./relationTools";
+import * as workItemTypeTools from "./workItemTypeTools";
+import type { AdoTool } from "./toolDefinition";
+
+// Everything a factory may need; factories take the leading arguments they use
+export interface ToolContext {
+    token: string;
+    organizations: OrganizationSettings;
+    clientOptions?: AdoClientOptions;
+    attachmentLimits?: AttachmentLimits;
+}
+
+type ToolFactory = (token: string, organizations: OrganizationSettings, clientOptions?: AdoClientOptions, attachmentLimits?: AttachmentLimits) => AdoTool;
+
+// Every tool the server offers, in the order they are listed; a new tool factory must be added here
+const TOOL_FACTORIES: ToolFactory[] = [
+    adoTools.listProjectsTool,
+    adoTools.listTeamsTool,
+    adoTools.listWorkItemsTool,
+    adoTools.getWorkItemDetailsTool,
+    adoTools.createWorkItemTool,
+    adoTools.updateWorkItemTool,
+    adoTools.addWorkItemCommentTool,
+    queryTools.runWiqlTool,
+    queryTools.runSavedQueryTool,
+    relationTools.getWorkItemTreeTool,
+    relationTools.linkWorkItemsTool,
+    relationTools.unlinkWorkItemsTool,
+    historyTools.getWorkItemHistoryTool,
+    iterationTools.listIterationsTool,
+    iterationTools.getCurrentSprintTool,
+    iterationTools.listSprintWorkItemsTool,
+    iterationTools.getSprintCapacityTool,
+    iterationTools.getSprintBurndownTool,
+    boardTools.listBoardsTool,
+    boardTools.listBoardItemsTool,
+    boardTools.moveBoardItemTool,
+    boardTools.listBacklogTool,
+    organizationTools.listOrganizationsTool,
+    gitTools.listRepositoriesTool,
+    gitTools.listPullRequestsTool,
+    gitTools.getPullRequestTool,
+    gitTools.addPullRequestCommentTool,
+    gitTools.setPullRequestVoteTool,
+    pipelineTools.listPipelinesTool,
+    pipelineTools.listPipelineRunsTool,
+    pipelineTools.getPipelineRunTool,
+    pipelineTools.queuePipelineRunTool,
+    attachmentTools.listWorkItemAttachmentsTool,
+    attachmentTools.getWorkItemAttachmentTool,
+    attachmentTools.uploadWorkItemAttachmentTool,
+    workItemTypeTools.listWorkItemTypesTool,
+    workItemTypeTools.getWorkItemTypeTool,
+    cacheTools.clearCacheTool
+];
+
+// Which tools a deployment exposes: names, `*` wildcards or the groups @readonly, @write and @destructive
+export interface ToolFilter {
+    enabled: string[];
+    disabled: string[];
+}
+
+const splitList = (value?: string) => (value ?? "").split(",").map(entry => entry.trim()).filter(Boolean);
+
+/**
+ * Reads ADO_ENABLED_TOOLS (allow-list; empty means all tools) and ADO_DISABLED_TOOLS (deny-list, applied after).
+ * E.g. ADO_ENABLED_TOOLS=@readonly for a read-only deployment.
+ */
+export function toolFilterFromEnv(env: Pick<Env, "ADO_ENABLED_TOOLS" | "ADO_DISABLED_TOOLS">): ToolFilter {
+    return { enabled: splitList(env.ADO_ENABLED_TOOLS), disabled: splitList(env.ADO_DISABLED_TOOLS) };
+}
+
+function matchesToolPattern(tool: AdoTool, pattern: string): boolean {
+    switch (pattern.toLowerCase()) {
+        case "@readonly":
+            return tool.annotations.readOnlyHint === true;
+        case "@write":
+            return tool.annotations.readOnlyHint !== true;
+        case "@destructive":
+            return tool.annotations.destructiveHint === true;
+        default: {
+            const escaped = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+            return new RegExp(`^${escaped.join(".*")}$`, "i").test(tool.name);
+        }
+    }
+}
+
+export function isToolEnabled(tool: AdoTool, filter: ToolFilter): boolean {
+    if (filter.enabled.length > 0 && !filter.enabled.some(pattern => matchesToolPattern(tool, pattern))) return false;
+    return !filter.disabled.some(pattern => matchesToolPattern(tool, pattern));
+}
+
+/**
+ * Creates every tool in TOOL_FACTORIES, in order.
+ * Fails on duplicate names so a copy-pasted factory can't silently shadow another tool,
+ * and on tools without a title, which every tool must declare.
+ */
+export function createAdoTools(context: ToolContext): AdoTool[] {
+    const tools: AdoTool[] = [];
+    for (const factory of TOOL_FACTORIES) {
+        const tool = factory(context.token, context.organizations, context.clientOptions, context.attachmentLimits);
+        if (!tool.annotations.title) throw new Error(`${factory.name} returns a tool without a title.`);
+        if (tools.some(existing => existing.name === tool.name)) {
+            throw new Error(`Duplicate tool name "${tool.name}" (from ${factory.name}).`);
+        }
+        tools.push(tool);
+    }
+    return tools;
+}
+
+/**
+ * Registers the tools the filter allows, with their title and read-only/destructive hints,
+ * and returns the names of the registered and the filtered-out tools.
+ * Filter entries that match no tool are logged, as they are usually typos.
+ */
+export function registerAdoTools(server: McpServer, context: ToolContext, filter: ToolFilter): { registered: string[]; disabled: string[] } {
+    const tools = createAdoTools(context);
+    for (const pattern of [...filter.enabled, ...filter.disabled]) {
+        if (!tools.some(tool => matchesToolPattern(tool, pattern))) {
+            console.warn(`Tool filter entry "${pattern}" matches no tool`);
+        }
+    }
+
+    const registered: string[] = [];
+    const disabled: string[] = [];
+    for (const tool of tools) {
+        if (!isToolEnabled(tool, filter)) {
+            disabled.push(tool.name);
+            continue;
+        }
+        tool.register(server);
+        registered.push(tool.name);
+    }
+    return { registered, disabled };
+}
@@ -0,0 +1,254 @@
+import { z } from "zod";
+import type { WorkItemTypeDefinition } from "../interface/adoInterfaces";
+import { type AdoClientOptions, createAdoClient } from "../client/adoClient";
+import { type OrganizationSettings, organizationSchema, resolveOrganization } from "../utils/organizations";
+import { type OutputFormat, outputFormatSchema, toolResult } from "../utils/toolOutput";
+import { resolveByName } from "../utils/nameMatching";
+import { fetchFieldDefinitions, fetchWorkItemTypeFields, fetchWorkItemTypes } from "../utils/workItemMetadata";
+import { escapeMarkdownCell, resolveProjectId } from "./adoTools";
+import { defineTool } from "./toolDefinition";
+
+const projectParamSchema = z.string().describe("The name or ID of the Azure DevOps project (fuzzy match supported)");
+
+// Allowed values beyond this are summarized in the text and markdown output (all are in the structured output)
+const MAX_LISTED_ALLOWED_VALUES = 15;
+
+const workItemTypeSummarySchema = z.object({
+    name: z.string(),
+    referenceName: z.string(),
+    description: z.string().optional(),
+    isDisabled: z.boolean(),
+    states: z.array(z.string())
+});
+
+const workItemStateSchema = z.object({
+    name: z.string(),
+    category: z.string()
+});
+
+const workItemTransitionSchema = z.object({
+    // Empty for the initial state of a new work item
+    from: z.string(),
+    to: z.array(z.string())
+});
+
+const workItemTypeFieldSchema = z.object({
+    referenceName: z.string(),
+    name: z.string(),
+    type: z.string().optional(),
+    required: z.boolean(),
+    readOnly: z.boolean(),
+    defaultValue: z.string().optional(),
+    allowedValues: z.array(z.string()),
+    helpText: z.string().optional()
+});
+
+type WorkItemTypeField = z.infer<typeof workItemTypeFieldSchema>;
+
+function toTypeSummary(type: WorkItemTypeDefinition): z.infer<typeof workItemTypeSummarySchema> {
+    return {
+        name: type.name,
+        referenceName: type.referenceName,
+        description: type.description || undefined,
+        isDisabled: type.isDisabled ?? false,
+        states: (type.states ?? []).map(state => state.name)
+    };
+}
+
+function toTransitions(type: WorkItemTypeDefinition): z.infer<typeof workItemTransitionSchema>[] {
+    return Object.entries(type.transitions ?? {}).map(([from, targets]) => ({
+        from,
+        to: targets.map(target => target.to).filter(to => to !== from)
+    }));
+}
+
+function describeAllowedValues(field: WorkItemTypeField): string {
+    const listed = field.allowedValues.slice(0, MAX_LISTED_ALLOWED_VALUES).join(", ");
+    const more = field.allowedValues.length - MAX_LISTED_ALLOWED_VALUES;
+    return more > 0 ? `${listed} (+${more} more)` : listed;
+}
+
+export function listWorkItemTypesTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "listWorkItemTypes",
+        annotations: { title: "List Work Item Types", readOnlyHint: true },
+        schema: {
+            project: projectParamSchema,
+            includeDisabled: z.boolean().optional().default(false).describe("Also list work item types disabled in the process"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            count: z.number(),
+            types: z.array(workItemTypeSummarySchema)
+        },
+        handler: async ({
+            project,
+            includeDisabled = false,
+            organization,
+            format = "text"
+        }: {
+            project: string;
+            includeDisabled?: boolean;
+            organization?: string;
+            format?: OutputFormat;
+        }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const types = (await fetchWorkItemTypes(client, projectId))
+                    .filter(type => includeDisabled || !type.isDisabled)
+                    .map(toTypeSummary)
+                    .sort((a, b) => a.name.localeCompare(b.name));
+
+                return toolResult({ count: types.length, types }, format, {
+                    text: () => {
+                        if (types.length === 0) return "No work item types found in this project.";
+
+                        let responseText = `🗂️ Work item types (${types.length})\n${"=".repeat(50)}\n\n`;
+                        types.forEach((type, index) => {
+                            responseText += `${index + 1}. ${type.name} (${type.referenceName})${type.isDisabled ? " — disabled" : ""}\n`;
+                            if (type.description) responseText += `   ${type.description}\n`;
+                            if (type.states.length > 0) responseText += `   States: ${type.states.join(" → ")}\n`;
+                            responseText += "\n";
+                        });
+                        return responseText;
+                    },
+                    markdown: () => {
+                        if (types.length === 0) return "_No work item types found in this project._";
+
+                        let responseText = `## Work Item Types (${types.length})\n\n| Name | Reference Name | States | Description |\n|---|---|---|---|\n`;
+                        for (const type of types) {
+                            const name = type.isDisabled ? `${escapeMarkdownCell(type.name)} _(disabled)_` : escapeMarkdownCell(type.name);
+                            responseText += `| ${name} | \`${type.referenceName}\` | ${escapeMarkdownCell(type.states.join(", "))} | ${escapeMarkdownCell(type.description ?? "")} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching work item types: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
+
+export function getWorkItemTypeTool(token: string, organizations: OrganizationSettings, clientOptions: AdoClientOptions = {}) {
+    return defineTool({
+        token,
+        name: "getWorkItemType",
+        annotations: { title: "Get Work Item Type", readOnlyHint: true },
+        schema: {
+            project: projectParamSchema,
+            type: z.string().describe("Work item type name or reference name (e.g., Bug, User Story)"),
+            organization: organizationSchema,
+            format: outputFormatSchema
+        },
+        outputSchema: {
+            type: workItemTypeSummarySchema,
+            states: z.array(workItemStateSchema),
+            transitions: z.array(workItemTransitionSchema),
+            fields: z.array(workItemTypeFieldSchema)
+        },
+        handler: async ({ project, type: typeName, organization, format = "text" }: { project: string; type: string; organization?: string; format?: OutputFormat }) => {
+            try {
+                const client = createAdoClient(token, resolveOrganization(organizations, organization), clientOptions);
+                const projectId = await resolveProjectId(client, project);
+                const type = resolveByName(await fetchWorkItemTypes(client, projectId), typeName, {
+                    kind: "work item type",
+                    names: item => [item.name],
+                    id: item => item.referenceName
+                });
+
+                const [typeFields, definitions] = await Promise.all([
+                    fetchWorkItemTypeFields(client, projectId, type.name),
+                    fetchFieldDefinitions(client)
+                ]);
+                const definitionsByName = new Map(definitions.map(definition => [definition.referenceName, definition]));
+
+                const fields: WorkItemTypeField[] = typeFields
+                    .map(field => {
+                        const definition = definitionsByName.get(field.referenceName);
+                        return {
+                            referenceName: field.referenceName,
+                            name: field.name,
+                            type: definition?.type,
+                            required: field.alwaysRequired ?? false,
+                            readOnly: definition?.readOnly ?? false,
+                            defaultValue: field.defaultValue === undefined || field.defaultValue === null ? undefined : String(field.defaultValue),
+                            allowedValues: field.allowedValues ?? [],
+                            helpText: field.helpText || undefined
+                        };
+                    })
+                    .sort((a, b) => Number(b.required) - Number(a.required) || a.name.localeCompare(b.name));
+                const states = (type.states ?? []).map(state => ({ name: state.name, category: state.category }));
+                const transitions = toTransitions(type);
+
+                return toolResult({ type: toTypeSummary(type), states, transitions, fields }, format, {
+                    text: () => {
+                        let responseText = `🗂️ ${type.name} (${type.referenceName})\n${"=".repeat(50)}\n\n`;
+                        if (type.description) responseText += `${type.description}\n\n`;
+
+                        if (states.length > 0) {
+                            responseText += "🚦 States:\n";
+                            for (const state of states) responseText += `   - ${state.name} (${state.category})\n`;
+                            responseText += "\n";
+                        }
+
+                        if (transitions.length > 0) {
+                            responseText += "🔀 Transitions:\n";
+                            for (const transition of transitions) {
+                                responseText += `   - ${transition.from || "(new)"} → ${transition.to.join(", ") || "none"}\n`;
+                            }
+                            responseText += "\n";
+                        }
+
+                        responseText += `🧾 Fields (${fields.length}):\n`;
+                        for (const field of fields) {
+                            const flags = [field.type, field.required ? "required" : undefined, field.readOnly ? "read-only" : undefined].filter(Boolean);
+                            responseText += `   - ${field.name} (${field.referenceName})${flags.length > 0 ? ` [${flags.join(", ")}]` : ""}\n`;
+                            if (field.allowedValues.length > 0) responseText += `     Allowed: ${describeAllowedValues(field)}\n`;
+                            if (field.defaultValue) responseText += `     Default: ${field.defaultValue}\n`;
+                            if (field.helpText) responseText += `     ${field.helpText}\n`;
+                        }
+                        return responseText;
+                    },
+                    markdown: () => {
+                        let responseText = `## ${type.name} (\`${type.referenceName}\`)\n\n`;
+                        if (type.description) responseText += `${type.description}\n\n`;
+
+                        if (states.length > 0) {
+                            responseText += "### States\n\n";
+                            for (const state of states) responseText += `- **${state.name}** (${state.category})\n`;
+                            responseText += "\n";
+                        }
+
+                        if (transitions.length > 0) {
+                            responseText += "### Transitions\n\n| From | To |\n|---|---|\n";
+                            for (const transition of transitions) {
+                                responseText += `| ${escapeMarkdownCell(transition.from || "_(new)_")} | ${escapeMarkdownCell(transition.to.join(", "))} |\n`;
+                            }
+                            responseText += "\n";
+                        }
+
+                        responseText += `### Fields (${fields.length})\n\n| Name | Reference Name | Type | Required | Allowed Values | Default |\n|---|---|---|---|---|---|\n`;
+                        for (const field of fields) {
+                            responseText += `| ${escapeMarkdownCell(field.name)}${field.readOnly ? " _(read-only)_" : ""} | \`${field.referenceName}\` | ${field.type ?? ""} | ${field.required ? "Yes" : ""} | ${escapeMarkdownCell(describeAllowedValues(field))} | ${escapeMarkdownCell(field.defaultValue ?? "")} |\n`;
+                        }
+                        return responseText;
+                    }
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+                return {
+                    content: [{ type: "text" as const, text: `Error fetching work item type: ${errorMessage}` }],
+                    isError: true
+                };
+            }
+        }
+    });
+}
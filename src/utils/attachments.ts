@@ -0,0 +1,105 @@
+import type { Env, WorkItemRelation } from "../interface/adoInterfaces";
+
+// How large an attachment may be to be returned inline or uploaded through a tool call
+export interface AttachmentLimits {
+    maxReadBytes: number;
+    maxUploadBytes: number;
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+    maxReadBytes: 1024 * 1024,
+    maxUploadBytes: 4 * 1024 * 1024
+};
+
+// The attachment URL ends in its GUID: .../_apis/wit/attachments/{id}
+export function attachmentIdFromUrl(url: string): string | undefined {
+    return url.match(/\/_apis\/wit\/attachments\/([0-9a-f-]{36})/i)?.[1];
+}
+
+export function isAttachmentRelation(relation: WorkItemRelation): boolean {
+    return relation.rel === "AttachedFile";
+}
+
+function parseByteLimit(name: string, value: string | undefined, fallback: number): number {
+    if (!value?.trim()) return fallback;
+    if (!/^\d+$/.test(value.trim())) {
+        console.warn(`Ignoring invalid ${name} "${value}"`);
+        return fallback;
+    }
+    return Number(value.trim());
+}
+
+/**
+ * Reads ADO_ATTACHMENT_MAX_READ_BYTES and ADO_ATTACHMENT_MAX_UPLOAD_BYTES.
+ * Uploads travel base64-encoded inside the tool call, so keep the upload limit modest.
+ */
+export function attachmentLimitsFromEnv(env: Pick<Env, "ADO_ATTACHMENT_MAX_READ_BYTES" | "ADO_ATTACHMENT_MAX_UPLOAD_BYTES">): AttachmentLimits {
+    return {
+        maxReadBytes: parseByteLimit("ADO_ATTACHMENT_MAX_READ_BYTES", env.ADO_ATTACHMENT_MAX_READ_BYTES, DEFAULT_ATTACHMENT_LIMITS.maxReadBytes),
+        maxUploadBytes: parseByteLimit("ADO_ATTACHMENT_MAX_UPLOAD_BYTES", env.ADO_ATTACHMENT_MAX_UPLOAD_BYTES, DEFAULT_ATTACHMENT_LIMITS.maxUploadBytes)
+    };
+}
+
+const MIME_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    bmp: "image/bmp",
+    svg: "image/svg+xml",
+    txt: "text/plain",
+    log: "text/plain",
+    md: "text/markdown",
+    csv: "text/csv",
+    json: "application/json",
+    xml: "application/xml",
+    yaml: "application/yaml",
+    yml: "application/yaml",
+    html: "text/html",
+    htm: "text/html",
+    pdf: "application/pdf",
+    zip: "application/zip"
+};
+
+// ADO serves every attachment as application/octet-stream, so the type comes from the file name
+export function mimeTypeForFileName(fileName: string): string {
+    const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+    return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Whether the content can be shown as text: a text MIME type, or bytes that decode as UTF-8
+ * without NUL characters (logs with unusual extensions, dumps, ...). SVG counts as an image.
+ */
+export function isTextContent(mimeType: string, bytes: Uint8Array): boolean {
+    if (mimeType.startsWith("image/")) return false;
+    if (mimeType.startsWith("text/") || /json|xml|yaml/.test(mimeType)) return true;
+    if (mimeType !== "application/octet-stream") return false;
+    try {
+        const text = new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(bytes);
+        return !text.includes("\0");
+    } catch {
+        return false;
+    }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = "";
+    // Chunked so String.fromCharCode doesn't hit the argument limit on large files
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64.replace(/\s+/g, ""));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import type { AdoListResponse, Build } from "../interface/adoInterfaces";
+import type { AdoClient } from "../client/adoClient";
+
+// The builds list endpoint accepts a bounded number of IDs per request
+const BUILD_IDS_BATCH_SIZE = 100;
+
+export const buildSummarySchema = z.object({
+    id: z.number(),
+    buildNumber: z.string(),
+    pipeline: z.string(),
+    pipelineId: z.number(),
+    status: z.string(),
+    result: z.string().optional(),
+    sourceBranch: z.string(),
+    reason: z.string().optional(),
+    requestedFor: z.string().optional(),
+    queueTime: z.string().optional(),
+    finishTime: z.string().optional(),
+    webUrl: z.string()
+});
+
+export type BuildSummary = z.infer<typeof buildSummarySchema>;
+
+export function toBuildSummary(build: Build): BuildSummary {
+    return {
+        id: build.id,
+        buildNumber: build.buildNumber,
+        pipeline: build.definition.name,
+        pipelineId: build.definition.id,
+        status: build.status,
+        result: build.result,
+        sourceBranch: build.sourceBranch.replace(/^refs\/heads\//, ""),
+        reason: build.reason,
+        requestedFor: build.requestedFor?.displayName,
+        queueTime: build.queueTime,
+        finishTime: build.finishTime,
+        webUrl: build._links?.web?.href ?? build.url
+    };
+}
+
+/**
+ * One-line description of a build, e.g. "CI #20250101.3 — failed (main)".
+ */
+export function describeBuild(build: BuildSummary): string {
+    const outcome = build.status === "completed" ? build.result ?? "completed" : build.status;
+    return `${build.pipeline} #${build.buildNumber} — ${outcome} (${build.sourceBranch})`;
+}
+
+/**
+ * Fetches builds by ID within a project; builds that were deleted or are not accessible are skipped.
+ */
+export async function fetchBuildsById(client: AdoClient, project: string, ids: number[]): Promise<Build[]> {
+    const builds: Build[] = [];
+    for (let i = 0; i < ids.length; i += BUILD_IDS_BATCH_SIZE) {
+        const batch = ids.slice(i, i + BUILD_IDS_BATCH_SIZE);
+        const data = await client.get<AdoListResponse<Build>>(
+            `${encodeURIComponent(project)}/_apis/build/builds?buildIds=${batch.join(",")}&api-version=7.1`
+        );
+        builds.push(...(data.value || []));
+    }
+    return builds;
+}
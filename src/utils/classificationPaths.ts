@@ -0,0 +1,50 @@
+import type { ClassificationNode } from "../interface/adoInterfaces";
+import type { AdoClient } from "../client/adoClient";
+import { resolveByName } from "./nameMatching";
+
+// Deep enough for any real area or iteration tree
+const CLASSIFICATION_DEPTH = 20;
+
+interface ClassificationPath {
+    name: string;
+    // As used in work item fields and WIQL: "Project\Web"
+    path: string;
+}
+
+/**
+ * Node paths carry the structure name as their second segment ("\Project\Area\Web");
+ * work item fields leave it out ("Project\Web").
+ */
+function toFieldPath(nodePath: string): string {
+    const [project, , ...rest] = nodePath.replace(/^\\/, "").split("\\");
+    return [project, ...rest].join("\\");
+}
+
+function flatten(node: ClassificationNode): ClassificationPath[] {
+    return [{ name: node.name, path: toFieldPath(node.path) }, ...(node.children ?? []).flatMap(flatten)];
+}
+
+async function fetchClassificationPaths(client: AdoClient, projectId: string, structure: "areas" | "iterations"): Promise<ClassificationPath[]> {
+    // Iteration nodes share the "iterations" cache kind with team iterations, under their own key
+    return client.cached(structure, `nodes/${projectId.toLowerCase()}`, async () => {
+        const root = await client.get<ClassificationNode>(
+            `${encodeURIComponent(projectId)}/_apis/wit/classificationnodes/${structure}?$depth=${CLASSIFICATION_DEPTH}&api-version=7.1`
+        );
+        return flatten(root);
+    });
+}
+
+/**
+ * Resolves an area or iteration path (full path, partial path or node name, fuzzy) within a project
+ * to the full path work item fields and WIQL expect.
+ */
+export async function resolveClassificationPath(
+    client: AdoClient,
+    projectId: string,
+    structure: "areas" | "iterations",
+    path: string
+): Promise<string> {
+    const paths = await fetchClassificationPaths(client, projectId, structure);
+    const kind = structure === "areas" ? "area path" : "iteration path";
+    return resolveByName(paths, path.replace(/^\\/, ""), { kind, names: node => [node.path, node.name] }).path;
+}
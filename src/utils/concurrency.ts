@@ -0,0 +1,23 @@
+/**
+ * Maps over items with at most `limit` calls in flight, preserving result order.
+ * Used where one request per work item is unavoidable, so a large batch cannot
+ * trip ADO rate limits or the Worker's subrequest limits.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
@@ -0,0 +1,65 @@
+import type { AdoListResponse, IdentityRef } from "../interface/adoInterfaces";
+import type { AdoClient } from "../client/adoClient";
+import { resolveByName } from "./nameMatching";
+
+interface IdentitySearchResult {
+    id: string;
+    providerDisplayName: string;
+    properties?: {
+        Mail?: { $value: string };
+        Account?: { $value: string };
+    };
+}
+
+export async function fetchAuthenticatedUser(client: AdoClient): Promise<IdentityRef> {
+    const data = await client.get<{ authenticatedUser: { id: string; providerDisplayName: string } }>(
+        "_apis/connectionData?api-version=7.1-preview.1"
+    );
+    return { id: data.authenticatedUser.id, displayName: data.authenticatedUser.providerDisplayName };
+}
+
+/**
+ * Resolves a user to an identity. Accepts an ID, "@me", an email or a display name;
+ * identity search results are ranked like any other name, so a vague name that matches
+ * several people fails with the candidates instead of picking one.
+ */
+export async function resolveIdentity(client: AdoClient, user: string): Promise<IdentityRef> {
+    if (/^[0-9a-fA-F-]{36}$/.test(user)) return { id: user, displayName: user };
+    if (/^@?me$/i.test(user.trim())) return fetchAuthenticatedUser(client);
+
+    const data = await client.get<AdoListResponse<IdentitySearchResult>>(
+        `${client.identityBaseUrl}/_apis/identities?searchFilter=General&filterValue=${encodeURIComponent(user)}&queryMembership=None&api-version=7.1-preview.1`
+    );
+    const candidates = data.value || [];
+    // The search also matches aliases and other attributes we do not rank on; a single hit is the one
+    const match = candidates.length === 1 ? candidates[0] : resolveByName(candidates, user, {
+        kind: "user",
+        names: identity => [identity.providerDisplayName, identity.properties?.Mail?.$value ?? "", identity.properties?.Account?.$value ?? ""],
+        id: identity => identity.id
+    });
+    return {
+        id: match.id,
+        displayName: match.providerDisplayName,
+        uniqueName: match.properties?.Mail?.$value || match.properties?.Account?.$value || undefined
+    };
+}
+
+// The identities endpoint accepts a bounded number of IDs per request
+const IDENTITY_IDS_BATCH_SIZE = 100;
+
+/**
+ * Display names by identity ID (lower-case); IDs that do not resolve are left out.
+ */
+export async function fetchIdentityNames(client: AdoClient, ids: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (let i = 0; i < ids.length; i += IDENTITY_IDS_BATCH_SIZE) {
+        const batch = ids.slice(i, i + IDENTITY_IDS_BATCH_SIZE);
+        const data = await client.get<AdoListResponse<IdentitySearchResult | null>>(
+            `${client.identityBaseUrl}/_apis/identities?identityIds=${batch.join(",")}&queryMembership=None&api-version=7.1-preview.1`
+        );
+        for (const identity of data.value || []) {
+            if (identity) names.set(identity.id.toLowerCase(), identity.providerDisplayName);
+        }
+    }
+    return names;
+}
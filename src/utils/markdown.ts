@@ -0,0 +1,420 @@
+// Conversion between the HTML ADO stores in rich-text fields and comments, and Markdown.
+
+export interface HtmlReferences {
+    // Display names by identity ID, for mentions stored as "@<id>"
+    users?: Map<string, string>;
+    // Titles of referenced work items by ID, shown next to "#123"
+    workItemTitles?: Map<number, string>;
+    // Browser URL of a work item; without it "#123" references are left as plain text
+    workItemUrl?: (id: number) => string;
+}
+
+type HtmlNode =
+    | { type: "text"; text: string }
+    | { type: "element"; tag: string; attributes: Record<string, string>; children: HtmlNode[] };
+
+type HtmlElement = Extract<HtmlNode, { type: "element" }>;
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "col", "wbr", "area", "source"]);
+const SKIPPED_TAGS = new Set(["script", "style", "head", "title"]);
+const BLOCK_TAGS = new Set(["p", "div", "section", "article", "header", "footer", "main", "aside", "nav", "figure", "figcaption", "dl", "dt", "dd", "center"]);
+
+const MENTION_PATTERN = /@<([0-9a-fA-F-]{36})>/g;
+const WORK_ITEM_REF_PATTERN = /(^|[^\w&/#])#(\d+)\b/g;
+const WORK_ITEM_URL_PATTERN = /\/_workitems\/edit\/(\d+)|\/_apis\/wit\/workItems\/(\d+)/i;
+
+// Named entities seen in ADO content; numeric entities are decoded generically
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", ensp: " ", emsp: " ", thinsp: " ",
+    ndash: "–", mdash: "—", hellip: "…", bull: "•", middot: "·", lsquo: "‘", rsquo: "’", sbquo: "‚",
+    ldquo: "“", rdquo: "”", bdquo: "„", laquo: "«", raquo: "»", lsaquo: "‹", rsaquo: "›",
+    copy: "©", reg: "®", trade: "™", deg: "°", plusmn: "±", times: "×", divide: "÷", micro: "µ",
+    para: "¶", sect: "§", cent: "¢", pound: "£", euro: "€", yen: "¥", curren: "¤",
+    frac12: "½", frac14: "¼", frac34: "¾", sup1: "¹", sup2: "²", sup3: "³", permil: "‰",
+    larr: "←", rarr: "→", uarr: "↑", darr: "↓", harr: "↔", lArr: "⇐", rArr: "⇒", hArr: "⇔",
+    le: "≤", ge: "≥", ne: "≠", asymp: "≈", infin: "∞", minus: "−", prime: "′", Prime: "″",
+    iexcl: "¡", iquest: "¿", shy: "\u00ad", zwj: "\u200d", zwnj: "\u200c", lrm: "\u200e", rlm: "\u200f",
+    check: "✓", cross: "✗", star: "☆", starf: "★", hearts: "♥", dagger: "†", Dagger: "‡", loz: "◊",
+    agrave: "à", aacute: "á", acirc: "â", atilde: "ã", auml: "ä", aring: "å", aelig: "æ", ccedil: "ç",
+    egrave: "è", eacute: "é", ecirc: "ê", euml: "ë", igrave: "ì", iacute: "í", icirc: "î", iuml: "ï",
+    ntilde: "ñ", ograve: "ò", oacute: "ó", ocirc: "ô", otilde: "õ", ouml: "ö", oslash: "ø",
+    ugrave: "ù", uacute: "ú", ucirc: "û", uuml: "ü", yacute: "ý", yuml: "ÿ", szlig: "ß",
+    Agrave: "À", Aacute: "Á", Acirc: "Â", Atilde: "Ã", Auml: "Ä", Aring: "Å", AElig: "Æ", Ccedil: "Ç",
+    Egrave: "È", Eacute: "É", Ecirc: "Ê", Euml: "Ë", Igrave: "Ì", Iacute: "Í", Icirc: "Î", Iuml: "Ï",
+    Ntilde: "Ñ", Ograve: "Ò", Oacute: "Ó", Ocirc: "Ô", Otilde: "Õ", Ouml: "Ö", Oslash: "Ø",
+    Ugrave: "Ù", Uacute: "Ú", Ucirc: "Û", Uuml: "Ü", Yacute: "Ý"
+};
+
+/**
+ * Decodes named, decimal (&#39;) and hexadecimal (&#x27;) entities; unknown names are kept as written.
+ */
+export function decodeHtmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+        if (name[0] === "#") {
+            const code = name[1] === "x" || name[1] === "X" ? Number.parseInt(name.slice(2), 16) : Number(name.slice(1));
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return NAMED_ENTITIES[name] ?? entity;
+    });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted, bare] of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+        attributes[name.toLowerCase()] = decodeHtmlEntities(doubleQuoted ?? singleQuoted ?? bare ?? "");
+    }
+    return attributes;
+}
+
+/**
+ * Parses HTML into a loose tree: unclosed tags are closed by their parent, stray closing tags are ignored.
+ */
+function parseHtml(html: string): HtmlNode[] {
+    const root: HtmlElement = { type: "element", tag: "#root", attributes: {}, children: [] };
+    const stack: HtmlElement[] = [root];
+    const tokens = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<!?\/?([a-zA-Z][\w:-]*)([^>]*)>|[^<]+|</g;
+
+    let skipping: string | undefined;
+    for (const match of html.matchAll(tokens)) {
+        const [token, cdata, rawTag, rest] = match;
+        const current = stack[stack.length - 1];
+
+        if (skipping) {
+            if (rawTag?.toLowerCase() === skipping && token.startsWith("</")) skipping = undefined;
+            continue;
+        }
+        if (token.startsWith("<!--") || token.startsWith("<!")) {
+            if (cdata !== undefined) current.children.push({ type: "text", text: cdata });
+            continue;
+        }
+        if (!rawTag) {
+            current.children.push({ type: "text", text: decodeHtmlEntities(token) });
+            continue;
+        }
+
+        const tag = rawTag.toLowerCase();
+        if (token.startsWith("</")) {
+            const index = stack.map(element => element.tag).lastIndexOf(tag);
+            if (index > 0) stack.length = index;
+            continue;
+        }
+        if (SKIPPED_TAGS.has(tag)) {
+            if (!rest.trim().endsWith("/")) skipping = tag;
+            continue;
+        }
+
+        const element: HtmlElement = { type: "element", tag, attributes: parseAttributes(rest), children: [] };
+        current.children.push(element);
+        if (!VOID_TAGS.has(tag) && !rest.trim().endsWith("/")) stack.push(element);
+    }
+    return root.children;
+}
+
+function textContent(nodes: HtmlNode[]): string {
+    return nodes.map(node => node.type === "text" ? node.text : node.tag === "br" ? "\n" : textContent(node.children)).join("");
+}
+
+function workItemReference(id: number, references: HtmlReferences): string {
+    const title = references.workItemTitles?.get(id);
+    const label = title ? `#${id} ${title}` : `#${id}`;
+    return references.workItemUrl ? `[${label}](${references.workItemUrl(id)})` : label;
+}
+
+function renderText(text: string, references: HtmlReferences): string {
+    return text
+        .replace(/\s+/g, " ")
+        .replace(MENTION_PATTERN, (_, id: string) => `@${references.users?.get(id.toLowerCase()) ?? id}`)
+        .replace(WORK_ITEM_REF_PATTERN, (_, before: string, id: string) => `${before}${workItemReference(Number(id), references)}`);
+}
+
+// Wraps inline content in a marker, keeping surrounding spaces outside it ("** bold**" is not bold)
+function wrapInline(content: string, marker: string): string {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) return content;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function indentContinuation(text: string, indent: string): string {
+    return text.split("\n").map((line, index) => index === 0 || !line ? line : indent + line).join("\n");
+}
+
+function renderList(element: HtmlElement, references: HtmlReferences): string {
+    const ordered = element.tag === "ol";
+    let number = Number(element.attributes.start) || 1;
+    const items = element.children
+        .filter((child): child is HtmlElement => child.type === "element" && child.tag === "li")
+        .map(item => {
+            const marker = ordered ? `${number++}. ` : "- ";
+            // Keep nested lists tight under their item
+            const content = renderNodes(item.children, references).trim().replace(/\n{2,}(?=(-|\d+\.) )/g, "\n");
+            return marker + indentContinuation(content, " ".repeat(marker.length));
+        });
+    return `\n\n${items.join("\n")}\n\n`;
+}
+
+function renderTable(element: HtmlElement, references: HtmlReferences): string {
+    const rows: string[][] = [];
+    const collectRows = (nodes: HtmlNode[]) => {
+        for (const node of nodes) {
+            if (node.type !== "element") continue;
+            if (node.tag === "tr") {
+                rows.push(node.children
+                    .filter((cell): cell is HtmlElement => cell.type === "element" && (cell.tag === "td" || cell.tag === "th"))
+                    .map(cell => renderNodes(cell.children, references).trim().replace(/\|/g, "\\|").replace(/\n+/g, "<br>")));
+            } else if (node.tag !== "table") {
+                collectRows(node.children);
+            }
+        }
+    };
+    collectRows(element.children);
+    if (rows.length === 0) return "";
+
+    const width = Math.max(...rows.map(row => row.length));
+    const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+    const [header, ...body] = rows;
+    return `\n\n${[line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n")}\n\n`;
+}
+
+function renderLink(element: HtmlElement, references: HtmlReferences): string {
+    // No work item links inside link text
+    const text = renderNodes(element.children, { users: references.users }).trim();
+    const href = element.attributes.href ?? "";
+
+    // ADO mentions: <a data-vss-mention="version:2.0,{id}">@Name</a>
+    if ("data-vss-mention" in element.attributes && text.startsWith("@")) return text;
+
+    const workItem = href.match(WORK_ITEM_URL_PATTERN);
+    if (workItem && /^#?\d+$/.test(textContent(element.children).trim())) {
+        return workItemReference(Number(workItem[1] ?? workItem[2]), { ...references, workItemUrl: references.workItemUrl ?? (() => href) });
+    }
+
+    if (!href || href === "#" || href.startsWith("javascript:")) return text;
+    if (!text || text === href) return `<${href}>`;
+    return `[${text}](${href})`;
+}
+
+function renderElement(element: HtmlElement, references: HtmlReferences): string {
+    const children = () => renderNodes(element.children, references);
+    switch (element.tag) {
+        case "br":
+            return "\n";
+        case "hr":
+            return "\n\n---\n\n";
+        case "h1": case "h2": case "h3": case "h4": case "h5": case "h6":
+            return `\n\n${"#".repeat(Number(element.tag[1]))} ${children().trim().replace(/\n+/g, " ")}\n\n`;
+        case "strong": case "b":
+            return wrapInline(children(), "**");
+        case "em": case "i":
+            return wrapInline(children(), "*");
+        case "s": case "strike": case "del":
+            return wrapInline(children(), "~~");
+        case "code":
+            return `\`${textContent(element.children).replace(/`/g, "\\`")}\``;
+        case "pre": {
+            const code = textContent(element.children).replace(/^\n/, "").replace(/\s+$/, "");
+            const fence = code.includes("```") ? "~~~" : "```";
+            return `\n\n${fence}\n${code}\n${fence}\n\n`;
+        }
+        case "blockquote":
+            return `\n\n${children().trim().split("\n").map(line => `> ${line}`.trimEnd()).join("\n")}\n\n`;
+        case "ul": case "ol":
+            return renderList(element, references);
+        case "li":
+            // A list item outside a list
+            return `\n- ${children().trim()}\n`;
+        case "table":
+            return renderTable(element, references);
+        case "a":
+            return renderLink(element, references);
+        case "img": {
+            const src = element.attributes.src;
+            return src ? `![${element.attributes.alt ?? ""}](${src})` : "";
+        }
+        default:
+            return BLOCK_TAGS.has(element.tag) ? `\n\n${children().trim()}\n\n` : children();
+    }
+}
+
+function renderNodes(nodes: HtmlNode[], references: HtmlReferences): string {
+    return nodes.map(node => node.type === "text" ? renderText(node.text, references) : renderElement(node, references)).join("");
+}
+
+/**
+ * Converts ADO rich text (descriptions, acceptance criteria, comments, history) to Markdown.
+ * - Keeps headings, emphasis, links, images, code, quotes, nested lists and tables
+ * - Shows mentions as @Name and work item references as "#123 Title" links (see HtmlReferences)
+ * - Decodes entities and drops everything else (scripts, styles, unknown tags)
+ */
+export function htmlToMarkdown(html?: string, references: HtmlReferences = {}): string {
+    if (!html) return "";
+
+    // "@<id>" mentions would otherwise parse as tags
+    return renderNodes(parseHtml(html.replace(MENTION_PATTERN, "@&lt;$1&gt;")), references)
+        .split("\n")
+        .map(line => line.replace(/[ \t]+$/, ""))
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+/**
+ * Identity and work item IDs an HTML fragment refers to, so callers can look up names and titles
+ * to pass to htmlToMarkdown.
+ */
+export function findHtmlReferences(html?: string): { userIds: string[]; workItemIds: number[] } {
+    const userIds = new Set<string>();
+    const workItemIds = new Set<number>();
+    if (html) {
+        for (const [, id] of html.matchAll(MENTION_PATTERN)) userIds.add(id.toLowerCase());
+        const text = decodeHtmlEntities(html.replace(/<[^>]*>/g, " "));
+        for (const [, , id] of text.matchAll(WORK_ITEM_REF_PATTERN)) workItemIds.add(Number(id));
+        for (const [, edit, api] of html.matchAll(new RegExp(WORK_ITEM_URL_PATTERN, "gi"))) workItemIds.add(Number(edit ?? api));
+    }
+    return { userIds: [...userIds], workItemIds: [...workItemIds] };
+}
+
+// Markdown to HTML
+
+export interface MarkdownOptions {
+    // Browser URL of a work item; when set, "#123" becomes a work item link
+    workItemUrl?: (id: number) => string;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderInline(text: string, options: MarkdownOptions): string {
+    // Code spans and links are set aside so emphasis and #references are not applied inside them
+    const stash: string[] = [];
+    const keep = (html: string) => `\uE000${stash.push(html) - 1}\uE000`;
+
+    let html = escapeHtml(text.replace(/`([^`]+)`/g, (_, code: string) => keep(`<code>${escapeHtml(code)}</code>`)))
+        .replace(/&lt;br\s*\/?&gt;/gi, "<br>")
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, src: string) => keep(`<img src="${src}" alt="${alt}">`))
+        .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, href: string) => keep(`<a href="${href}">${href}</a>`))
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) =>
+            keep(`<a href="${href}">${renderEmphasis(label)}</a>`));
+
+    html = renderEmphasis(html);
+    if (options.workItemUrl) {
+        const workItemUrl = options.workItemUrl;
+        html = html.replace(WORK_ITEM_REF_PATTERN, (_, before: string, id: string) =>
+            `${before}<a href="${workItemUrl(Number(id))}" data-vss-mention="version:1.0">#${id}</a>`);
+    }
+    return html.replace(/\uE000(\d+)\uE000/g, (_, index: string) => stash[Number(index)]);
+}
+
+function renderEmphasis(html: string): string {
+    return html
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+        .replace(/(^|[^*\w])\*(?=\S)([^*]*?\S)\*(?!\w)|(^|[^_\w])_(?=\S)([^_]*?\S)_(?!\w)/g,
+            (_, p1?: string, a?: string, p2?: string, b?: string) => `${p1 ?? p2}<em>${a ?? b}</em>`)
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<del>$1</del>");
+}
+
+const splitTableRow = (line: string) => line.trim().replace(/^\||\|$/g, "").split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+/**
+ * Converts Markdown to the HTML ADO expects in rich-text fields and comments: paragraphs, headings,
+ * emphasis, links, images, inline and fenced code, quotes, nested lists and tables.
+ */
+export function markdownToHtml(markdown: string, options: MarkdownOptions = {}): string {
+    const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+    const html: string[] = [];
+    let i = 0;
+
+    const isBlockStart = (line: string) =>
+        /^\s*$/.test(line) || /^(#{1,6})\s/.test(line) || /^(```|~~~)/.test(line) || /^>\s?/.test(line) ||
+        /^\s*([-*+]|\d+[.)])\s+/.test(line) || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|.*\|\s*$/.test(line);
+
+    function renderListBlock(indent: number): string {
+        const ordered = /^\s*\d+[.)]\s/.test(lines[i]);
+        const items: string[] = [];
+        while (i < lines.length) {
+            // Blank lines between items keep the list going
+            let next = i;
+            while (next < lines.length && !lines[next].trim()) next++;
+            const match = lines[next]?.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+            if (!match || match[1].length < indent) break;
+            if (match[1].length === indent && /\d/.test(match[2][0]) !== ordered) break;
+            i = next;
+            if (match[1].length > indent) {
+                items[items.length - 1] += renderListBlock(match[1].length);
+                continue;
+            }
+            i++;
+            let content = match[3];
+            // Lazy continuation lines belong to the item
+            while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) content += ` ${lines[i++].trim()}`;
+            items.push(renderInline(content, options));
+        }
+        const tag = ordered ? "ol" : "ul";
+        return `<${tag}>${items.map(item => `<li>${item}</li>`).join("")}</${tag}>`;
+    }
+
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(/^(```|~~~)/);
+        if (fence) {
+            const code: string[] = [];
+            for (i++; i < lines.length && !lines[i].startsWith(fence[1]); i++) code.push(lines[i]);
+            i++;
+            html.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            html.push(`<h${heading[1].length}>${renderInline(heading[2], options)}</h${heading[1].length}>`);
+            i++;
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            html.push("<hr>");
+            i++;
+            continue;
+        }
+
+        if (/^>\s?/.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && /^>\s?/.test(lines[i])) quoted.push(lines[i++].replace(/^>\s?/, ""));
+            html.push(`<blockquote>${markdownToHtml(quoted.join("\n"), options)}</blockquote>`);
+            continue;
+        }
+
+        if (/^\s*([-*+]|\d+[.)])\s+/.test(line)) {
+            html.push(renderListBlock(line.match(/^\s*/)?.[0].length ?? 0));
+            continue;
+        }
+
+        if (/^\s*\|.*\|\s*$/.test(line) && /^\s*\|?[\s:|-]+\|?\s*$/.test(lines[i + 1] ?? "") && lines[i + 1].includes("-")) {
+            const header = splitTableRow(line);
+            i += 2;
+            const rows: string[][] = [];
+            while (i < lines.length && /^\s*\|.*\|\s*$/.test(lines[i])) rows.push(splitTableRow(lines[i++]));
+            const cells = (row: string[], tag: "th" | "td") => row.map(cell => `<${tag}>${renderInline(cell, options)}</${tag}>`).join("");
+            html.push(`<table><thead><tr>${cells(header, "th")}</tr></thead><tbody>${rows.map(row => `<tr>${cells(row, "td")}</tr>`).join("")}</tbody></table>`);
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) paragraph.push(lines[i++]);
+        // Hard line breaks: two trailing spaces or a backslash; other newlines are kept too, as ADO users expect
+        html.push(`<p>${paragraph.map(text => renderInline(text.replace(/(\s{2,}|\\)$/, ""), options)).join("<br>")}</p>`);
+    }
+    return html.join("");
+}
+
+/**
+ * Treats text that starts with an HTML tag as HTML already; anything else is Markdown (or plain text).
+ */
+export function looksLikeHtml(text: string): boolean {
+    return /^\s*<([a-z][\w-]*)(\s[^>]*)?\/?>/i.test(text);
+}
@@ -0,0 +1,109 @@
+// Match tiers, best first; a candidate's score is its tier plus a 0..1 closeness within the tier
+const EXACT = 4;
+const PREFIX = 3;
+const TOKEN_OVERLAP = 2;
+const EDIT_DISTANCE = 1;
+
+// Edit-distance matches below this similarity (0..1) are not considered matches at all
+const MIN_SIMILARITY = 0.6;
+// Candidates in the same tier whose scores are this close are too close to call
+const AMBIGUITY_MARGIN = 0.1;
+const MAX_LISTED_CANDIDATES = 8;
+
+export interface NameMatchOptions<T> {
+    // What is being resolved, for error messages (e.g. "project")
+    kind: string;
+    // Strings a candidate can be matched by (name, path, ...); the first is used to list it
+    names: (item: T) => string[];
+    // Identifier compared exactly before any fuzzy matching
+    id?: (item: T) => string;
+}
+
+export interface RankedMatch<T> {
+    item: T;
+    score: number;
+}
+
+const tokenize = (value: string) => value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Scores one name against the query:
+ * - exact (case-insensitive) match
+ * - prefix match, closer when the query covers more of the name
+ * - token overlap: share of tokens matched, a query token matching a name token it starts
+ * - edit distance similarity, for typos
+ * Returns 0 when the name does not match at all.
+ */
+function scoreName(query: string, name: string): number {
+    const q = query.trim().toLowerCase();
+    const n = name.trim().toLowerCase();
+    if (!q || !n) return 0;
+    if (q === n) return EXACT;
+    if (n.startsWith(q)) return PREFIX + q.length / n.length;
+
+    const queryTokens = tokenize(q);
+    const nameTokens = tokenize(n);
+    const matched = queryTokens.filter(token => nameTokens.some(nameToken => nameToken.startsWith(token))).length;
+    // Scaled below 1 so a full overlap still ranks under any prefix match
+    if (matched > 0) return TOKEN_OVERLAP + 0.99 * matched / Math.max(queryTokens.length, nameTokens.length);
+
+    const similarity = 1 - editDistance(q, n) / Math.max(q.length, n.length);
+    return similarity >= MIN_SIMILARITY ? EDIT_DISTANCE + similarity : 0;
+}
+
+/**
+ * Ranks candidates by how well any of their names match the query, best first; non-matches are dropped.
+ */
+export function rankMatches<T>(candidates: T[], query: string, options: NameMatchOptions<T>): RankedMatch<T>[] {
+    const wanted = query.trim().toLowerCase();
+    return candidates
+        .map(item => ({
+            item,
+            score: options.id?.(item).toLowerCase() === wanted
+                ? EXACT + 1
+                : Math.max(0, ...options.names(item).map(name => scoreName(query, name)))
+        }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score);
+}
+
+function listCandidates<T>(matches: T[], options: NameMatchOptions<T>): string {
+    const names = matches.slice(0, MAX_LISTED_CANDIDATES).map(item => {
+        const id = options.id?.(item);
+        return id ? `${options.names(item)[0]} (${id})` : options.names(item)[0];
+    });
+    return names.join(", ") + (matches.length > MAX_LISTED_CANDIDATES ? ", …" : "");
+}
+
+/**
+ * Resolves a name, path or ID to a single candidate.
+ * Throws when nothing matches, or when the best matches are too close to pick one
+ * (e.g. two prefix matches of similar length); the error lists them so the caller can be specific.
+ */
+export function resolveByName<T>(candidates: T[], query: string, options: NameMatchOptions<T>): T {
+    const [best, ...rest] = rankMatches(candidates, query, options);
+    if (!best) {
+        throw new Error(`No matching ${options.kind} found for "${query}"` +
+            (candidates.length > 0 ? `. Available: ${listCandidates(candidates, options)}` : ""));
+    }
+
+    const tier = Math.floor(best.score);
+    const contenders = rest.filter(match => Math.floor(match.score) === tier && best.score - match.score < AMBIGUITY_MARGIN);
+    if (contenders.length > 0) {
+        throw new Error(`"${query}" matches more than one ${options.kind}: ${listCandidates([best, ...contenders].map(m => m.item), options)}. ` +
+            "Use the full name, path or ID.");
+    }
+    return best.item;
+}
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import type { Env } from "../interface/adoInterfaces";
+
+// Which ADO organizations this server may talk to, read once from the Worker Env
+export interface OrganizationSettings {
+    defaultOrganization?: string;
+    allowedOrganizations: string[];
+}
+
+export const organizationSchema = z.string().optional()
+    .describe("Azure DevOps organization to use (default: the server's default organization; see listOrganizations)");
+
+/**
+ * Reads ADO_ORGANIZATION (the default) and ADO_ALLOWED_ORGANIZATIONS (comma-separated allow-list).
+ * The default organization is always allowed; without an allow-list it is the only one.
+ */
+export function organizationSettingsFromEnv(env: Pick<Env, "ADO_ORGANIZATION" | "ADO_ALLOWED_ORGANIZATIONS">): OrganizationSettings {
+    const defaultOrganization = env.ADO_ORGANIZATION?.trim() || undefined;
+    const allowed = (env.ADO_ALLOWED_ORGANIZATIONS ?? "")
+        .split(",")
+        .map(org => org.trim())
+        .filter(Boolean);
+
+    if (defaultOrganization && !allowed.some(org => org.toLowerCase() === defaultOrganization.toLowerCase())) {
+        allowed.unshift(defaultOrganization);
+    }
+    return { defaultOrganization, allowedOrganizations: allowed };
+}
+
+/**
+ * Picks the organization for a tool call: the requested one if it is on the allow-list,
+ * otherwise the default (or the only allowed organization).
+ */
+export function resolveOrganization(settings: OrganizationSettings, requested?: string): string {
+    const { defaultOrganization, allowedOrganizations } = settings;
+    if (allowedOrganizations.length === 0) {
+        throw new Error("No Azure DevOps organization is configured. Set ADO_ORGANIZATION or ADO_ALLOWED_ORGANIZATIONS.");
+    }
+
+    if (!requested?.trim()) {
+        if (defaultOrganization) return defaultOrganization;
+        if (allowedOrganizations.length === 1) return allowedOrganizations[0];
+        throw new Error(`Specify an organization: ${allowedOrganizations.join(", ")}`);
+    }
+
+    const match = allowedOrganizations.find(org => org.toLowerCase() === requested.trim().toLowerCase());
+    if (!match) {
+        throw new Error(`Organization "${requested}" is not allowed. Allowed organizations: ${allowedOrganizations.join(", ")}`);
+    }
+    return match;
+}
@@ -0,0 +1,37 @@
+// State carried between listWorkItems pages
+export interface WorkItemCursor {
+    // Position of the next page in the WIQL result
+    offset: number;
+    // Point in time the first page was queried at, so later pages see the same result set
+    asOf: string;
+    // Fingerprint of the query the cursor belongs to
+    query: string;
+}
+
+/**
+ * FNV-1a hash of the query text; only used to detect a cursor being reused with different filters.
+ */
+export function fingerprintQuery(query: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < query.length; i++) {
+        hash ^= query.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+export function encodeCursor(cursor: WorkItemCursor): string {
+    return btoa(JSON.stringify({ o: cursor.offset, a: cursor.asOf, q: cursor.query }));
+}
+
+export function decodeCursor(token: string): WorkItemCursor {
+    try {
+        const raw = JSON.parse(atob(token)) as { o: unknown; a: unknown; q: unknown };
+        if (typeof raw.o !== "number" || typeof raw.a !== "string" || typeof raw.q !== "string") {
+            throw new Error("malformed");
+        }
+        return { offset: raw.o, asOf: raw.a, query: raw.q };
+    } catch {
+        throw new Error("Invalid continuation token. Start again without one.");
+    }
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+export type OutputFormat = "text" | "markdown" | "json";
+
+// Shared `format` parameter accepted by every tool
+export const outputFormatSchema = z.enum(["text", "markdown", "json"]).optional().default("text")
+    .describe("How to render the response: 'text' (default), 'markdown' or 'json'. Structured content is always included.");
+
+/**
+ * Builds a tool result carrying both the rendered response and the structured data.
+ * - `text` and `markdown` use the matching renderer
+ * - `json` renders the structured data itself
+ */
+export function toolResult<T extends Record<string, unknown>>(
+    data: T,
+    format: OutputFormat,
+    render: { text: () => string; markdown: () => string }
+) {
+    const text = format === "json" ? JSON.stringify(data, null, 2) : render[format]();
+    return {
+        content: [{ type: "text" as const, text }],
+        structuredContent: data
+    };
+}
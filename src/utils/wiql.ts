@@ -0,0 +1,147 @@
+import type { WorkItemFilters } from "../interface/adoInterfaces";
+
+// Fields listWorkItems may sort by
+export const WORK_ITEM_SORT_FIELDS = [
+    "System.Id",
+    "System.Title",
+    "System.State",
+    "System.WorkItemType",
+    "System.AssignedTo",
+    "System.CreatedDate",
+    "System.ChangedDate",
+    "System.IterationPath",
+    "System.AreaPath",
+    "Microsoft.VSTS.Common.Priority",
+    "Microsoft.VSTS.Common.StackRank"
+] as const;
+
+export type WorkItemSortField = typeof WORK_ITEM_SORT_FIELDS[number];
+
+// Columns selected by every listWorkItems query
+const SELECT_CLAUSE = `SELECT [System.Id], [System.Title], [System.State], [System.WorkItemType],
+       [System.AssignedTo], [System.IterationPath]
+FROM WorkItems`;
+
+// The query listWorkItems has always run: my open, non-Task items in the current iteration
+export const DEFAULT_WORK_ITEMS_WIQL = `${SELECT_CLAUSE}
+WHERE [System.AssignedTo] = @Me
+  AND [System.WorkItemType] <> 'Task'
+  AND [System.IterationPath] = @CurrentIteration
+  AND [System.State] <> 'Closed'
+ORDER BY [System.State], [System.ChangedDate] DESC`;
+
+const DEFAULT_ORDER_BY = "ORDER BY [System.State], [System.ChangedDate] DESC";
+
+/**
+ * Quotes a value as a WIQL string literal.
+ * WIQL escapes a single quote inside a literal by doubling it.
+ */
+export function escapeWiqlString(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+function wiqlList(values: string[]): string {
+    return `(${values.map(escapeWiqlString).join(", ")})`;
+}
+
+/**
+ * Accepts either an ADO date macro (@Today, @Today - 7) or an ISO date.
+ * ISO dates are normalised to YYYY-MM-DD because WIQL compares date fields at day
+ * precision unless the query opts into time precision.
+ */
+function wiqlDate(value: string): string {
+    const macro = value.trim().match(/^@Today(?:\s*([+-])\s*(\d+))?$/i);
+    if (macro) {
+        return macro[1] ? `@Today ${macro[1]} ${macro[2]}` : "@Today";
+    }
+
+    const timestamp = Date.parse(value);
+    if (Number.isNaN(timestamp)) {
+        throw new Error(`Invalid date "${value}". Use an ISO date (YYYY-MM-DD) or @Today - N.`);
+    }
+    return escapeWiqlString(new Date(timestamp).toISOString().slice(0, 10));
+}
+
+function wiqlIdentity(value: string): string {
+    return value.trim().toLowerCase() === "@me" ? "@Me" : escapeWiqlString(value);
+}
+
+function wiqlIteration(value: string): string {
+    const macro = value.trim().match(/^@CurrentIteration(?:\s*([+-])\s*(\d+))?$/i);
+    if (macro) {
+        return macro[1] ? `@CurrentIteration ${macro[1]} ${macro[2]}` : "@CurrentIteration";
+    }
+    return escapeWiqlString(value);
+}
+
+export function hasWorkItemFilters(filters: WorkItemFilters): boolean {
+    return Object.values(filters).some(value => Array.isArray(value) ? value.length > 0 : value !== undefined && value !== "");
+}
+
+/**
+ * Compiles typed filters into a WIQL query.
+ * - All conditions are ANDed
+ * - String values are escaped; only the @Me, @Today and @CurrentIteration macros pass through unquoted
+ * - Falls back to DEFAULT_WORK_ITEMS_WIQL when no filters are given
+ * - `inProject` limits the query to the project it is posted to; the URL path alone does not
+ */
+export function buildWorkItemsWiql(
+    filters: WorkItemFilters,
+    orderBy?: { field: WorkItemSortField; direction?: "asc" | "desc" }[],
+    { inProject = false }: { inProject?: boolean } = {}
+): string {
+    const conditions: string[] = [];
+
+    if (filters.assignedTo) {
+        conditions.push(`[System.AssignedTo] = ${wiqlIdentity(filters.assignedTo)}`);
+    }
+    if (filters.states?.length) {
+        conditions.push(`[System.State] IN ${wiqlList(filters.states)}`);
+    }
+    if (filters.excludeStates?.length) {
+        conditions.push(`[System.State] NOT IN ${wiqlList(filters.excludeStates)}`);
+    }
+    if (filters.types?.length) {
+        conditions.push(`[System.WorkItemType] IN ${wiqlList(filters.types)}`);
+    }
+    if (filters.excludeTypes?.length) {
+        conditions.push(`[System.WorkItemType] NOT IN ${wiqlList(filters.excludeTypes)}`);
+    }
+    for (const tag of filters.tags ?? []) {
+        conditions.push(`[System.Tags] CONTAINS ${escapeWiqlString(tag)}`);
+    }
+    if (filters.areaPath) {
+        conditions.push(`[System.AreaPath] UNDER ${escapeWiqlString(filters.areaPath)}`);
+    }
+    if (filters.iterationPath) {
+        const iteration = wiqlIteration(filters.iterationPath);
+        // Macros select exactly one iteration; explicit paths include child iterations
+        conditions.push(iteration.startsWith("@")
+            ? `[System.IterationPath] = ${iteration}`
+            : `[System.IterationPath] UNDER ${iteration}`);
+    }
+    if (filters.priorities?.length) {
+        const priorities = filters.priorities.map(p => {
+            if (!Number.isInteger(p)) throw new Error(`Invalid priority "${p}". Priorities are whole numbers.`);
+            return String(p);
+        });
+        conditions.push(`[Microsoft.VSTS.Common.Priority] IN (${priorities.join(", ")})`);
+    }
+    if (filters.changedSince) {
+        conditions.push(`[System.ChangedDate] >= ${wiqlDate(filters.changedSince)}`);
+    }
+
+    const orderClause = orderBy?.length
+        ? `ORDER BY ${orderBy.map(o => `[${o.field}]${o.direction === "desc" ? " DESC" : " ASC"}`).join(", ")}`
+        : DEFAULT_ORDER_BY;
+
+    const projectCondition = "[System.TeamProject] = @project";
+    if (conditions.length === 0) {
+        const query = orderBy?.length ? DEFAULT_WORK_ITEMS_WIQL.replace(DEFAULT_ORDER_BY, orderClause) : DEFAULT_WORK_ITEMS_WIQL;
+        return inProject ? query.replace("WHERE ", `WHERE ${projectCondition}\n  AND `) : query;
+    }
+
+    return `${SELECT_CLAUSE}
+WHERE ${(inProject ? [projectCondition, ...conditions] : conditions).join("\n  AND ")}
+${orderClause}`;
+}
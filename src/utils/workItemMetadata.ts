@@ -0,0 +1,41 @@
+import type {
+    AdoListResponse,
+    WorkItemFieldDefinition,
+    WorkItemTypeDefinition,
+    WorkItemTypeFieldDefinition
+} from "../interface/adoInterfaces";
+import type { AdoClient } from "../client/adoClient";
+
+/**
+ * Work item types of a project (with their fields and states), from the session cache when fresh.
+ */
+export async function fetchWorkItemTypes(client: AdoClient, projectId: string): Promise<WorkItemTypeDefinition[]> {
+    return client.cached("workItemTypes", projectId.toLowerCase(), async () => {
+        const data = await client.get<AdoListResponse<WorkItemTypeDefinition>>(
+            `${encodeURIComponent(projectId)}/_apis/wit/workitemtypes?api-version=7.1`
+        );
+        return data.value || [];
+    });
+}
+
+/**
+ * Field definitions of the organization, from the session cache when fresh.
+ */
+export async function fetchFieldDefinitions(client: AdoClient): Promise<WorkItemFieldDefinition[]> {
+    return client.cached("fields", "all", async () => {
+        const data = await client.get<AdoListResponse<WorkItemFieldDefinition>>("_apis/wit/fields?api-version=7.1");
+        return data.value || [];
+    });
+}
+
+/**
+ * Fields of one work item type with their allowed values, from the session cache when fresh.
+ */
+export async function fetchWorkItemTypeFields(client: AdoClient, projectId: string, type: string): Promise<WorkItemTypeFieldDefinition[]> {
+    return client.cached("workItemTypes", `${projectId.toLowerCase()}/${type.toLowerCase()}/fields`, async () => {
+        const data = await client.get<AdoListResponse<WorkItemTypeFieldDefinition>>(
+            `${encodeURIComponent(projectId)}/_apis/wit/workitemtypes/${encodeURIComponent(type)}/fields?$expand=allowedValues&api-version=7.1`
+        );
+        return data.value || [];
+    });
+}
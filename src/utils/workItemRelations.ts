@@ -0,0 +1,67 @@
+import type { WorkItemRelation } from "../interface/adoInterfaces";
+
+// Work item link types exposed by the link tools, by friendly name
+export const WORK_ITEM_LINK_TYPES = {
+    parent: "System.LinkTypes.Hierarchy-Reverse",
+    child: "System.LinkTypes.Hierarchy-Forward",
+    related: "System.LinkTypes.Related",
+    predecessor: "System.LinkTypes.Dependency-Reverse",
+    successor: "System.LinkTypes.Dependency-Forward",
+    duplicate: "System.LinkTypes.Duplicate-Forward",
+    duplicateOf: "System.LinkTypes.Duplicate-Reverse"
+} as const;
+
+export type WorkItemLinkType = keyof typeof WORK_ITEM_LINK_TYPES;
+
+const RELATION_LABELS: Record<string, string> = {
+    "System.LinkTypes.Hierarchy-Reverse": "Parent",
+    "System.LinkTypes.Hierarchy-Forward": "Child",
+    "System.LinkTypes.Related": "Related",
+    "System.LinkTypes.Dependency-Reverse": "Predecessor",
+    "System.LinkTypes.Dependency-Forward": "Successor",
+    "System.LinkTypes.Duplicate-Forward": "Duplicate",
+    "System.LinkTypes.Duplicate-Reverse": "Duplicate Of",
+    AttachedFile: "Attachment",
+    Hyperlink: "Hyperlink"
+};
+
+export function workItemIdFromUrl(url: string): number | undefined {
+    const match = url.match(/\/workItems\/(\d+)$/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+// Build links use vstfs:///Build/Build/{buildId}
+export function buildIdFromUrl(url: string): number | undefined {
+    const match = url.match(/^vstfs:\/\/\/Build\/Build\/(\d+)$/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Describes an artifact link target from its vstfs:/// URI, e.g.
+ * vstfs:///Git/PullRequestId/{project}%2F{repo}%2F{id} → "PR 42".
+ */
+function describeArtifact(url: string): string {
+    const [, tool, type, rawId = ""] = url.match(/^vstfs:\/\/\/([^/]+)\/([^/]+)\/(.+)$/) ?? [];
+    const parts = decodeURIComponent(rawId).split("/");
+    const last = parts[parts.length - 1];
+
+    if (tool === "Git" && type === "PullRequestId") return `PR ${last}`;
+    if (tool === "Git" && type === "Commit") return `Commit ${last.slice(0, 8)}`;
+    if (tool === "Git" && type === "Ref") return `Branch ${last.replace(/^GB/, "")}`;
+    if (tool === "Build" && type === "Build") return `Build ${last}`;
+    return url;
+}
+
+/**
+ * Turns a relation into a label ("Parent", "Pull Request", ...) and a readable target
+ * (#123, PR 42, file name or URL).
+ */
+export function describeRelation(relation: WorkItemRelation): { label: string; target: string; workItemId?: number; buildId?: number } {
+    const workItemId = workItemIdFromUrl(relation.url);
+    const label = RELATION_LABELS[relation.rel] ?? relation.attributes?.name ?? relation.rel;
+
+    if (workItemId !== undefined) return { label, target: `#${workItemId}`, workItemId };
+    if (relation.rel === "AttachedFile") return { label, target: relation.attributes?.name ?? relation.url };
+    if (relation.rel === "ArtifactLink") return { label, target: describeArtifact(relation.url), buildId: buildIdFromUrl(relation.url) };
+    return { label, target: relation.url };
+}
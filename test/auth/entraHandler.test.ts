@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TokenExchangeCallbackOptions } from "@cloudflare/workers-oauth-provider";
+import { exchangeEntraToken } from "../../src/auth/entraHandler";
+import { json } from "../support/fakeAdo";
+
+const env = { ENTRA_CLIENT_ID: "client", ENTRA_CLIENT_SECRET: "secret" };
+// An MCP token refresh whose upstream Entra token is about to expire
+const refresh: TokenExchangeCallbackOptions = {
+    grantType: "refresh_token",
+    props: { adoToken: "old", refreshToken: "refresh", expiresAt: Date.now() },
+    clientId: "client",
+    userId: "user",
+    scope: []
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("exchangeEntraToken", () => {
+    it("refreshes the Entra token when it is due", async () => {
+        vi.stubGlobal("fetch", async () => json({ access_token: "new", refresh_token: "next", expires_in: 3600 }));
+
+        const result = await exchangeEntraToken(env, refresh);
+
+        expect(result?.newProps).toMatchObject({ adoToken: "new", refreshToken: "next" });
+        expect(result?.accessTokenTTL).toBe(3600);
+    });
+
+    it("reports Entra errors, including non-JSON error pages", async () => {
+        vi.stubGlobal("fetch", async () => json({ error: "invalid_grant", error_description: "AADSTS70008: The refresh token has expired." }, { status: 400 }));
+        await expect(exchangeEntraToken(env, refresh)).rejects.toThrow("Entra ID token request failed: AADSTS70008: The refresh token has expired.");
+
+        vi.stubGlobal("fetch", async () => new Response("<html>Bad gateway</html>", { status: 502, headers: { "Content-Type": "text/html" } }));
+        await expect(exchangeEntraToken(env, refresh)).rejects.toThrow("Entra ID token request failed: status 502");
+    });
+});
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { createAdoClient, DEFAULT_SERVER_URL } from "../../src/client/adoClient";
+import {
+    AdoAuthenticationError,
+    AdoBadRequestError,
+    AdoInvalidResponseError,
+    AdoNotFoundError,
+    AdoResponseTooLargeError,
+    AdoServerError,
+    AdoThrottledError,
+    AdoTimeoutError
+} from "../../src/client/adoErrors";
+import { adoError, createFakeAdo, createMemoryCache, FAKE_ORGANIZATION, FAKE_SERVER_URL, json } from "../support/fakeAdo";
+
+describe("createAdoClient", () => {
+    it("resolves paths against the organization on the configured server", async () => {
+        const ado = createFakeAdo();
+        ado.on("GET", "/contoso/_apis/projects", () => ({ count: 0, value: [] }));
+        const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+        await client.get("_apis/projects?api-version=7.1");
+
+        expect(client.baseUrl).toBe(`${FAKE_SERVER_URL}/contoso`);
+        expect(ado.requests[0].url.href).toBe(`${FAKE_SERVER_URL}/contoso/_apis/projects?api-version=7.1`);
+        expect(ado.requests[0].headers.get("Authorization")).toBe(`Basic ${btoa(":pat")}`);
+    });
+
+    it("defaults to dev.azure.com, with identities on vssps", () => {
+        const cloud = createAdoClient("pat", "contoso");
+        expect(cloud.baseUrl).toBe(`${DEFAULT_SERVER_URL}/contoso`);
+        expect(cloud.identityBaseUrl).toBe("https://vssps.dev.azure.com/contoso");
+
+        // Azure DevOps Server serves identities from the collection itself
+        const server = createAdoClient("pat", "DefaultCollection", { serverUrl: "https://tfs.contoso.local/tfs/" });
+        expect(server.baseUrl).toBe("https://tfs.contoso.local/tfs/DefaultCollection");
+        expect(server.identityBaseUrl).toBe(server.baseUrl);
+    });
+
+    it("requires an organization for relative paths", async () => {
+        const client = createAdoClient("pat", undefined, createFakeAdo().clientOptions());
+        await expect(client.get("_apis/projects")).rejects.toThrow("Organization name is required.");
+    });
+
+    it("returns response headers alongside the data", async () => {
+        const ado = createFakeAdo();
+        ado.on("GET", "/contoso/_apis/projects", () => json({ value: [] }, { headers: { "x-ms-continuationtoken": "abc" } }));
+        const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+        const { headers } = await client.send("_apis/projects");
+        expect(headers.get("x-ms-continuationtoken")).toBe("abc");
+    });
+
+    describe("throttling", () => {
+        it("retries a 429 after Retry-After and succeeds", async () => {
+            const ado = createFakeAdo();
+            let calls = 0;
+            ado.on("GET", "/contoso/_apis/projects", () =>
+                ++calls < 3 ? adoError(429, "Request was blocked", { "Retry-After": "0" }) : { value: ["ok"] });
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+            await expect(client.get("_apis/projects")).resolves.toEqual({ value: ["ok"] });
+            expect(ado.requests).toHaveLength(3);
+        });
+
+        it("retries throttled POSTs too, since ADO did not run them", async () => {
+            const ado = createFakeAdo();
+            let calls = 0;
+            ado.on("POST", "/contoso/_apis/wit/wiql", () =>
+                ++calls === 1 ? adoError(429, "Request was blocked", { "Retry-After": "0" }) : { workItems: [] });
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+            await expect(client.post("_apis/wit/wiql", { query: "SELECT" })).resolves.toEqual({ workItems: [] });
+            expect(ado.requests).toHaveLength(2);
+        });
+
+        it("gives up after maxRetries", async () => {
+            const ado = createFakeAdo();
+            ado.on("GET", "/contoso/_apis/projects", () => adoError(429, "Request was blocked", { "Retry-After": "0" }));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions({ maxRetries: 2 }));
+
+            await expect(client.get("_apis/projects")).rejects.toBeInstanceOf(AdoThrottledError);
+            expect(ado.requests).toHaveLength(3);
+        });
+
+        it("fails fast when Retry-After is longer than it is willing to wait", async () => {
+            const ado = createFakeAdo();
+            ado.on("GET", "/contoso/_apis/projects", () => adoError(429, "Request was blocked", { "Retry-After": "120" }));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions({ maxRetryDelayMs: 1000 }));
+
+            await expect(client.get("_apis/projects")).rejects.toThrow("Azure DevOps is throttling requests; retry after 120s.");
+            expect(ado.requests).toHaveLength(1);
+        });
+    });
+
+    describe("errors", () => {
+        it("retries server errors on GET but not on POST", async () => {
+            const ado = createFakeAdo();
+            ado.on("GET", "/contoso/_apis/projects", () => new Response("<html>Service Unavailable</html>", { status: 503, headers: { "Retry-After": "0" } }));
+            ado.on("POST", "/contoso/_apis/wit/attachments", () => new Response("", { status: 503, headers: { "Retry-After": "0" } }));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions({ maxRetries: 1 }));
+
+            await expect(client.get("_apis/projects")).rejects.toBeInstanceOf(AdoServerError);
+            expect(ado.requestsTo("GET", "/contoso/_apis/projects")).toHaveLength(2);
+
+            await expect(client.post("_apis/wit/attachments", "data")).rejects.toThrow("Azure DevOps service error (503). Try again later.");
+            expect(ado.requestsTo("POST", "/contoso/_apis/wit/attachments")).toHaveLength(1);
+        });
+
+        it("maps statuses to typed errors with ADO's message", async () => {
+            const ado = createFakeAdo();
+            ado.on("GET", "/contoso/_apis/wit/workitems/999", () => adoError(404, "TF401232: Work item 999 does not exist."));
+            ado.on("POST", "/contoso/_apis/wit/wiql", () => adoError(400, "TF51005: The query references a field that does not exist."));
+            ado.on("GET", "/contoso/_apis/projects", () => new Response("", { status: 401 }));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+            const notFound = (await client.get("_apis/wit/workitems/999").catch((error: Error) => error)) as Error;
+            expect(notFound).toBeInstanceOf(AdoNotFoundError);
+            expect(notFound.message).toBe("Not found: TF401232: Work item 999 does not exist.");
+
+            await expect(client.post("_apis/wit/wiql", {})).rejects.toBeInstanceOf(AdoBadRequestError);
+            await expect(client.get("_apis/projects")).rejects.toBeInstanceOf(AdoAuthenticationError);
+        });
+
+        it("treats the 203 sign-in page as an authentication failure", async () => {
+            const ado = createFakeAdo();
+            ado.on("GET", "/contoso/_apis/projects", () => new Response("<html>Sign in</html>", { status: 203, headers: { "Content-Type": "text/html" } }));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+            await expect(client.get("_apis/projects")).rejects.toBeInstanceOf(AdoAuthenticationError);
+        });
+
+        it("times out slow requests", async () => {
+            const hanging: typeof fetch = (_, init) => new Promise((_, reject) => {
+                init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+            });
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, { serverUrl: FAKE_SERVER_URL, fetch: hanging, timeoutMs: 10 });
+
+            await expect(client.get("_apis/projects")).rejects.toBeInstanceOf(AdoTimeoutError);
+        });
+
+        it("times out a body that stalls after the headers arrive", async () => {
+            const stalling: typeof fetch = async (_, init) => new Response(new ReadableStream({
+                start(controller) {
+                    controller.enqueue(new TextEncoder().encode('{"count": '));
+                    init?.signal?.addEventListener("abort", () => controller.error(new Error("aborted")));
+                }
+            }), { headers: { "Content-Type": "application/json" } });
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, { serverUrl: FAKE_SERVER_URL, fetch: stalling, timeoutMs: 10 });
+
+            await expect(client.get("_apis/projects")).rejects.toBeInstanceOf(AdoTimeoutError);
+            await expect(client.get("_apis/projects", { responseType: "arrayBuffer" })).rejects.toBeInstanceOf(AdoTimeoutError);
+        });
+
+        it("stops reading a binary body once it passes maxBytes", async () => {
+            let pulls = 0;
+            const endless: typeof fetch = async () => new Response(new ReadableStream({
+                pull(controller) {
+                    pulls++;
+                    controller.enqueue(new Uint8Array(16));
+                }
+            }));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, { serverUrl: FAKE_SERVER_URL, fetch: endless });
+
+            const error = (await client.get("_apis/wit/attachments/1", { responseType: "arrayBuffer", maxBytes: 40 }).catch((error: Error) => error)) as AdoResponseTooLargeError;
+            expect(error).toBeInstanceOf(AdoResponseTooLargeError);
+            expect(error.size).toBeUndefined();
+            expect(pulls).toBeLessThan(5);
+        });
+
+        it("refuses a binary body whose Content-Length is over maxBytes before reading it", async () => {
+            const ado = createFakeAdo();
+            ado.on("GET", "/contoso/_apis/wit/attachments/1", () => new Response(new Uint8Array(100), { headers: { "Content-Length": "100" } }));
+            ado.on("GET", "/contoso/_apis/wit/attachments/2", () => new Response(new Uint8Array(40)));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+            await expect(client.get("_apis/wit/attachments/1", { responseType: "arrayBuffer", maxBytes: 40 }))
+                .rejects.toThrow("The response (100 bytes) is larger than the 40 byte limit.");
+            const data = await client.get<ArrayBuffer>("_apis/wit/attachments/2", { responseType: "arrayBuffer", maxBytes: 40 });
+            expect(data.byteLength).toBe(40);
+        });
+
+        it("rejects a successful response that is not JSON", async () => {
+            const ado = createFakeAdo();
+            ado.on("GET", "/contoso/_apis/projects", () => new Response("<html>Maintenance</html>", { headers: { "Content-Type": "text/html; charset=utf-8" } }));
+            const client = createAdoClient("pat", FAKE_ORGANIZATION, ado.clientOptions());
+
+            const error = (await client.get("_apis/projects").catch((error: Error) => error)) as Error;
+            expect(error).toBeInstanceOf(AdoInvalidResponseError);
+            expect(error.message).toBe("Azure DevOps returned a response that is not valid JSON (text/html).");
+        });
+    });
+
+    it("caches lookups per organization", async () => {
+        const cache = createMemoryCache();
+        const client = createAdoClient("pat", "Contoso", createFakeAdo().clientOptions({ cache }));
+        let loads = 0;
+
+        await client.cached("projects", "all", async () => ++loads);
+        await client.cached("projects", "all", async () => ++loads);
+
+        expect(loads).toBe(1);
+        expect([...cache.entries.keys()]).toEqual(["projects:contoso/all"]);
+    });
+});
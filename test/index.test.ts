@@ -0,0 +1,43 @@
+import { env, runDurableObjectAlarm, runInDurableObject } from "cloudflare:test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSqlSubscriptionStore } from "../src/resources/subscriptionStore";
+import { createContosoAdo, TOKEN } from "./support/contoso";
+
+declare module "cloudflare:test" {
+    interface ProvidedEnv extends Env {}
+}
+
+const SUBSCRIBED_URI = "ado://contoso/workitems/102";
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe("MyMCP", () => {
+    it("polls the stored subscriptions when the alarm wakes an instance that never ran init", async () => {
+        const ado = createContosoAdo();
+        // The agent's ADO client uses the global fetch; ADO_SERVER_URL points it at the fake server
+        vi.stubGlobal("fetch", ado.fetch);
+        vi.spyOn(console, "log").mockImplementation(() => {});
+        // No client is connected in this test, so the change notification itself fails and is logged
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const stub = env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName("evicted-session"));
+
+        // What an earlier instance of the session left in storage: its props, a subscription and the next poll
+        await runInDurableObject(stub, async (_, state) => {
+            await state.storage.put("props", { adoToken: TOKEN });
+            await createSqlSubscriptionStore(state.storage.sql).save({ uri: SUBSCRIBED_URI, organization: "contoso", id: 102, rev: 11 });
+            // Far enough ahead that workerd doesn't fire it before runDurableObjectAlarm does
+            await state.storage.setAlarm(Date.now() + 60_000);
+        });
+
+        expect(await runDurableObjectAlarm(stub)).toBe(true);
+
+        expect(ado.requestsTo("GET", "/contoso/_apis/wit/workitems")).toHaveLength(1);
+        await runInDurableObject(stub, async (_, state) => {
+            expect(await createSqlSubscriptionStore(state.storage.sql).get(SUBSCRIBED_URI)).toMatchObject({ rev: 12 });
+            expect(await state.storage.getAlarm()).not.toBeNull();
+        });
+    });
+});
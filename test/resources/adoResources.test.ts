@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { registerAdoResources } from "../../src/resources/adoResources";
+import { createMemorySubscriptionStore, type SubscriptionStore } from "../../src/resources/subscriptionStore";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, TOKEN } from "../support/contoso";
+
+let ado: ContosoAdo;
+let store: SubscriptionStore;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+    store = createMemorySubscriptionStore();
+});
+
+// A session on a new server instance; sessions sharing the store stand for one Durable Object before and after eviction
+async function connect() {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const scheduled: (number | "cancelled")[] = [];
+    const { pollSubscriptions } = registerAdoResources(server, TOKEN, ORGANIZATIONS, ado.clientOptions(), {
+        store,
+        scheduler: {
+            schedule: async delayMs => void scheduled.push(delayMs),
+            cancel: async () => void scheduled.push("cancelled")
+        }
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const updated: string[] = [];
+    const pending = new Map<number, (message: JSONRPCMessage) => void>();
+    clientTransport.onmessage = message => {
+        if ("method" in message && message.method === "notifications/resources/updated") updated.push(String(message.params?.uri));
+        if ("id" in message && !("method" in message)) pending.get(Number(message.id))?.(message);
+    };
+    await server.connect(serverTransport);
+    await clientTransport.start();
+
+    let nextId = 1;
+    const request = async (method: string, uri: string) => {
+        const id = nextId++;
+        const response = new Promise<JSONRPCMessage>(resolve => pending.set(id, resolve));
+        await clientTransport.send({ jsonrpc: "2.0", id, method, params: { uri } });
+        const message = await response;
+        if ("error" in message) throw new Error(message.error.message);
+    };
+
+    return {
+        subscribe: (uri: string) => request("resources/subscribe", uri),
+        unsubscribe: (uri: string) => request("resources/unsubscribe", uri),
+        pollSubscriptions,
+        scheduled,
+        updated
+    };
+}
+
+const bumpRevision = (id: number) => {
+    const workItem = ado.workItems.get(id);
+    if (workItem) workItem.rev = (workItem.rev ?? 0) + 1;
+};
+
+describe("work item subscriptions", () => {
+    it("notifies with the URI the client subscribed to when the revision changes", async () => {
+        const session = await connect();
+        await session.subscribe("ado://Contoso/workitems/102");
+        expect(session.scheduled).toEqual([60_000]);
+
+        await session.pollSubscriptions();
+        expect(session.updated).toEqual([]);
+
+        bumpRevision(102);
+        await session.pollSubscriptions();
+        expect(session.updated).toEqual(["ado://Contoso/workitems/102"]);
+        expect(await store.get("ado://Contoso/workitems/102")).toMatchObject({ organization: "contoso", id: 102, rev: 13 });
+    });
+
+    it("keeps polling the stored subscriptions from a fresh instance", async () => {
+        await (await connect()).subscribe("ado://contoso/workitems/102");
+
+        const fresh = await connect();
+        bumpRevision(102);
+        await fresh.pollSubscriptions();
+
+        expect(fresh.updated).toEqual(["ado://contoso/workitems/102"]);
+        expect(fresh.scheduled).toEqual([60_000]);
+    });
+
+    it("stops polling once the last subscription is removed", async () => {
+        const session = await connect();
+        await session.subscribe("ado://contoso/workitems/102");
+        await session.unsubscribe("ado://contoso/workitems/102");
+        await session.pollSubscriptions();
+
+        expect(session.scheduled).toEqual([60_000, "cancelled"]);
+        expect(await store.list()).toEqual([]);
+    });
+
+    it("only accepts work item resources in allowed organizations", async () => {
+        const session = await connect();
+
+        await expect(session.subscribe("ado://contoso/projects")).rejects.toThrow("Only work item resources");
+        await expect(session.subscribe("ado://fabrikam/workitems/1")).rejects.toThrow('Organization "fabrikam" is not allowed.');
+    });
+});
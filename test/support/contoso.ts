@@ -0,0 +1,321 @@
+import type {
+    JsonPatchOperation,
+    WorkItem,
+    WorkItemComment,
+    WorkItemUpdate
+} from "../../src/interface/adoInterfaces";
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
+import type { OrganizationSettings } from "../../src/utils/organizations";
+import { FAKE_ORGANIZATION, FAKE_SERVER_URL, adoError, createFakeAdo, json } from "./fakeAdo";
+import accounts from "../fixtures/accounts.json";
+import backlogWorkItems from "../fixtures/backlogWorkItems.json";
+import backlogs from "../fixtures/backlogs.json";
+import boardDetails from "../fixtures/boardDetails.json";
+import boards from "../fixtures/boards.json";
+import buildDefinitions from "../fixtures/buildDefinitions.json";
+import buildLog from "../fixtures/buildLog-501-5.txt?raw";
+import buildLogs from "../fixtures/buildLogs-501.json";
+import builds from "../fixtures/builds.json";
+import capacities from "../fixtures/capacities.json";
+import areaNodes from "../fixtures/classificationNodes-areas.json";
+import iterationNodes from "../fixtures/classificationNodes-iterations.json";
+import comments102 from "../fixtures/comments-102.json";
+import connectionData from "../fixtures/connectionData.json";
+import fields from "../fixtures/fields.json";
+import identities from "../fixtures/identities.json";
+import iterationWorkItems from "../fixtures/iterationWorkItems.json";
+import iterations from "../fixtures/iterations.json";
+import profile from "../fixtures/profile.json";
+import projects from "../fixtures/projects.json";
+import pullRequestThreads from "../fixtures/pullRequestThreads.json";
+import pullRequestWorkItems from "../fixtures/pullRequestWorkItems.json";
+import pullRequests from "../fixtures/pullRequests.json";
+import repositories from "../fixtures/repositories.json";
+import savedQuery from "../fixtures/savedQuery.json";
+import savedQueryResult from "../fixtures/savedQueryResult.json";
+import teamDaysOff from "../fixtures/teamDaysOff.json";
+import teamSettings from "../fixtures/teamSettings.json";
+import teams from "../fixtures/teams.json";
+import timeline from "../fixtures/timeline-501.json";
+import updates102 from "../fixtures/updates-102.json";
+import workItemTypeFieldsBug from "../fixtures/workItemTypeFields-Bug.json";
+import workItemTypes from "../fixtures/workItemTypes.json";
+import workItems from "../fixtures/workItems.json";
+
+// IDs from the fixtures that tests refer to
+export const PROJECT_ID = "6ce954b1-ce1f-45d1-b94d-e6bf2464ba2c";
+export const TEAM_ID = "0d8b6f3e-2a41-4c7e-9b1f-7e5d3c2a1b09";
+export const REPOSITORY_ID = "4b3a2918-0c7d-4e6f-b5a4-93827160f5e4";
+export const ME_ID = "9d8c7b6a-5f4e-4d3c-b2a1-0f9e8d7c6b5a";
+export const LOG_ATTACHMENT_ID = "1f4e2b9a-7c3d-4e5f-8a6b-9c0d1e2f3a4b";
+export const IMAGE_ATTACHMENT_ID = "8a7b6c5d-4e3f-4a2b-9c1d-0e9f8a7b6c5d";
+
+export const TOKEN = "fake-pat";
+export const ORGANIZATIONS: OrganizationSettings = { defaultOrganization: FAKE_ORGANIZATION, allowedOrganizations: [FAKE_ORGANIZATION] };
+
+// A 1x1 PNG, the content of card-form.png
+export const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+export const LOG_ATTACHMENT_TEXT = "POST /payments 502 Bad Gateway\nretrying with saved card\n";
+
+const org = `/${FAKE_ORGANIZATION}`;
+const copy = <T>(value: unknown): T => structuredClone(value) as T;
+
+// Applies the JSON Patch operations the work item endpoints accept
+function applyPatch(workItem: WorkItem, patch: JsonPatchOperation[]): WorkItem | Response {
+    const updated = copy<WorkItem>(workItem);
+    const fieldValues = updated.fields as Record<string, unknown>;
+    for (const operation of patch) {
+        if (operation.op === "test" && operation.path === "/rev") {
+            if (operation.value !== workItem.rev) {
+                return adoError(412, `TF26071: This work item has been changed by someone else since you opened it. (rev ${workItem.rev})`);
+            }
+        } else if (operation.path.startsWith("/fields/")) {
+            const name = operation.path.slice("/fields/".length);
+            if (operation.op === "remove") delete fieldValues[name];
+            else fieldValues[name] = operation.value;
+        } else if (operation.path === "/relations/-" && operation.op === "add") {
+            updated.relations = [...(updated.relations ?? []), operation.value as NonNullable<WorkItem["relations"]>[number]];
+        } else if (operation.path.startsWith("/relations/") && operation.op === "remove") {
+            updated.relations?.splice(Number(operation.path.slice("/relations/".length)), 1);
+        } else {
+            return adoError(400, `Unsupported patch operation ${operation.op} ${operation.path}`);
+        }
+    }
+    updated.rev = (workItem.rev ?? 0) + 1;
+    return updated;
+}
+
+/**
+ * A fake "contoso" organization seeded from test/fixtures: project Fabrikam Web with the
+ * Checkout Team, work items 101-104 (Epic > Story, Bug > Task), sprint 12, the team's boards and
+ * backlogs, a repository with pull request 42, pipeline storefront-ci with failed run 501, and the
+ * signed-in user Alex Kim.
+ * Work items and comments are kept in memory, so writes are visible to later reads.
+ */
+export function createContosoAdo() {
+    const ado = createFakeAdo();
+    const items = new Map(copy<WorkItem[]>(workItems.value).map(item => [item.id, item]));
+    const comments = new Map<number, WorkItemComment[]>([[102, copy<WorkItemComment[]>(comments102.comments)]]);
+    const attachments = new Map<string, Uint8Array>([
+        [LOG_ATTACHMENT_ID, new TextEncoder().encode(LOG_ATTACHMENT_TEXT)],
+        [IMAGE_ATTACHMENT_ID, Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0))]
+    ]);
+    let nextWorkItemId = 105;
+
+    // Core: projects (paged with the continuation token header, like ADO) and teams
+    ado.on("GET", `${org}/_apis/projects`, ({ url }) => {
+        const top = Number(url.searchParams.get("$top") ?? projects.value.length);
+        const start = Number(url.searchParams.get("continuationToken") ?? 0);
+        const page = projects.value.slice(start, start + top);
+        const next = start + top < projects.value.length ? String(start + top) : undefined;
+        return json({ count: page.length, value: page }, { headers: next ? { "x-ms-continuationtoken": next } : {} });
+    });
+    ado.on("GET", `${org}/_apis/projects/:project/teams`, () => teams);
+    ado.on("GET", `${org}/_apis/connectionData`, () => connectionData);
+    ado.on("GET", `${org}/_apis/identities`, ({ url }) => {
+        const ids = url.searchParams.get("identityIds")?.toLowerCase().split(",");
+        if (ids) return { count: ids.length, value: ids.map(id => identities.value.find(identity => identity.id === id) ?? null) };
+        const search = (url.searchParams.get("filterValue") ?? "").toLowerCase();
+        const found = identities.value.filter(identity =>
+            identity.providerDisplayName.toLowerCase().includes(search) ||
+            identity.properties.Mail.$value.toLowerCase().includes(search));
+        return { count: found.length, value: found };
+    });
+    ado.on("GET", "https://app.vssps.visualstudio.com/_apis/profile/profiles/me", () => profile);
+    ado.on("GET", "https://app.vssps.visualstudio.com/_apis/accounts", () => accounts);
+
+    // Work items
+    ado.on("GET", `${org}/_apis/wit/workitems`, ({ url }) => {
+        const ids = (url.searchParams.get("ids") ?? "").split(",").filter(Boolean).map(Number);
+        const expand = url.searchParams.get("$expand");
+        const value = ids.map(id => items.get(id) ?? null).map(item => {
+            if (!item) return null;
+            return expand === "all" || expand === "relations" ? item : { ...item, relations: undefined };
+        });
+        return { count: value.length, value };
+    });
+    ado.on("GET", `${org}/_apis/wit/workitems/:id`, (_, { id }) =>
+        items.get(Number(id)) ?? adoError(404, `TF401232: Work item ${id} does not exist, or you do not have permissions to read it.`));
+    ado.on("PATCH", `${org}/_apis/wit/workitems/:id`, ({ body }, { id }) => {
+        const workItem = items.get(Number(id));
+        if (!workItem) return adoError(404, `TF401232: Work item ${id} does not exist, or you do not have permissions to read it.`);
+        const updated = applyPatch(workItem, body as JsonPatchOperation[]);
+        if (updated instanceof Response) return updated;
+        items.set(updated.id, updated);
+        return updated;
+    });
+    ado.on("POST", `${org}/:project/_apis/wit/workitems/:type`, ({ body }, { type }) => {
+        const id = nextWorkItemId++;
+        const created = applyPatch({
+            id,
+            rev: 0,
+            url: `${FAKE_SERVER_URL}${org}/_apis/wit/workItems/${id}`,
+            fields: { "System.Title": "", "System.WorkItemType": type.replace(/^\$/, ""), "System.State": "New", "System.TeamProject": "Fabrikam Web" }
+        }, body as JsonPatchOperation[]);
+        if (created instanceof Response) return created;
+        items.set(id, created);
+        return created;
+    });
+    // Pages by $top; the continuation token is the offset of the next page
+    ado.on("GET", `${org}/_apis/wit/workItems/:id/comments`, ({ url }, { id }) => {
+        const list = comments.get(Number(id)) ?? [];
+        const offset = Number(url.searchParams.get("continuationToken") ?? 0);
+        const page = list.slice(offset, offset + Number(url.searchParams.get("$top") ?? 200));
+        const next = offset + page.length;
+        return {
+            totalCount: list.length,
+            count: page.length,
+            comments: page,
+            ...(next < list.length ? { continuationToken: String(next) } : {})
+        };
+    });
+    ado.on("POST", `${org}/_apis/wit/workItems/:id/comments`, ({ body }, { id }) => {
+        const list = comments.get(Number(id)) ?? [];
+        const comment: WorkItemComment = {
+            id: 6000 + list.length,
+            text: (body as { text: string }).text,
+            createdBy: { displayName: "Alex Kim", uniqueName: "alex@contoso.com" },
+            createdDate: "2025-05-08T09:00:00Z"
+        };
+        comments.set(Number(id), [...list, comment]);
+        return comment;
+    });
+    ado.on("GET", `${org}/_apis/wit/workItems/:id/updates`, ({ url }, { id }) => {
+        const all = Number(id) === 102 ? copy<WorkItemUpdate[]>(updates102.value) : [];
+        const skip = Number(url.searchParams.get("$skip") ?? 0);
+        const page = all.slice(skip, skip + Number(url.searchParams.get("$top") ?? 200));
+        return { count: page.length, value: page };
+    });
+    ado.on("GET", `${org}/_apis/wit/workItems/:id/revisions`, (_, { id }) => {
+        const workItem = items.get(Number(id));
+        return { count: workItem ? 1 : 0, value: workItem ? [workItem] : [] };
+    });
+    ado.on("GET", `${org}/_apis/wit/attachments/:id`, (_, { id }) => {
+        const content = attachments.get(id.toLowerCase());
+        return content
+            ? new Response(content, { headers: { "Content-Type": "application/octet-stream" } })
+            : adoError(404, `VS402903: The attachment ${id} does not exist.`);
+    });
+    ado.on("POST", `${org}/_apis/wit/attachments`, ({ body }) => {
+        const id = crypto.randomUUID();
+        attachments.set(id, body as Uint8Array);
+        return { id, url: `${FAKE_SERVER_URL}${org}/_apis/wit/attachments/${id}` };
+    });
+
+    // Queries: WIQL returns every work item, in ID order
+    const wiqlResult = () => ({
+        queryType: "flat",
+        queryResultType: "workItem",
+        asOf: "2025-05-07T12:00:00Z",
+        workItems: [...items.keys()].sort((a, b) => a - b).map(id => ({ id, url: `${FAKE_SERVER_URL}${org}/_apis/wit/workItems/${id}` }))
+    });
+    ado.on("POST", `${org}/_apis/wit/wiql`, wiqlResult);
+    ado.on("POST", `${org}/:project/_apis/wit/wiql`, wiqlResult);
+    ado.on("POST", `${org}/:project/:team/_apis/wit/wiql`, wiqlResult);
+    ado.on("GET", `${org}/:project/_apis/wit/queries/Shared Queries/Open checkout work`, () => savedQuery);
+    ado.on("GET", `${org}/:project/_apis/wit/queries/${savedQuery.id}`, () => savedQuery);
+    ado.on("GET", `${org}/:project/_apis/wit/queries/Shared Queries`, () => ({
+        id: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d", name: "Shared Queries", path: "Shared Queries", isFolder: true, url: ""
+    }));
+    ado.on("GET", `${org}/:project/_apis/wit/wiql/${savedQuery.id}`, () => savedQueryResult);
+    ado.on("GET", `${org}/:project/:team/_apis/wit/wiql/${savedQuery.id}`, () => savedQueryResult);
+
+    // Metadata
+    ado.on("GET", `${org}/:project/_apis/wit/classificationnodes/areas`, () => areaNodes);
+    ado.on("GET", `${org}/:project/_apis/wit/classificationnodes/iterations`, () => iterationNodes);
+    ado.on("GET", `${org}/:project/_apis/wit/workitemtypes`, () => workItemTypes);
+    ado.on("GET", `${org}/:project/_apis/wit/workitemtypes/Bug/fields`, () => workItemTypeFieldsBug);
+    ado.on("GET", `${org}/_apis/wit/fields`, () => fields);
+
+    // Sprints: Sprint 12 is the current one
+    ado.on("GET", `${org}/:project/:team/_apis/work/teamsettings/iterations`, ({ url }) => {
+        const timeframe = url.searchParams.get("$timeframe");
+        const value = iterations.value.filter(iteration => !timeframe || iteration.attributes.timeFrame === timeframe);
+        return { count: value.length, value };
+    });
+    ado.on("GET", `${org}/:project/:team/_apis/work/teamsettings/iterations/:iteration/workitems`, () => iterationWorkItems);
+    ado.on("GET", `${org}/:project/:team/_apis/work/teamsettings/iterations/:iteration/capacities`, () => capacities);
+    ado.on("GET", `${org}/:project/:team/_apis/work/teamsettings/iterations/:iteration/teamdaysoff`, () => teamDaysOff);
+    ado.on("GET", `${org}/:project/:team/_apis/work/teamsettings`, () => teamSettings);
+
+    // Boards and backlogs: the Stories board has a split Active column and an Expedite lane
+    ado.on("GET", `${org}/:project/:team/_apis/work/boards`, () => boards);
+    ado.on("GET", `${org}/:project/:team/_apis/work/boards/:board`, (_, { board }) =>
+        boardDetails.value.find(entry => entry.id === board || entry.name.toLowerCase() === board.toLowerCase())
+            ?? adoError(404, `VS403215: The board ${board} does not exist.`));
+    ado.on("GET", `${org}/:project/:team/_apis/work/backlogs`, () => backlogs);
+    ado.on("GET", `${org}/:project/:team/_apis/work/backlogs/:level/workItems`, (_, { level }) =>
+        backlogWorkItems[level as keyof typeof backlogWorkItems] ?? adoError(404, `The backlog level ${level} does not exist.`));
+
+    // Repos
+    const pullRequest = (id: string) => pullRequests.value.find(pr => pr.pullRequestId === Number(id))
+        ?? adoError(404, `TF401180: The requested pull request was not found.`);
+    ado.on("GET", `${org}/:project/_apis/git/repositories`, () => repositories);
+    ado.on("GET", `${org}/:project/_apis/git/pullrequests`, () => pullRequests);
+    ado.on("GET", `${org}/:project/_apis/git/repositories/:repository/pullrequests`, (_, { repository }) => {
+        const value = pullRequests.value.filter(pr => pr.repository.id === repository);
+        return { count: value.length, value };
+    });
+    ado.on("GET", `${org}/:project/_apis/git/pullrequests/:id`, (_, { id }) => pullRequest(id));
+    ado.on("GET", `${org}/:project/_apis/git/repositories/:repository/pullRequests/:id/workitems`, () => pullRequestWorkItems);
+    ado.on("GET", `${org}/:project/_apis/git/repositories/:repository/pullRequests/:id/threads`, () => pullRequestThreads);
+    ado.on("POST", `${org}/:project/_apis/git/repositories/:repository/pullRequests/:id/threads`, ({ body }) => ({
+        id: 904,
+        ...(body as object),
+        comments: [{ id: 1, ...(body as { comments: object[] }).comments[0] }]
+    }));
+    ado.on("POST", `${org}/:project/_apis/git/repositories/:repository/pullRequests/:id/threads/:thread/comments`, ({ body }) => ({
+        id: 3,
+        ...(body as object)
+    }));
+    ado.on("PUT", `${org}/:project/_apis/git/repositories/:repository/pullRequests/:id/reviewers/:reviewer`, ({ body }, { reviewer }) => ({
+        id: reviewer,
+        displayName: "Alex Kim",
+        vote: (body as { vote: number }).vote
+    }));
+
+    // Pipelines: run 501 failed in "npm test"
+    ado.on("GET", `${org}/:project/_apis/build/definitions`, () => buildDefinitions);
+    ado.on("GET", `${org}/:project/_apis/build/builds`, ({ url }) => {
+        const ids = url.searchParams.get("buildIds")?.split(",").map(Number);
+        const value = ids ? builds.value.filter(build => ids.includes(build.id)) : builds.value;
+        return { count: value.length, value };
+    });
+    ado.on("GET", `${org}/:project/_apis/build/builds/:id`, (_, { id }) =>
+        builds.value.find(build => build.id === Number(id)) ?? adoError(404, `The requested build ${id} could not be found.`));
+    ado.on("GET", `${org}/:project/_apis/build/builds/501/timeline`, () => timeline);
+    ado.on("GET", `${org}/:project/_apis/build/builds/501/logs`, () => buildLogs);
+    ado.on("GET", `${org}/:project/_apis/build/builds/501/logs/5`, () => new Response(buildLog, { headers: { "Content-Type": "text/plain" } }));
+    ado.on("POST", `${org}/:project/_apis/pipelines/:pipeline/runs`, (_, { pipeline }) => ({
+        id: 502,
+        name: "20250508.1",
+        state: "inProgress",
+        createdDate: "2025-05-08T09:00:00Z",
+        url: `${FAKE_SERVER_URL}${org}/${PROJECT_ID}/_apis/pipelines/${pipeline}/runs/502`,
+        _links: { web: { href: `${FAKE_SERVER_URL}${org}/${PROJECT_ID}/_build/results?buildId=502` } }
+    }));
+
+    return { ...ado, workItems: items, comments, attachments };
+}
+
+export type ContosoAdo = ReturnType<typeof createContosoAdo>;
+
+// The rendered text of a tool result
+export function textOf(result: { content: { type: string; text?: string }[] }): string {
+    return result.content.map(item => item.text ?? "").join("\n");
+}
+
+// A handler returns either its success shape or { content, isError }; this lets tests read both
+export interface ToolOutcome<R> {
+    content: R extends { content: infer C } ? C : never;
+    structuredContent?: R extends { structuredContent: infer S } ? S : never;
+    isError?: boolean;
+}
+
+// Calls the handler as the server does: with the arguments parsed by the tool's schema, defaults applied
+export async function callTool<S extends ZodRawShape, R extends object>(
+    tool: { schema: S; handler: (args: z.objectOutputType<S, ZodTypeAny>) => Promise<R> },
+    args: z.objectInputType<S, ZodTypeAny>
+): Promise<ToolOutcome<R>> {
+    return (await tool.handler(z.object(tool.schema).parse(args))) as ToolOutcome<R>;
+}
@@ -0,0 +1,144 @@
+import type { AdoClientOptions } from "../../src/client/adoClient";
+import type { AdoCache, CacheKind } from "../../src/client/adoCache";
+
+// Where the fake server lives; tools build URLs as `${FAKE_SERVER_URL}/${FAKE_ORGANIZATION}/...`
+export const FAKE_SERVER_URL = "https://ado.test";
+export const FAKE_ORGANIZATION = "contoso";
+
+export interface FakeRequest {
+    method: string;
+    url: URL;
+    headers: Headers;
+    // Parsed JSON for JSON bodies (text if it does not parse), raw bytes otherwise
+    body: unknown;
+}
+
+// A handler returns a Response, or any other value to send as a 200 JSON body
+export type FakeRouteHandler = (request: FakeRequest, params: Record<string, string>) => unknown;
+
+interface FakeRoute {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handler: FakeRouteHandler;
+}
+
+export function json(body: unknown, init: ResponseInit = {}): Response {
+    return new Response(JSON.stringify(body), {
+        ...init,
+        headers: { "Content-Type": "application/json; charset=utf-8", ...init.headers }
+    });
+}
+
+// An ADO-style error body, as the REST APIs send for 4xx responses
+export function adoError(status: number, message: string, headers: HeadersInit = {}): Response {
+    return json({ $id: "1", message, typeKey: "FakeAdoException", errorCode: 0 }, { status, headers });
+}
+
+function compilePattern(path: string): { pattern: RegExp; keys: string[] } {
+    const keys: string[] = [];
+    const absolute = /^https?:\/\//.test(path) ? path : `${FAKE_SERVER_URL}/${path.replace(/^\//, "")}`;
+    const source = absolute
+        .split(/(:[A-Za-z]+)/)
+        .map(part => {
+            if (part.startsWith(":")) {
+                keys.push(part.slice(1));
+                return "([^/]+)";
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        })
+        .join("");
+    return { pattern: new RegExp(`^${source}/?$`, "i"), keys };
+}
+
+async function readBody(request: Request): Promise<unknown> {
+    if (request.method === "GET" || request.method === "DELETE") return undefined;
+    const contentType = request.headers.get("Content-Type") ?? "";
+    if (contentType.includes("json")) {
+        const text = await request.text();
+        try {
+            return text ? JSON.parse(text) : undefined;
+        } catch {
+            return text;
+        }
+    }
+    return new Uint8Array(await request.arrayBuffer());
+}
+
+/**
+ * A stand-in for the ADO REST API, passed to tools through AdoClientOptions.fetch.
+ * - Routes are `METHOD path` pairs; paths are relative to the server (or absolute URLs for the
+ *   profile APIs) with `:name` segments, matched case-insensitively and without the query string
+ * - Routes registered later win, so a test can override the seeded fixtures for one endpoint
+ * - Every request is recorded; unmatched requests get a 404 like ADO's
+ */
+export function createFakeAdo() {
+    const routes: FakeRoute[] = [];
+    const requests: FakeRequest[] = [];
+
+    function on(method: string, path: string, handler: FakeRouteHandler) {
+        routes.unshift({ method: method.toUpperCase(), ...compilePattern(path), handler });
+    }
+
+    const fakeFetch: typeof fetch = async (input, init) => {
+        const request = new Request(input, init);
+        const url = new URL(request.url);
+        const recorded: FakeRequest = { method: request.method, url, headers: request.headers, body: await readBody(request) };
+        requests.push(recorded);
+
+        const target = `${url.origin}${decodeURIComponent(url.pathname)}`;
+        for (const route of routes) {
+            if (route.method !== request.method) continue;
+            const match = route.pattern.exec(target);
+            if (!match) continue;
+
+            const params = Object.fromEntries(route.keys.map((key, index) => [key, match[index + 1]]));
+            const result = await route.handler(recorded, params);
+            return result instanceof Response ? result : json(result);
+        }
+        return adoError(404, `No fake ADO route for ${request.method} ${target}`);
+    };
+
+    return {
+        on,
+        requests,
+        fetch: fakeFetch,
+        // Requests whose method and path (no query) match, for asserting on what a tool sent
+        requestsTo(method: string, path: string): FakeRequest[] {
+            const { pattern } = compilePattern(path);
+            return requests.filter(request =>
+                request.method === method.toUpperCase() &&
+                pattern.test(`${request.url.origin}${decodeURIComponent(request.url.pathname)}`));
+        },
+        clientOptions(options: AdoClientOptions = {}): AdoClientOptions {
+            return { serverUrl: FAKE_SERVER_URL, fetch: fakeFetch, maxRetryDelayMs: 0, ...options };
+        }
+    };
+}
+
+export type FakeAdo = ReturnType<typeof createFakeAdo>;
+
+// In-memory AdoCache, so tests can see what the tools cache without SQLite storage
+export function createMemoryCache(): AdoCache & { entries: Map<string, unknown> } {
+    const entries = new Map<string, unknown>();
+    return {
+        entries,
+        async getOrLoad<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T> {
+            const cacheKey = `${kind}:${key}`;
+            if (entries.has(cacheKey)) return entries.get(cacheKey) as T;
+            const value = await load();
+            entries.set(cacheKey, value);
+            return value;
+        },
+        invalidate(kinds?: CacheKind[]): number {
+            let removed = 0;
+            for (const key of [...entries.keys()]) {
+                if (!kinds || kinds.some(kind => key.startsWith(`${kind}:`))) {
+                    entries.delete(key);
+                    removed++;
+                }
+            }
+            return removed;
+        }
+    };
+}
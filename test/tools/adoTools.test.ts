@@ -0,0 +1,344 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+    addWorkItemCommentTool,
+    createWorkItemTool,
+    getWorkItemDetailsTool,
+    listProjectsTool,
+    listTeamsTool,
+    listWorkItemsTool,
+    updateWorkItemTool
+} from "../../src/tools/adoTools";
+import { adoError } from "../support/fakeAdo";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, PROJECT_ID, TEAM_ID, callTool, textOf, TOKEN } from "../support/contoso";
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("listProjects", () => {
+    it("pages with the continuation token ADO returns in a header", async () => {
+        const tool = listProjectsTool(TOKEN, ORGANIZATIONS, ado.clientOptions());
+
+        const first = await callTool(tool, { top: 2 });
+        expect(first.structuredContent?.projects.map(project => project.name)).toEqual(["Fabrikam Web", "Fabrikam Mobile"]);
+        expect(first.structuredContent?.continuationToken).toBe("2");
+
+        const second = await callTool(tool, { top: 2, continuationToken: "2" });
+        expect(second.structuredContent?.projects.map(project => project.name)).toEqual(["Internal Tools"]);
+        expect(second.structuredContent?.continuationToken).toBeUndefined();
+        expect(ado.requests[1].url.searchParams.get("continuationToken")).toBe("2");
+    });
+
+    it("reports errors instead of throwing", async () => {
+        ado.on("GET", "/contoso/_apis/projects", () => adoError(403, "TF400813: The user is not authorized to access this resource."));
+        const result = await callTool(listProjectsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), {});
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toBe(
+            "Error fetching projects: Access denied: the token lacks permission for this operation (TF400813: The user is not authorized to access this resource.)"
+        );
+    });
+});
+
+describe("listTeams", () => {
+    it("lists the teams of a project", async () => {
+        const result = await callTool(listTeamsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { projectId: PROJECT_ID });
+
+        expect(result.structuredContent?.teams.map(team => team.name)).toEqual(["Checkout Team", "Fabrikam Web Team"]);
+        expect(ado.requestsTo("GET", `/contoso/_apis/projects/${PROJECT_ID}/teams`)).toHaveLength(1);
+    });
+});
+
+describe("listWorkItems", () => {
+    it("pages through the WIQL result with a cursor pinned to the first query's point in time", async () => {
+        const tool = listWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions());
+
+        const first = await callTool(tool, { top: 3, project: "Fabrikam Web", team: "Checkout" });
+        expect(first.structuredContent?.total).toBe(4);
+        expect(first.structuredContent?.workItems.map(item => item.id)).toEqual([101, 102, 103]);
+        const token = first.structuredContent?.continuationToken;
+        expect(token).toBeDefined();
+
+        const second = await callTool(tool, { top: 3, project: "Fabrikam Web", team: "Checkout", continuationToken: token });
+        expect(second.structuredContent?.offset).toBe(3);
+        expect(second.structuredContent?.workItems.map(item => item.id)).toEqual([104]);
+        expect(second.structuredContent?.continuationToken).toBeUndefined();
+
+        const queries = ado.requestsTo("POST", `/contoso/${PROJECT_ID}/${TEAM_ID}/_apis/wit/wiql`)
+            .map(request => (request.body as { query: string }).query);
+        expect(queries).toHaveLength(2);
+        expect(queries[1]).toBe(queries[0]);
+        expect(queries[0]).toMatch(/\nASOF '\d{4}-\d{2}-\d{2}T[\d:.]+Z'$/);
+    });
+
+    it("fails on an unknown project, listing the available ones", async () => {
+        const result = await callTool(listWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Northwind" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain(`No matching project found for "Northwind". Available: Fabrikam Web (${PROJECT_ID})`);
+        expect(ado.requestsTo("POST", "/contoso/:project/_apis/wit/wiql")).toHaveLength(0);
+    });
+
+    it("rejects a continuation token from another query", async () => {
+        const tool = listWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions());
+        const first = await callTool(tool, { top: 1, states: ["Active"] });
+
+        const result = await callTool(tool, { top: 1, states: ["New"], continuationToken: first.structuredContent?.continuationToken });
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain("Continuation token belongs to a different query.");
+    });
+
+    it("resolves assignee and area path filters before building the WIQL", async () => {
+        const tool = listWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions());
+        await callTool(tool, { project: "Fabrikam Web", assignedTo: "Jane", areaPath: "checkout" });
+
+        const [request] = ado.requestsTo("POST", `/contoso/${PROJECT_ID}/_apis/wit/wiql`);
+        const query = (request.body as { query: string }).query;
+        expect(query).toContain("[System.AssignedTo] = 'jane@contoso.com'");
+        expect(query).toContain("[System.AreaPath] UNDER 'Fabrikam Web\\Checkout'");
+    });
+
+    it("limits filtered queries to the given project", async () => {
+        await callTool(listWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", states: ["Active"] });
+
+        const [request] = ado.requestsTo("POST", `/contoso/${PROJECT_ID}/_apis/wit/wiql`);
+        expect((request.body as { query: string }).query).toContain("WHERE [System.TeamProject] = @project\n  AND [System.State] IN ('Active')");
+    });
+
+    it("fetches work items in batches of 200", async () => {
+        ado.on("POST", "/contoso/_apis/wit/wiql", () => ({
+            queryType: "flat",
+            workItems: Array.from({ length: 450 }, (_, i) => ({ id: 1000 + i, url: "" }))
+        }));
+        const result = await callTool(listWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { top: 450 });
+
+        const batches = ado.requestsTo("GET", "/contoso/_apis/wit/workitems").map(request => request.url.searchParams.get("ids")?.split(",").length);
+        expect(batches).toEqual([200, 200, 50]);
+        // IDs the fake does not know are omitted like errorPolicy=omit does
+        expect(result.structuredContent?.workItems).toEqual([]);
+        expect(result.structuredContent?.total).toBe(450);
+    });
+});
+
+describe("getWorkItemDetails", () => {
+    it("renders fields, rich text, comments, mentions and linked builds", async () => {
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: 102 });
+        const text = textOf(result);
+
+        expect(text).toContain("Title: Pay with a saved card");
+        expect(text).toContain("Assigned To: Jane Doe");
+        expect(text).toContain("Story Points: 5");
+        // Mentions and #references are looked up and rendered by name and title
+        expect(text).toContain("reviewed by @Sam Lee");
+        expect(text).toContain("#103 Card form loses focus on error");
+        expect(text).toContain("- Saved cards are listed newest first");
+        expect(text).toContain("💬 Discussion:");
+        expect(text).toContain("2. Sam Lee: **Unblocked**: the API shipped this morning.");
+        expect(text).toMatch(/storefront-ci .*20250507\.3/);
+
+        const [workItem] = result.structuredContent?.workItems ?? [];
+        expect(workItem.comments.map(comment => comment.id)).toEqual([5021, 5022]);
+        expect(workItem.builds.map(build => build.id)).toEqual([501]);
+    });
+
+    it("lists IDs that do not exist and keeps going", async () => {
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: [103, 999] });
+
+        expect(result.structuredContent?.missingIds).toEqual([999]);
+        expect(result.structuredContent?.workItems.map(item => item.id)).toEqual([103]);
+        expect(textOf(result)).toContain("⚠️ Not found or not accessible: 999");
+    });
+
+    it("fails when the discussion cannot be read at all", async () => {
+        ado.on("GET", "/contoso/_apis/wit/workItems/:id/comments", () => adoError(403, "No access to comments"));
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: 102 });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toBe("Error fetching work item details: Access denied: the token lacks permission for this operation (No access to comments)");
+    });
+
+    it("marks the discussion as partial when a later comments page fails", async () => {
+        ado.on("GET", "/contoso/_apis/wit/workItems/:id/comments", ({ url }) => url.searchParams.has("continuationToken")
+            ? adoError(403, "No access to comments")
+            : { totalCount: 3, comments: ado.comments.get(102), continuationToken: "2" });
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: 102 });
+
+        const [workItem] = result.structuredContent?.workItems ?? [];
+        expect(workItem.comments).toHaveLength(2);
+        expect(workItem.commentsError).toContain("No access to comments");
+        expect(textOf(result)).toContain("✂️ Truncated: comments truncated: Access denied");
+    });
+
+    it("fetches comments for several work items at once and follows continuation tokens", async () => {
+        const discussion = Array.from({ length: 450 }, (_, index) => ({
+            id: 7000 + index,
+            text: `<div>Note ${index + 1}</div>`,
+            createdBy: { displayName: "Sam Lee" }
+        }));
+        ado.comments.set(103, discussion);
+        let inFlight = 0;
+        let mostInFlight = 0;
+        ado.on("GET", "/contoso/_apis/wit/workItems/:id/comments", async ({ url }, { id }) => {
+            inFlight++;
+            mostInFlight = Math.max(mostInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+            const list = ado.comments.get(Number(id)) ?? [];
+            const offset = Number(url.searchParams.get("continuationToken") ?? 0);
+            const page = list.slice(offset, offset + Number(url.searchParams.get("$top")));
+            const next = offset + page.length;
+            return { totalCount: list.length, comments: page, continuationToken: next < list.length ? String(next) : undefined };
+        });
+
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: [101, 102, 103, 104] });
+
+        expect(result.structuredContent?.workItems.map(item => item.comments.length)).toEqual([0, 2, 450, 0]);
+        expect(mostInFlight).toBeGreaterThan(1);
+        expect(ado.requestsTo("GET", "/contoso/_apis/wit/workItems/103/comments").map(request => request.url.searchParams.get("continuationToken")))
+            .toEqual([null, "200", "400"]);
+    });
+
+    it("caps the comments per work item with a notice", async () => {
+        ado.comments.set(103, Array.from({ length: 30 }, (_, index) => ({
+            id: 7000 + index,
+            text: `<div>Note ${index + 1}</div>`,
+            createdBy: { displayName: "Sam Lee" }
+        })));
+
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: [102, 103], maxComments: 5 });
+        const text = textOf(result);
+
+        expect(result.structuredContent?.workItems.map(item => [item.comments.length, item.totalComments])).toEqual([[2, 2], [5, 30]]);
+        // Only the comments asked for are fetched
+        expect(ado.requestsTo("GET", "/contoso/_apis/wit/workItems/103/comments").map(request => request.url.searchParams.get("$top"))).toEqual(["5"]);
+        expect(text).toContain("   5. Sam Lee: Note 5\n\n");
+        expect(text).toContain("✂️ Truncated: showing 5 of 30 comments. Raise maxComments or maxChars to see more.");
+        expect(text.match(/Truncated/g)).toHaveLength(1);
+    });
+
+    it("cuts rich text and comments off at the character cap", async () => {
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: 102, maxChars: 60 });
+        const text = textOf(result);
+
+        // Sections share the allowance in the order they are shown
+        expect(text).toContain("✅ Acceptance Criteria:\n- Saved cards are listed newest first\n- The CVV is always as…\n\n🧬 Relations:");
+        expect(text).not.toContain("📝 Description:");
+        expect(text).not.toContain("💬 Discussion:");
+        expect(text).toContain("✂️ Truncated: showing 0 of 2 comments; text cut at 60 characters. Raise maxComments or maxChars to see more.");
+        // The structured output keeps the full comments
+        expect(result.structuredContent?.workItems[0].comments).toHaveLength(2);
+    });
+
+    it("leaves out excluded sections without fetching them", async () => {
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), {
+            ids: 102,
+            exclude: ["discussion", "relations", "acceptanceCriteria"],
+            format: "markdown"
+        });
+        const text = textOf(result);
+
+        expect(text).toContain("#### Description");
+        expect(text).not.toContain("#### Acceptance Criteria");
+        expect(text).not.toContain("#### Discussion");
+        expect(text).not.toContain("#### Relations");
+        expect(ado.requestsTo("GET", "/contoso/_apis/wit/workItems/102/comments")).toHaveLength(0);
+        expect(ado.requestsTo("GET", `/contoso/${PROJECT_ID}/_apis/build/builds`)).toHaveLength(0);
+        expect(ado.requestsTo("GET", "/contoso/_apis/wit/workitems")[0].url.searchParams.get("$expand")).toBe("fields");
+
+        const [workItem] = result.structuredContent?.workItems ?? [];
+        expect(workItem.fields["Microsoft.VSTS.Common.AcceptanceCriteria"]).toBeUndefined();
+        expect(workItem.totalComments).toBeUndefined();
+    });
+
+    it("shows only the included sections", async () => {
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: 102, include: ["discussion"] });
+        const text = textOf(result);
+
+        expect(text).toContain("Assigned To: Jane Doe");
+        expect(text).toContain("💬 Discussion:");
+        expect(text).not.toContain("📝 Description:");
+        expect(text).not.toContain("🧬 Relations:");
+    });
+
+    it("limits fields by display or reference name", async () => {
+        const result = await callTool(getWorkItemDetailsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ids: 103, fields: ["severity", "Microsoft.VSTS.Common.Priority"], format: "markdown" });
+
+        expect(textOf(result)).toContain("- **Priority:** 2");
+        expect(textOf(result)).toContain("- **Severity:** 3 - Medium");
+        expect(textOf(result)).not.toContain("Repro Steps");
+        expect(Object.keys(result.structuredContent?.workItems[0].fields ?? {}).sort()).toEqual([
+            "Microsoft.VSTS.Common.Priority",
+            "Microsoft.VSTS.Common.Severity",
+            "System.State",
+            "System.Title",
+            "System.WorkItemType"
+        ]);
+    });
+});
+
+describe("createWorkItem", () => {
+    it("converts Markdown and resolves the iteration path", async () => {
+        const result = await callTool(createWorkItemTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), {
+            project: "Fabrikam Web",
+            type: "Bug",
+            title: "Saved card not shown",
+            fields: { "System.Description": "Seen after **#102** shipped", "System.IterationPath": "sprint 13" }
+        });
+
+        expect(result.structuredContent?.workItem.id).toBe(105);
+        const [request] = ado.requestsTo("POST", `/contoso/${PROJECT_ID}/_apis/wit/workitems/$Bug`);
+        expect(request.headers.get("Content-Type")).toBe("application/json-patch+json");
+        expect(request.body).toEqual(expect.arrayContaining([
+            { op: "add", path: "/fields/System.Title", value: "Saved card not shown" },
+            { op: "add", path: "/fields/System.IterationPath", value: "Fabrikam Web\\Sprint 13" },
+            {
+                op: "add",
+                path: "/fields/System.Description",
+                value: "<p>Seen after <strong><a href=\"https://ado.test/contoso/_workitems/edit/102\" data-vss-mention=\"version:1.0\">#102</a></strong> shipped</p>"
+            }
+        ]));
+    });
+
+    it("rejects fields that are unknown or read-only without calling ADO", async () => {
+        const tool = createWorkItemTool(TOKEN, ORGANIZATIONS, ado.clientOptions());
+
+        const unknown = await callTool(tool, { project: "Fabrikam Web", type: "Bug", title: "x", fields: { "Custom.Nope": "1" } });
+        expect(textOf(unknown)).toContain("Unknown field(s): Custom.Nope");
+
+        const readOnly = await callTool(tool, { project: "Fabrikam Web", type: "Bug", title: "x", fields: { "System.CreatedDate": "2025-01-01" } });
+        expect(textOf(readOnly)).toContain("Field(s) cannot be modified: System.CreatedDate");
+        expect(ado.requestsTo("POST", "/contoso/:project/_apis/wit/workitems/:type")).toHaveLength(0);
+    });
+});
+
+describe("updateWorkItem", () => {
+    it("updates fields and returns the saved work item with its comments", async () => {
+        const result = await callTool(updateWorkItemTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, fields: { "System.State": "Closed", "System.Tags": null } });
+
+        expect(result.structuredContent?.workItem.fields["System.State"]).toBe("Closed");
+        expect(result.structuredContent?.workItem.fields["System.Tags"]).toBeUndefined();
+        expect(result.structuredContent?.workItem.comments).toHaveLength(2);
+        expect(ado.workItems.get(102)?.rev).toBe(13);
+    });
+
+    it("fails when the work item moved past the expected revision", async () => {
+        const result = await callTool(updateWorkItemTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, fields: { "System.State": "Closed" }, expectedRevision: 11 });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain("TF26071");
+        expect(ado.workItems.get(102)?.fields["System.State"]).toBe("Active");
+    });
+});
+
+describe("addWorkItemComment", () => {
+    it("posts Markdown as HTML and returns the discussion", async () => {
+        const result = await callTool(addWorkItemCommentTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, text: "Shipped in *build 502*" });
+
+        const [request] = ado.requestsTo("POST", "/contoso/_apis/wit/workItems/102/comments");
+        expect(request.body).toEqual({ text: "<p>Shipped in <em>build 502</em></p>" });
+        expect(result.structuredContent?.workItem.comments).toHaveLength(3);
+        expect(textOf(result)).toContain("3. Alex Kim: Shipped in *build 502*");
+    });
+});
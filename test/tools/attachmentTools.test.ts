@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+    getWorkItemAttachmentTool,
+    listWorkItemAttachmentsTool,
+    uploadWorkItemAttachmentTool
+} from "../../src/tools/attachmentTools";
+import { adoError } from "../support/fakeAdo";
+import {
+    type ContosoAdo,
+    createContosoAdo,
+    IMAGE_ATTACHMENT_ID,
+    LOG_ATTACHMENT_ID,
+    LOG_ATTACHMENT_TEXT,
+    ORGANIZATIONS,
+    PNG_BASE64,
+    callTool,
+    textOf,
+    TOKEN
+} from "../support/contoso";
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("listWorkItemAttachments", () => {
+    it("lists attached files with who uploaded them", async () => {
+        const result = await callTool(listWorkItemAttachmentsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102 });
+
+        expect(result.structuredContent?.attachments).toMatchObject([
+            { id: LOG_ATTACHMENT_ID, name: "checkout.log", size: 58, comment: "Log from the failed payment", uploadedBy: "Jane Doe" },
+            { id: IMAGE_ATTACHMENT_ID, name: "card-form.png", size: 70, uploadedBy: "Jane Doe" }
+        ]);
+    });
+
+    it("still lists the files when the history can't be read", async () => {
+        ado.on("GET", "/contoso/_apis/wit/workItems/:id/updates", () => adoError(403, "TF400813: Access denied."));
+        const result = await callTool(listWorkItemAttachmentsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102 });
+
+        expect(result.structuredContent?.count).toBe(2);
+        expect(result.structuredContent?.attachments[0].uploadedBy).toBeUndefined();
+    });
+});
+
+describe("getWorkItemAttachment", () => {
+    it("returns text files as text", async () => {
+        const result = await callTool(getWorkItemAttachmentTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, attachment: "checkout" });
+
+        expect(result.structuredContent?.returnedAs).toBe("text");
+        expect(result.content[result.content.length - 1]).toEqual({ type: "text", text: LOG_ATTACHMENT_TEXT });
+    });
+
+    it("returns images as image content", async () => {
+        const result = await callTool(getWorkItemAttachmentTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, attachment: IMAGE_ATTACHMENT_ID });
+
+        expect(result.content[result.content.length - 1]).toEqual({ type: "image", data: PNG_BASE64, mimeType: "image/png" });
+    });
+
+    it("refuses files over the read limit without downloading them", async () => {
+        const limits = { maxReadBytes: 64, maxUploadBytes: 64 };
+        const result = await callTool(getWorkItemAttachmentTool(TOKEN, ORGANIZATIONS, ado.clientOptions(), limits), { id: 102, attachment: "card-form.png" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain("card-form.png is 70 B, over the 64 B limit.");
+        expect(ado.requestsTo("GET", `/contoso/_apis/wit/attachments/${IMAGE_ATTACHMENT_ID}`)).toHaveLength(0);
+    });
+
+    it("stops reading a file with no recorded size once it passes the read limit", async () => {
+        for (const relation of ado.workItems.get(102)?.relations ?? []) delete relation.attributes?.resourceSize;
+        const limits = { maxReadBytes: 64, maxUploadBytes: 64 };
+        const result = await callTool(getWorkItemAttachmentTool(TOKEN, ORGANIZATIONS, ado.clientOptions(), limits), { id: 102, attachment: "card-form.png" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toMatch(/card-form\.png is (70 B, )?over the 64 B limit\./);
+    });
+
+    it("rejects a kind that doesn't fit the file", async () => {
+        const result = await callTool(getWorkItemAttachmentTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, attachment: "checkout.log", as: "image" });
+
+        expect(textOf(result)).toBe("Error fetching attachment: The attachment is not an image (text/plain).");
+    });
+});
+
+describe("uploadWorkItemAttachment", () => {
+    it("uploads base64 content and links it to the work item", async () => {
+        const result = await callTool(uploadWorkItemAttachmentTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 103, fileName: "focus.png", content: PNG_BASE64, encoding: "base64", comment: "After the fix" });
+
+        expect(result.isError).toBeUndefined();
+        const [upload] = ado.requestsTo("POST", "/contoso/_apis/wit/attachments");
+        expect(upload.url.searchParams.get("fileName")).toBe("focus.png");
+        expect(upload.headers.get("Content-Type")).toBe("application/octet-stream");
+        expect((upload.body as Uint8Array).length).toBe(70);
+
+        const link = ado.workItems.get(103)?.relations?.slice(-1)[0];
+        expect(link).toMatchObject({ rel: "AttachedFile", attributes: { comment: "After the fix" } });
+        expect(textOf(result)).toContain("📎 Attached focus.png (70 B) to work item 103");
+    });
+
+    it("checks the size limit and encoding before calling ADO", async () => {
+        const tool = uploadWorkItemAttachmentTool(TOKEN, ORGANIZATIONS, ado.clientOptions(), { maxReadBytes: 64, maxUploadBytes: 64 });
+
+        const tooLarge = await callTool(tool, { id: 103, fileName: "focus.png", content: PNG_BASE64, encoding: "base64" });
+        expect(textOf(tooLarge)).toBe("Error uploading attachment: focus.png is 70 B, over the 64 B upload limit.");
+
+        const invalid = await callTool(tool, { id: 103, fileName: "focus.png", content: "not base64!", encoding: "base64" });
+        expect(textOf(invalid)).toBe("Error uploading attachment: Content is not valid base64.");
+        expect(ado.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { listBacklogTool, listBoardItemsTool, listBoardsTool, moveBoardItemTool } from "../../src/tools/boardTools";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, PROJECT_ID, TEAM_ID, callTool, textOf, TOKEN } from "../support/contoso";
+
+const KANBAN = "WEF_5A1E3C7B9D2F4E6A8B0C1D2E3F4A5B6C_Kanban";
+const team = { project: "Fabrikam Web", team: "Checkout" };
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("listBoards", () => {
+    it("lists the team's boards with their columns and swimlanes", async () => {
+        const result = await callTool(listBoardsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), team);
+        const boards = result.structuredContent?.boards ?? [];
+
+        expect(boards.map(board => board.name)).toEqual(["Epics", "Features", "Stories"]);
+        expect(boards[2].columns.map(column => [column.name, column.wipLimit, column.split])).toEqual([
+            ["New", undefined, false],
+            ["Active", 5, true],
+            ["In Review", 3, false],
+            ["Closed", undefined, false]
+        ]);
+        expect(boards[2].swimlanes).toEqual(["Default Lane", "Expedite"]);
+        expect(textOf(result)).toContain("Columns: New → Active [WIP 5] [split] → In Review [WIP 3] → Closed");
+    });
+});
+
+describe("listBoardItems", () => {
+    it("groups the board's cards by column in backlog order", async () => {
+        const result = await callTool(listBoardItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, board: "stories" });
+
+        expect(result.structuredContent?.cards).toMatchObject([
+            // Never moved on the board: shown in the column mapped to its state
+            { id: 103, column: "New", lane: "Default Lane", done: undefined },
+            { id: 102, column: "Active", lane: "Expedite", done: true }
+        ]);
+        expect(textOf(result)).toContain("Active (1/5)\n   - [User Story] Pay with a saved card (#102, Done, Jane Doe, Expedite)");
+        expect(ado.requestsTo("GET", `/contoso/${PROJECT_ID}/${TEAM_ID}/_apis/work/backlogs/Microsoft.RequirementCategory/workItems`)).toHaveLength(1);
+    });
+
+    it("filters by column", async () => {
+        const result = await callTool(listBoardItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, board: "Stories", column: "new" });
+
+        expect(result.structuredContent?.cards.map(card => card.id)).toEqual([103]);
+        expect(textOf(result)).not.toContain("Active");
+    });
+
+    it("counts every card in the column when there are more than top", async () => {
+        Object.assign(ado.workItems.get(102)?.fields ?? {}, { [`${KANBAN}.Column`]: "New" });
+        const result = await callTool(listBoardItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, board: "Stories", column: "New", top: 1 });
+
+        expect(result.structuredContent?.total).toBe(2);
+        expect(result.structuredContent?.cards.map(card => card.id)).toEqual([103]);
+        expect(textOf(result)).toContain("Stories Board (1 of 2 cards)");
+        expect(textOf(result)).toContain("Showing the first 1 cards in backlog order. Increase top to see more.");
+    });
+
+    it("fails on an unknown board, listing the available ones", async () => {
+        const result = await callTool(listBoardItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, board: "Sprints" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain('No matching board found for "Sprints". Available: Epics, Features, Stories');
+    });
+});
+
+describe("moveBoardItem", () => {
+    it("moves a card to a column on the board for its type and updates the state", async () => {
+        const result = await callTool(moveBoardItemTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, id: 103, column: "review" });
+
+        const [patch] = ado.requestsTo("PATCH", "/contoso/_apis/wit/workitems/103");
+        expect(patch.body).toEqual([
+            { op: "add", path: `/fields/${KANBAN}.Column`, value: "In Review" },
+            { op: "add", path: "/fields/System.State", value: "Resolved" }
+        ]);
+        expect(result.structuredContent?.board.name).toBe("Stories");
+        expect(textOf(result)).toContain("Column: New → In Review");
+        expect(textOf(result)).toContain("State: New → Resolved");
+    });
+
+    it("moves a card between lanes and halves of a split column", async () => {
+        const result = await callTool(moveBoardItemTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, id: 102, lane: "default", done: false });
+
+        const [patch] = ado.requestsTo("PATCH", "/contoso/_apis/wit/workitems/102");
+        expect(patch.body).toEqual([
+            { op: "add", path: `/fields/${KANBAN}.Column`, value: "Active" },
+            { op: "add", path: `/fields/${KANBAN}.Column.Done`, value: false },
+            { op: "add", path: `/fields/${KANBAN}.Lane`, value: "" }
+        ]);
+        expect(result.structuredContent?.card).toMatchObject({ column: "Active", done: false, lane: "Default Lane", state: "Active" });
+    });
+
+    it("rejects moves the board does not allow without changing the work item", async () => {
+        const tool = moveBoardItemTool(TOKEN, ORGANIZATIONS, ado.clientOptions());
+
+        const notSplit = await callTool(tool, { ...team, id: 103, column: "In Review", done: true });
+        expect(textOf(notSplit)).toBe('Error moving board item: Column "In Review" is not split into Doing and Done.');
+
+        const wrongBoard = await callTool(tool, { ...team, id: 104, board: "Stories", column: "Active" });
+        expect(textOf(wrongBoard)).toBe("Error moving board item: Task work items are not on the Stories board.");
+
+        const nowhere = await callTool(tool, { ...team, id: 102 });
+        expect(textOf(nowhere)).toBe("Error moving board item: Give a column, lane or done to move the card to.");
+        expect(ado.requests.filter(request => request.method === "PATCH")).toHaveLength(0);
+    });
+});
+
+describe("listBacklog", () => {
+    it("lists the requirement backlog in priority order by default", async () => {
+        const result = await callTool(listBacklogTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, top: 1 });
+
+        expect(result.structuredContent?.level.name).toBe("Stories");
+        // Hidden levels are left out; the hierarchy runs top down
+        expect(result.structuredContent?.levels.map(level => level.name)).toEqual(["Epics", "Features", "Stories"]);
+        expect(result.structuredContent?.total).toBe(2);
+        expect(result.structuredContent?.workItems.map(item => item.id)).toEqual([103]);
+        expect(textOf(result)).toContain("Showing the top 1 of 2 work items. Increase top to see more.");
+        expect(textOf(result)).toContain("Other backlog levels: Epics, Features");
+    });
+
+    it("resolves a backlog level by name", async () => {
+        const epics = await callTool(listBacklogTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, level: "epic", format: "markdown" });
+        expect(textOf(epics)).toContain("| 1 | [101](https://ado.test/contoso/_workitems/edit/101) | Epic | Checkout redesign | Active |");
+
+        const features = await callTool(listBacklogTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, level: "Microsoft.FeatureCategory" });
+        expect(textOf(features)).toBe("The Features backlog is empty.");
+    });
+});
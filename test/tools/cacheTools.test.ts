@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { clearCacheTool } from "../../src/tools/cacheTools";
+import { listWorkItemTypesTool } from "../../src/tools/workItemTypeTools";
+import { createMemoryCache } from "../support/fakeAdo";
+import { createContosoAdo, ORGANIZATIONS, PROJECT_ID, callTool, textOf, TOKEN } from "../support/contoso";
+
+describe("clearCache", () => {
+    it("drops the requested kinds so the next call reloads them", async () => {
+        const ado = createContosoAdo();
+        const cache = createMemoryCache();
+        const listTypes = listWorkItemTypesTool(TOKEN, ORGANIZATIONS, ado.clientOptions({ cache }));
+        const typesPath = `/contoso/${PROJECT_ID}/_apis/wit/workitemtypes`;
+
+        await callTool(listTypes, { project: "Fabrikam Web" });
+        await callTool(listTypes, { project: "Fabrikam Web" });
+        expect(ado.requestsTo("GET", typesPath)).toHaveLength(1);
+
+        const result = await callTool(clearCacheTool(TOKEN, ORGANIZATIONS, { cache }), { kinds: ["workItemTypes"] });
+        expect(result.structuredContent).toEqual({ kinds: ["workItemTypes"], removedEntries: 1 });
+
+        await callTool(listTypes, { project: "Fabrikam Web" });
+        expect(ado.requestsTo("GET", typesPath)).toHaveLength(2);
+        // Projects were not cleared
+        expect(ado.requestsTo("GET", "/contoso/_apis/projects")).toHaveLength(1);
+    });
+
+    it("reports when the session has no cache", async () => {
+        const result = await callTool(clearCacheTool(TOKEN, ORGANIZATIONS), {});
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toBe("Error clearing cache: Caching is not enabled for this session.");
+    });
+});
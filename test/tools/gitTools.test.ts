@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+    addPullRequestCommentTool,
+    getPullRequestTool,
+    listPullRequestsTool,
+    listRepositoriesTool,
+    setPullRequestVoteTool
+} from "../../src/tools/gitTools";
+import {
+    type ContosoAdo,
+    createContosoAdo,
+    ME_ID,
+    ORGANIZATIONS,
+    PROJECT_ID,
+    REPOSITORY_ID,
+    callTool,
+    textOf,
+    TOKEN
+} from "../support/contoso";
+
+const SAM_ID = "7c6b5a49-3e2d-4f1c-8b0a-9e8d7c6b5a4f";
+const prPath = `/contoso/${PROJECT_ID}/_apis/git/repositories/${REPOSITORY_ID}/pullRequests/42`;
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("listRepositories", () => {
+    it("lists the repositories of a project", async () => {
+        const result = await callTool(listRepositoriesTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web" });
+
+        expect(result.structuredContent?.repositories.map(repo => repo.name)).toEqual(["storefront", "payments-service"]);
+    });
+});
+
+describe("listPullRequests", () => {
+    it("resolves the repository, reviewer and branch filters", async () => {
+        const result = await callTool(listPullRequestsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), {
+            project: "Fabrikam Web",
+            repository: "store",
+            reviewer: "sam@contoso.com",
+            targetBranch: "main"
+        });
+
+        expect(result.structuredContent?.pullRequests.map(pr => pr.pullRequestId)).toEqual([42, 41]);
+        const [request] = ado.requestsTo("GET", `/contoso/${PROJECT_ID}/_apis/git/repositories/${REPOSITORY_ID}/pullrequests`);
+        expect(request.url.searchParams.get("searchCriteria.reviewerId")).toBe(SAM_ID);
+        expect(request.url.searchParams.get("searchCriteria.targetRefName")).toBe("refs/heads/main");
+        expect(request.url.searchParams.get("searchCriteria.status")).toBe("active");
+    });
+
+    it("fails on an unknown repository, listing the available ones", async () => {
+        const result = await callTool(listPullRequestsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", repository: "billing" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain('No matching repository found for "billing"');
+    });
+});
+
+describe("getPullRequest", () => {
+    it("includes reviewers, linked work items and discussion threads", async () => {
+        const result = await callTool(getPullRequestTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pullRequestId: 42 });
+
+        expect(result.structuredContent?.workItems).toEqual([{ id: 102, title: "Pay with a saved card", type: "User Story", state: "Active" }]);
+        // The system thread and the deleted one are left out
+        expect(result.structuredContent?.threads.map(thread => thread.id)).toEqual([902]);
+        const text = textOf(result);
+        expect(text).toContain("Sam Lee: Approved with suggestions (required)");
+        expect(text).toContain("Thread 902 [fixed] on /src/checkout/CardPicker.tsx:18");
+        expect(text).toContain(`URL: https://ado.test/contoso/Fabrikam%20Web/_git/storefront/pullrequest/42`);
+    });
+
+    it("can include system threads", async () => {
+        const result = await callTool(getPullRequestTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pullRequestId: 42, includeSystemThreads: true });
+
+        expect(result.structuredContent?.threads.map(thread => thread.id)).toEqual([901, 902]);
+    });
+
+    it("reports a missing pull request", async () => {
+        const result = await callTool(getPullRequestTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pullRequestId: 7 });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain("TF401180: The requested pull request was not found.");
+    });
+});
+
+describe("addPullRequestComment", () => {
+    it("replies to the first comment of an existing thread", async () => {
+        const result = await callTool(addPullRequestCommentTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pullRequestId: 42, text: "Agreed.", threadId: 902 });
+
+        expect(result.structuredContent).toEqual({ pullRequestId: 42, threadId: 902, commentId: 3 });
+        expect(ado.requestsTo("POST", `${prPath}/threads/902/comments`)[0].body)
+            .toEqual({ content: "Agreed.", parentCommentId: 1, commentType: "text" });
+    });
+
+    it("starts a new thread on a file line", async () => {
+        const result = await callTool(addPullRequestCommentTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pullRequestId: 42, text: "Typo", filePath: "src/checkout/CardPicker.tsx", line: 7 });
+
+        expect(result.structuredContent).toEqual({ pullRequestId: 42, threadId: 904, commentId: 1 });
+        expect(ado.requestsTo("POST", `${prPath}/threads`)[0].body).toEqual({
+            comments: [{ parentCommentId: 0, content: "Typo", commentType: "text" }],
+            status: "active",
+            threadContext: {
+                filePath: "/src/checkout/CardPicker.tsx",
+                rightFileStart: { line: 7, offset: 1 },
+                rightFileEnd: { line: 7, offset: 1 }
+            }
+        });
+    });
+});
+
+describe("setPullRequestVote", () => {
+    it("votes as the token's user", async () => {
+        const result = await callTool(setPullRequestVoteTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pullRequestId: 42, vote: "waitForAuthor" });
+
+        expect(result.structuredContent).toEqual({ pullRequestId: 42, reviewer: "Alex Kim", vote: -5, voteLabel: "Waiting for author" });
+        expect(ado.requestsTo("PUT", `${prPath}/reviewers/${ME_ID}`)[0].body).toEqual({ vote: -5 });
+    });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getWorkItemHistoryTool } from "../../src/tools/historyTools";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, callTool, textOf, TOKEN } from "../support/contoso";
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("getWorkItemHistory", () => {
+    it("hides bookkeeping fields and converts HTML values to Markdown", async () => {
+        const result = await callTool(getWorkItemHistoryTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, format: "markdown" });
+        const changes = result.structuredContent?.changes ?? [];
+
+        expect(changes.map(change => change.rev)).toEqual([1, 2, 10, 12]);
+        expect(changes.flatMap(change => change.fields.map(field => field.field))).not.toContain("System.Rev");
+        expect(changes[1].fields).toContainEqual({ field: "System.AssignedTo", oldValue: undefined, newValue: "Jane Doe" });
+        expect(changes[2].relationsAdded.join("\n")).toContain("checkout.log");
+        expect(changes[3].changedDate).toBe("2025-05-07T11:45:19.4Z");
+        expect(textOf(result)).toContain("- `System.History`: ∅ → **Card list done, **CVV** prompt next.**");
+    });
+
+    it("keeps plain text that merely contains angle brackets", async () => {
+        ado.on("GET", "/contoso/_apis/wit/workItems/:id/updates", () => ({
+            count: 1,
+            value: [{
+                id: 1,
+                rev: 1,
+                revisedBy: { displayName: "Jane Doe" },
+                revisedDate: "2025-05-01T00:00:00Z",
+                fields: { "System.Title": { newValue: "Return Task<string> from the <b>loader</b>" } }
+            }]
+        }));
+        const result = await callTool(getWorkItemHistoryTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102 });
+
+        expect(result.structuredContent?.changes[0].fields).toEqual([
+            { field: "System.Title", oldValue: undefined, newValue: "Return Task<string> from the <b>loader</b>" }
+        ]);
+    });
+
+    it("filters by field and date", async () => {
+        const result = await callTool(getWorkItemHistoryTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), {
+            id: 102,
+            fields: ["system.state", "Microsoft.VSTS.Scheduling.RemainingWork"],
+            since: "2025-04-25"
+        });
+
+        expect(result.structuredContent?.changes).toEqual([
+            {
+                rev: 2,
+                changedBy: "Jane Doe",
+                changedDate: "2025-04-29T10:15:00Z",
+                fields: [{ field: "System.State", oldValue: "New", newValue: "Active" }],
+                relationsAdded: [],
+                relationsRemoved: []
+            },
+            {
+                rev: 12,
+                changedBy: "Sam Lee",
+                changedDate: "2025-05-07T11:45:19.4Z",
+                fields: [{ field: "Microsoft.VSTS.Scheduling.RemainingWork", oldValue: "8", newValue: "5" }],
+                relationsAdded: [],
+                relationsRemoved: []
+            }
+        ]);
+    });
+
+    it("pages through more than 200 updates", async () => {
+        const updates = Array.from({ length: 250 }, (_, index) => ({
+            id: index + 1,
+            rev: index + 1,
+            revisedBy: { displayName: "Jane Doe" },
+            revisedDate: "2025-05-01T00:00:00Z",
+            fields: { "System.Title": { newValue: `Title ${index + 1}` } }
+        }));
+        ado.on("GET", "/contoso/_apis/wit/workItems/:id/updates", ({ url }) => {
+            const skip = Number(url.searchParams.get("$skip"));
+            const page = updates.slice(skip, skip + Number(url.searchParams.get("$top")));
+            return { count: page.length, value: page };
+        });
+
+        const result = await callTool(getWorkItemHistoryTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102 });
+
+        expect(result.structuredContent?.changes).toHaveLength(250);
+        expect(ado.requestsTo("GET", "/contoso/_apis/wit/workItems/102/updates").map(request => request.url.searchParams.get("$skip")))
+            .toEqual(["0", "200"]);
+    });
+
+    it("rejects dates it cannot parse without calling ADO", async () => {
+        const result = await callTool(getWorkItemHistoryTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 102, since: "last week" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toBe("Error fetching work item history: since and until must be ISO 8601 dates.");
+        expect(ado.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    getCurrentSprintTool,
+    getSprintBurndownTool,
+    getSprintCapacityTool,
+    listIterationsTool,
+    listSprintWorkItemsTool
+} from "../../src/tools/iterationTools";
+import type { WorkItem } from "../../src/interface/adoInterfaces";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, PROJECT_ID, TEAM_ID, callTool, textOf, TOKEN } from "../support/contoso";
+
+const SPRINT_11_ID = "c1a7d3e5-2b4f-4d6a-8c9e-0f1a2b3c4d01";
+const SPRINT_12_ID = "c1a7d3e5-2b4f-4d6a-8c9e-0f1a2b3c4d02";
+const team = { project: "Fabrikam Web", team: "Checkout Team" };
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+// Sprint 12 runs from Monday 2025-04-28 to Friday 2025-05-09
+function setToday(date: string) {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(date));
+}
+
+describe("listIterations", () => {
+    it("passes the timeframe filter to ADO", async () => {
+        const result = await callTool(listIterationsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, timeframe: "future" });
+
+        expect(result.structuredContent?.iterations.map(iteration => iteration.name)).toEqual(["Sprint 13"]);
+        const [request] = ado.requestsTo("GET", `/contoso/${PROJECT_ID}/${TEAM_ID}/_apis/work/teamsettings/iterations`);
+        expect(request.url.searchParams.get("$timeframe")).toBe("future");
+    });
+});
+
+describe("getCurrentSprint", () => {
+    it("summarizes the current sprint", async () => {
+        setToday("2025-05-01T08:00:00Z");
+        const result = await callTool(getCurrentSprintTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), team);
+
+        expect(result.structuredContent).toMatchObject({
+            iteration: { id: SPRINT_12_ID, name: "Sprint 12" },
+            workingDaysRemaining: 7,
+            workItemCount: 3,
+            stateCounts: { Active: 1, New: 2 }
+        });
+    });
+
+    it("explains when the team has no current sprint", async () => {
+        ado.on("GET", "/contoso/:project/:team/_apis/work/teamsettings/iterations", () => ({ count: 0, value: [] }));
+        const result = await callTool(getCurrentSprintTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), team);
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toBe("Error fetching current sprint: The team has no current iteration. Check the team's sprint dates.");
+    });
+});
+
+describe("listSprintWorkItems", () => {
+    it("resolves an iteration by name", async () => {
+        const result = await callTool(listSprintWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, iteration: "sprint 11" });
+
+        expect(result.structuredContent?.iteration.id).toBe(SPRINT_11_ID);
+        expect(result.structuredContent?.workItems.map(item => item.id)).toEqual([102, 104, 103]);
+        expect(ado.requestsTo("GET", `/contoso/${PROJECT_ID}/${TEAM_ID}/_apis/work/teamsettings/iterations/${SPRINT_11_ID}/workitems`)).toHaveLength(1);
+    });
+});
+
+describe("getSprintCapacity", () => {
+    it("counts the remaining working days, less team and personal days off", async () => {
+        setToday("2025-05-01T08:00:00Z");
+        const result = await callTool(getSprintCapacityTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), team);
+
+        // May 1, 2, 6, 7, 8 and 9: the weekend and the team day off on May 5 don't count
+        expect(result.structuredContent).toMatchObject({
+            workingDaysRemaining: 6,
+            members: [
+                { name: "Jane Doe", capacityPerDay: 6, availableHours: 30, remainingWork: 5 },
+                { name: "Sam Lee", capacityPerDay: 6, availableHours: 36, remainingWork: 3 }
+            ],
+            unassignedRemainingWork: 8,
+            totalAvailableHours: 66,
+            totalRemainingWork: 16
+        });
+        expect(textOf(result)).toContain("Team: 66h available, 16h remaining — 50h spare");
+    });
+});
+
+describe("getSprintBurndown", () => {
+    it("replays each work item's revisions day by day", async () => {
+        setToday("2025-05-07T12:00:00Z");
+        const revision = (id: number, changedDate: string, remaining: number, iterationPath = "Fabrikam Web\\Sprint 12") => ({
+            id,
+            fields: {
+                "System.ChangedDate": changedDate,
+                "System.IterationPath": iterationPath,
+                "System.State": "Active",
+                "Microsoft.VSTS.Scheduling.RemainingWork": remaining
+            }
+        }) as unknown as WorkItem;
+        const histories: Record<number, WorkItem[]> = {
+            102: [revision(102, "2025-04-25T09:00:00Z", 8), revision(102, "2025-05-06T16:00:00Z", 5)],
+            104: [revision(104, "2025-04-25T09:00:00Z", 8)],
+            // Moved into the sprint mid-way
+            103: [revision(103, "2025-04-20T09:00:00Z", 3, "Fabrikam Web\\Backlog"), revision(103, "2025-05-05T10:00:00Z", 3)]
+        };
+        ado.on("GET", "/contoso/_apis/wit/workItems/:id/revisions", (_, { id }) => ({ value: histories[Number(id)] }));
+
+        const result = await callTool(getSprintBurndownTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), team);
+        const days = result.structuredContent?.days ?? [];
+
+        expect(days.map(day => day.date)).toEqual([
+            "2025-04-28", "2025-04-29", "2025-04-30", "2025-05-01", "2025-05-02", "2025-05-05", "2025-05-06", "2025-05-07"
+        ]);
+        expect(days.map(day => day.remaining)).toEqual([16, 16, 16, 16, 16, 19, 16, 16]);
+        expect(days[0].ideal).toBe(16);
+        expect(days[7].ideal).toBe(3.6);
+        expect(result.structuredContent?.truncated).toBe(false);
+    });
+
+    it("reports a sprint that has not started", async () => {
+        setToday("2025-05-07T12:00:00Z");
+        const result = await callTool(getSprintBurndownTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { ...team, iteration: "Sprint 13" });
+
+        expect(textOf(result)).toBe("Sprint 13 has not started yet (2025-05-12 → 2025-05-23).");
+    });
+});
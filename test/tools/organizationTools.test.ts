@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { listOrganizationsTool } from "../../src/tools/organizationTools";
+import type { OrganizationSettings } from "../../src/utils/organizations";
+import { adoError, FAKE_SERVER_URL } from "../support/fakeAdo";
+import { type ContosoAdo, createContosoAdo, ME_ID, callTool, textOf, TOKEN } from "../support/contoso";
+
+const organizations: OrganizationSettings = { defaultOrganization: "contoso", allowedOrganizations: ["contoso", "contoso-archive"] };
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("listOrganizations", () => {
+    it("merges the token's organizations with the configured allow-list", async () => {
+        const result = await callTool(listOrganizationsTool(TOKEN, organizations, ado.clientOptions()), {});
+
+        expect(result.structuredContent?.organizations).toEqual([
+            { name: "contoso", id: "1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d", url: "https://dev.azure.com/contoso", allowed: true, isDefault: true, reachable: true },
+            { name: "contoso-archive", url: `${FAKE_SERVER_URL}/contoso-archive`, allowed: true, isDefault: false, reachable: false },
+            { name: "contoso-labs", id: "6f5e4d3c-2b1a-4098-8765-4321fedcba98", url: "https://dev.azure.com/contoso-labs", allowed: false, isDefault: false, reachable: true }
+        ]);
+        const [accounts] = ado.requestsTo("GET", "https://app.vssps.visualstudio.com/_apis/accounts");
+        expect(accounts.url.searchParams.get("memberId")).toBe(ME_ID);
+    });
+
+    it("falls back to the configured organizations when discovery fails", async () => {
+        ado.on("GET", "https://app.vssps.visualstudio.com/_apis/profile/profiles/me", () => adoError(401, "TF400813: Resource not available for anonymous access."));
+        const result = await callTool(listOrganizationsTool(TOKEN, organizations, ado.clientOptions()), {});
+
+        expect(result.isError).toBeUndefined();
+        expect(result.structuredContent?.organizations.map(entry => [entry.name, entry.reachable])).toEqual([
+            ["contoso", undefined],
+            ["contoso-archive", undefined]
+        ]);
+        expect(result.structuredContent?.discoveryError).toBeDefined();
+        expect(textOf(result)).toContain("⚠️ Could not discover organizations for this token");
+    });
+});
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+    getPipelineRunTool,
+    listPipelineRunsTool,
+    listPipelinesTool,
+    queuePipelineRunTool
+} from "../../src/tools/pipelineTools";
+import { adoError } from "../support/fakeAdo";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, PROJECT_ID, callTool, textOf, TOKEN } from "../support/contoso";
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("listPipelines", () => {
+    it("lists pipelines with their latest run", async () => {
+        const result = await callTool(listPipelinesTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web" });
+
+        expect(result.structuredContent?.pipelines.map(pipeline => pipeline.name)).toEqual(["storefront-ci", "storefront-deploy"]);
+        expect(textOf(result)).toContain("Latest Run: #20250507.3 — failed (refs/pull/42/merge)");
+    });
+});
+
+describe("listPipelineRuns", () => {
+    it("resolves the pipeline by folder path and filters by branch and result", async () => {
+        await callTool(listPipelineRunsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pipeline: "Web\\Release\\storefront-deploy", branch: "main", result: "failed" });
+
+        const [request] = ado.requestsTo("GET", `/contoso/${PROJECT_ID}/_apis/build/builds`);
+        expect(request.url.searchParams.get("definitions")).toBe("9");
+        expect(request.url.searchParams.get("branchName")).toBe("refs/heads/main");
+        expect(request.url.searchParams.get("resultFilter")).toBe("failed");
+    });
+});
+
+describe("getPipelineRun", () => {
+    it("shows the failed task's errors and the tail of its log", async () => {
+        const result = await callTool(getPipelineRunTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", runId: 501, logLines: 3 });
+
+        expect(result.structuredContent?.failedTasks).toEqual([{
+            name: "npm test",
+            job: "Build and test",
+            // Warnings are left out
+            issues: ["Bash exited with code '1'."],
+            // Without timestamps and colour codes
+            logTail: "FAIL src/checkout/CardPicker.test.tsx\n  Expected 2 saved cards, received 0\n##[error]Bash exited with code '1'.",
+            logLines: 4
+        }]);
+        // Only the last lines are downloaded, using the line count from the logs list
+        const [log] = ado.requestsTo("GET", `/contoso/${PROJECT_ID}/_apis/build/builds/501/logs/5`);
+        expect(log.url.searchParams.get("startLine")).toBe("2");
+    });
+
+    it("still reports the run when a task's log can't be downloaded", async () => {
+        ado.on("GET", "/contoso/:project/_apis/build/builds/501/logs/5", () => adoError(404, "The log was deleted by retention."));
+        const result = await callTool(getPipelineRunTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", runId: 501 });
+
+        expect(result.isError).toBeUndefined();
+        expect(result.structuredContent?.failedTasks).toEqual([{
+            name: "npm test",
+            job: "Build and test",
+            issues: ["Bash exited with code '1'."],
+            logTail: undefined,
+            logLines: undefined
+        }]);
+    });
+
+    it("skips the logs list when no task failed", async () => {
+        ado.on("GET", "/contoso/:project/_apis/build/builds/498/timeline", () => ({
+            records: [{ id: "s1", type: "Stage", name: "Build", state: "completed", result: "succeeded", order: 1 }]
+        }));
+        const result = await callTool(getPipelineRunTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", runId: 498 });
+
+        expect(result.structuredContent?.stages).toEqual([{ name: "Build", type: "Stage", state: "completed", result: "succeeded" }]);
+        expect(result.structuredContent?.failedTasks).toEqual([]);
+        expect(ado.requestsTo("GET", `/contoso/${PROJECT_ID}/_apis/build/builds/498/logs`)).toHaveLength(0);
+    });
+});
+
+describe("queuePipelineRun", () => {
+    it("only previews the run until confirmed", async () => {
+        const result = await callTool(queuePipelineRunTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", pipeline: "storefront-deploy", branch: "main", parameters: { environment: "staging" } });
+
+        expect(result.structuredContent?.queued).toBe(false);
+        expect(textOf(result)).toContain('This would run "storefront-deploy" on main with parameter environment=staging.');
+        expect(ado.requests.filter(request => request.method === "POST")).toHaveLength(0);
+    });
+
+    it("queues the run when confirmed", async () => {
+        const result = await callTool(queuePipelineRunTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), {
+            project: "Fabrikam Web",
+            pipeline: "storefront-deploy",
+            branch: "main",
+            parameters: { environment: "staging" },
+            variables: { verbose: "true" },
+            confirm: true
+        });
+
+        expect(result.structuredContent).toMatchObject({
+            queued: true,
+            run: {
+                id: 502,
+                name: "20250508.1",
+                state: "inProgress",
+                webUrl: `https://ado.test/contoso/${PROJECT_ID}/_build/results?buildId=502`
+            }
+        });
+        expect(ado.requestsTo("POST", `/contoso/${PROJECT_ID}/_apis/pipelines/9/runs`)[0].body).toEqual({
+            resources: { repositories: { self: { refName: "refs/heads/main" } } },
+            templateParameters: { environment: "staging" },
+            variables: { verbose: { value: "true" } }
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { runSavedQueryTool, runWiqlTool } from "../../src/tools/queryTools";
+import { adoError } from "../support/fakeAdo";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, PROJECT_ID, TEAM_ID, callTool, textOf, TOKEN } from "../support/contoso";
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("runWiql", () => {
+    it("runs a flat query at team scope and hydrates the results", async () => {
+        const query = "SELECT [System.Id] FROM WorkItems WHERE [System.IterationPath] = @CurrentIteration";
+        const result = await callTool(runWiqlTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { query, project: "Fabrikam Web", team: "Checkout", top: 2 });
+
+        expect(result.structuredContent?.total).toBe(4);
+        expect(result.structuredContent?.workItems.map(item => item.id)).toEqual([101, 102]);
+        expect(textOf(result)).toContain("1. [Epic] Checkout redesign (#101, Active)");
+        expect(textOf(result)).toContain("Showing the first 2 of 4 work items. Increase top to see more.");
+
+        const [request] = ado.requestsTo("POST", `/contoso/${PROJECT_ID}/${TEAM_ID}/_apis/wit/wiql`);
+        expect(request.body).toEqual({ query });
+    });
+
+    it("requires the project when a team is given", async () => {
+        const query = "SELECT [System.Id] FROM WorkItems WHERE [System.IterationPath] = @CurrentIteration";
+        const result = await callTool(runWiqlTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { query, team: "Checkout" });
+
+        expect(textOf(result)).toBe("Error running WIQL query: team requires project: give the project the team belongs to.");
+        expect(ado.requests).toHaveLength(0);
+    });
+
+    it("shows tree items whose parent was cut off by top as roots", async () => {
+        const link = (source: number | null, target: number) => ({
+            rel: source ? "System.LinkTypes.Hierarchy-Forward" : null,
+            source: source ? { id: source, url: "" } : null,
+            target: { id: target, url: "" }
+        });
+        ado.on("POST", "/contoso/_apis/wit/wiql", () => ({
+            queryType: "tree",
+            workItemRelations: [link(null, 103), link(101, 102), link(102, 104)]
+        }));
+        const query = "SELECT [System.Id] FROM WorkItemLinks MODE (Recursive)";
+        const result = await callTool(runWiqlTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { query, top: 3 });
+
+        expect(textOf(result)).toContain([
+            "[Bug] Card form loses focus on error (#103, New)",
+            "[Epic] Checkout redesign (#101, Active)",
+            "   [User Story] Pay with a saved card (#102, Active)",
+            "",
+            "Showing the first 3 of 4 work items."
+        ].join("\n"));
+    });
+
+    it("reports WIQL syntax errors", async () => {
+        ado.on("POST", "/contoso/_apis/wit/wiql", () => adoError(400, "TF51006: The query statement is missing a FROM clause."));
+        const result = await callTool(runWiqlTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { query: "SELECT [System.Id]" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain("TF51006: The query statement is missing a FROM clause.");
+    });
+});
+
+describe("runSavedQuery", () => {
+    it("resolves a query path and renders tree results by depth", async () => {
+        const result = await callTool(runSavedQueryTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), {
+            project: "Fabrikam Web",
+            query: "Shared Queries/Open checkout work",
+            format: "markdown"
+        });
+
+        expect(result.structuredContent?.queryType).toBe("tree");
+        expect(textOf(result)).toContain([
+            "- [Epic] **Checkout redesign** (#101, Active)",
+            "  - [User Story] **Pay with a saved card** (#102, Active)",
+            "    - [Task] **Store the card token** (#104, New)",
+            "  - [Bug] **Card form loses focus on error** (#103, New)"
+        ].join("\n"));
+        expect(ado.requestsTo("GET", `/contoso/${PROJECT_ID}/_apis/wit/wiql/f0e1d2c3-b4a5-4968-8776-5a4b3c2d1e0f`)).toHaveLength(1);
+    });
+
+    it("rejects query folders", async () => {
+        const result = await callTool(runSavedQueryTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", query: "Shared Queries" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toBe('Error running saved query: "Shared Queries" is a query folder, not a query.');
+    });
+});
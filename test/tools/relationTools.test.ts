@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getWorkItemTreeTool, linkWorkItemsTool, unlinkWorkItemsTool } from "../../src/tools/relationTools";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, callTool, textOf, TOKEN } from "../support/contoso";
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("getWorkItemTree", () => {
+    it("walks the hierarchy one batch per level and rolls up states", async () => {
+        const result = await callTool(getWorkItemTreeTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 101 });
+
+        expect(result.structuredContent?.total).toBe(3);
+        expect(result.structuredContent?.stateCounts).toEqual({
+            "User Story": { Active: 1 },
+            Bug: { New: 1 },
+            Task: { New: 1 }
+        });
+        expect(textOf(result)).toContain([
+            "[Epic] Checkout redesign (#101, Active)",
+            "   [User Story] Pay with a saved card (#102, Active) — Jane Doe",
+            "      [Task] Store the card token (#104, New)",
+            "   [Bug] Card form loses focus on error (#103, New) — Sam Lee"
+        ].join("\n"));
+        // The root, its children and the grandchild; the empty last level needs no request
+        expect(ado.requestsTo("GET", "/contoso/_apis/wit/workitems")).toHaveLength(3);
+    });
+
+    it("stops at the requested depth", async () => {
+        const result = await callTool(getWorkItemTreeTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { id: 101, depth: 1 });
+
+        expect(result.structuredContent?.total).toBe(2);
+        expect(textOf(result)).not.toContain("#104");
+    });
+});
+
+describe("linkWorkItems", () => {
+    it("adds a relation pointing at the target on the same server", async () => {
+        const result = await callTool(linkWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { sourceId: 103, targetId: 104, linkType: "related", comment: "Same form" });
+
+        expect(result.isError).toBeUndefined();
+        expect(ado.requestsTo("PATCH", "/contoso/_apis/wit/workitems/103")[0].body).toEqual([{
+            op: "add",
+            path: "/relations/-",
+            value: {
+                rel: "System.LinkTypes.Related",
+                url: "https://ado.test/contoso/_apis/wit/workItems/104",
+                attributes: { comment: "Same form" }
+            }
+        }]);
+        expect(ado.workItems.get(103)?.relations).toHaveLength(2);
+    });
+
+    it("refuses to link a work item to itself", async () => {
+        const result = await callTool(linkWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { sourceId: 102, targetId: 102, linkType: "related" });
+
+        expect(result.isError).toBe(true);
+        expect(ado.requests).toHaveLength(0);
+    });
+});
+
+describe("unlinkWorkItems", () => {
+    it("removes the matching relations guarded by a revision test", async () => {
+        const result = await callTool(unlinkWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { sourceId: 102, targetId: 104 });
+
+        expect(result.isError).toBeUndefined();
+        expect(ado.requestsTo("PATCH", "/contoso/_apis/wit/workitems/102")[0].body).toEqual([
+            { op: "test", path: "/rev", value: 12 },
+            { op: "remove", path: "/relations/1" }
+        ]);
+        expect(ado.workItems.get(102)?.relations?.some(relation => relation.url.endsWith("/104"))).toBe(false);
+    });
+
+    it("fails when the link type does not match", async () => {
+        const result = await callTool(unlinkWorkItemsTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { sourceId: 102, targetId: 104, linkType: "parent" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toBe("Error unlinking work items: #102 has no parent link to #104.");
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { defineTool } from "../../src/tools/toolDefinition";
+import { createAdoTools, isToolEnabled, registerAdoTools, toolFilterFromEnv } from "../../src/tools/toolRegistry";
+import { ORGANIZATIONS, TOKEN } from "../support/contoso";
+
+const context = { token: TOKEN, organizations: ORGANIZATIONS };
+const tools = createAdoTools(context);
+const toolNamed = (name: string) => {
+    const tool = tools.find(candidate => candidate.name === name);
+    if (!tool) throw new Error(`No tool named ${name}`);
+    return tool;
+};
+
+describe("createAdoTools", () => {
+    it("creates every tool once, each with a title and read-only hint", () => {
+        expect(new Set(tools.map(tool => tool.name)).size).toBe(tools.length);
+        for (const tool of tools) {
+            expect(tool.annotations.title, tool.name).toBeTruthy();
+            expect(typeof tool.annotations.readOnlyHint, tool.name).toBe("boolean");
+            // Every tool lets the caller pick the output format
+            expect(tool.schema.format, tool.name).toBeDefined();
+        }
+    });
+
+    it("includes every tool factory the tool modules export", () => {
+        const modules = import.meta.glob<Record<string, unknown>>("../../src/tools/*Tools.ts", { eager: true });
+        const factories = Object.values(modules).flatMap(module =>
+            Object.entries(module).filter(([name, value]) => name.endsWith("Tool") && typeof value === "function")
+        );
+
+        expect(tools).toHaveLength(factories.length);
+    });
+});
+
+describe("defineTool", () => {
+    it("rejects a handler whose arguments don't match the schema", () => {
+        const tool = defineTool({
+            token: TOKEN,
+            name: "mismatched",
+            annotations: { title: "Mismatched" },
+            schema: { id: z.string() },
+            // @ts-expect-error: the schema produces a string id
+            handler: async ({ id }: { id: number }) => ({ content: [{ type: "text" as const, text: id.toFixed() }] })
+        });
+
+        expect(tool.name).toBe("mismatched");
+    });
+});
+
+describe("tool filters", () => {
+    it("reads comma-separated lists from the environment", () => {
+        expect(toolFilterFromEnv({ ADO_ENABLED_TOOLS: " @readonly, queuePipelineRun ,", ADO_DISABLED_TOOLS: undefined }))
+            .toEqual({ enabled: ["@readonly", "queuePipelineRun"], disabled: [] });
+    });
+
+    it("matches groups, names and wildcards, with the deny-list applied last", () => {
+        const filter = { enabled: ["@readonly", "*PullRequest*"], disabled: ["getPullRequest", "@destructive"] };
+
+        expect(isToolEnabled(toolNamed("listProjects"), filter)).toBe(true);
+        expect(isToolEnabled(toolNamed("addPullRequestComment"), filter)).toBe(true);
+        expect(isToolEnabled(toolNamed("getPullRequest"), filter)).toBe(false);
+        expect(isToolEnabled(toolNamed("setPullRequestVote"), filter)).toBe(false);
+        expect(isToolEnabled(toolNamed("createWorkItem"), filter)).toBe(false);
+    });
+
+    it("enables everything when the allow-list is empty", () => {
+        expect(tools.every(tool => isToolEnabled(tool, { enabled: [], disabled: [] }))).toBe(true);
+    });
+});
+
+describe("registerAdoTools", () => {
+    it("registers the allowed tools and warns about filter entries that match nothing", () => {
+        const registerTool = vi.fn();
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+        const { registered, disabled } = registerAdoTools(
+            { registerTool } as unknown as McpServer,
+            context,
+            { enabled: ["@readonly"], disabled: ["listProjets"] }
+        );
+
+        expect(registered).toContain("listProjects");
+        expect(disabled).toContain("createWorkItem");
+        expect(registerTool).toHaveBeenCalledTimes(registered.length);
+        expect(registerTool).toHaveBeenCalledWith(
+            "listProjects",
+            expect.objectContaining({ title: "List Projects", annotations: expect.objectContaining({ readOnlyHint: true }) }),
+            expect.any(Function)
+        );
+        expect(warn).toHaveBeenCalledWith('Tool filter entry "listProjets" matches no tool');
+        warn.mockRestore();
+    });
+});
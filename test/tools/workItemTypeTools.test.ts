@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getWorkItemTypeTool, listWorkItemTypesTool } from "../../src/tools/workItemTypeTools";
+import { type ContosoAdo, createContosoAdo, ORGANIZATIONS, callTool, textOf, TOKEN } from "../support/contoso";
+
+let ado: ContosoAdo;
+
+beforeEach(() => {
+    ado = createContosoAdo();
+});
+
+describe("listWorkItemTypes", () => {
+    it("leaves out disabled types unless asked", async () => {
+        const tool = listWorkItemTypesTool(TOKEN, ORGANIZATIONS, ado.clientOptions());
+
+        const enabled = await callTool(tool, { project: "Fabrikam Web" });
+        expect(enabled.structuredContent?.types.map(type => type.name)).toEqual(["Bug", "Task", "User Story"]);
+
+        const all = await callTool(tool, { project: "Fabrikam Web", includeDisabled: true });
+        expect(all.structuredContent?.types.find(type => type.name === "Issue")).toMatchObject({ isDisabled: true, states: ["Active", "Closed"] });
+    });
+});
+
+describe("getWorkItemType", () => {
+    it("combines states, transitions and field rules", async () => {
+        const result = await callTool(getWorkItemTypeTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", type: "bug" });
+
+        expect(result.structuredContent?.transitions).toEqual([
+            { from: "", to: ["New"] },
+            // Self-transitions (reason changes) are dropped
+            { from: "New", to: ["Active", "Resolved"] },
+            { from: "Active", to: ["New", "Resolved"] },
+            { from: "Resolved", to: ["Active", "Closed"] },
+            { from: "Closed", to: ["Active"] }
+        ]);
+        // Required fields first, then by name
+        expect(result.structuredContent?.fields.map(field => field.name)).toEqual(["State", "Title", "Assigned To", "Priority", "Repro Steps", "Severity"]);
+        expect(result.structuredContent?.fields.find(field => field.name === "Severity")).toMatchObject({
+            type: "string",
+            required: false,
+            defaultValue: "3 - Medium",
+            allowedValues: ["1 - Critical", "2 - High", "3 - Medium", "4 - Low"]
+        });
+        expect(textOf(result)).toContain("   - (new) → New");
+    });
+
+    it("fails on an unknown type, listing the available ones", async () => {
+        const result = await callTool(getWorkItemTypeTool(TOKEN, ORGANIZATIONS, ado.clientOptions()), { project: "Fabrikam Web", type: "Feature" });
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain('No matching work item type found for "Feature"');
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { decodeHtmlEntities, findHtmlReferences, htmlToMarkdown, looksLikeHtml, markdownToHtml } from "../../src/utils/markdown";
+
+const JANE_ID = "3f2a9c1e-8b7d-4e6f-a5c4-1d2e3f4a5b6c";
+const workItemUrl = (id: number) => `https://ado.test/contoso/_workitems/edit/${id}`;
+
+describe("htmlToMarkdown", () => {
+    it("keeps structure and emphasis", () => {
+        const html = "<div><h2>Steps</h2><ol><li>Open <b>checkout</b></li><li>Pick a card<ul><li>Expired</li></ul></li></ol>" +
+            "<p>See <a href=\"https://contoso.com/spec\">the spec</a> and <code>CardPicker</code>.</p></div>";
+
+        expect(htmlToMarkdown(html)).toMatchInlineSnapshot(`
+          "## Steps
+
+          1. Open **checkout**
+          2. Pick a card
+             - Expired
+
+          See [the spec](https://contoso.com/spec) and \`CardPicker\`."
+        `);
+    });
+
+    it("renders tables", () => {
+        const html = "<table><tr><th>Card</th><th>Result</th></tr><tr><td>Visa</td><td>ok | saved</td></tr></table>";
+
+        expect(htmlToMarkdown(html)).toBe("| Card | Result |\n| --- | --- |\n| Visa | ok \\| saved |");
+    });
+
+    it("resolves mentions and work item references", () => {
+        const html = `<div><a href="#" data-vss-mention="version:2.0,${JANE_ID}">@<${JANE_ID}></a> please check #103</div>`;
+        const markdown = htmlToMarkdown(html, {
+            users: new Map([[JANE_ID, "Jane Doe"]]),
+            workItemTitles: new Map([[103, "Card form loses focus on error"]]),
+            workItemUrl
+        });
+
+        expect(markdown).toBe(`@Jane Doe please check [#103 Card form loses focus on error](${workItemUrl(103)})`);
+    });
+
+    it("drops scripts and styles and decodes entities", () => {
+        expect(htmlToMarkdown("<style>p{}</style><p>Fish &amp; chips&nbsp;&mdash; &#x2713;</p><script>alert(1)</script>")).toBe("Fish & chips — ✓");
+        expect(htmlToMarkdown(undefined)).toBe("");
+    });
+});
+
+describe("findHtmlReferences", () => {
+    it("finds mentioned users and referenced work items", () => {
+        const html = `<p>@<${JANE_ID.toUpperCase()}> see #103, <a href="${workItemUrl(104)}">this task</a> and &#35;not-a-ref</p>`;
+
+        expect(findHtmlReferences(html)).toEqual({ userIds: [JANE_ID], workItemIds: [103, 104] });
+    });
+});
+
+describe("markdownToHtml", () => {
+    it("converts blocks and inline formatting", () => {
+        const markdown = "# Plan\n\nShip **saved cards** _first_.\n\n- one\n  - nested\n- two\n\n```\nconst x = 1 < 2;\n```";
+
+        expect(markdownToHtml(markdown)).toBe(
+            "<h1>Plan</h1><p>Ship <strong>saved cards</strong> <em>first</em>.</p>" +
+            "<ul><li>one<ul><li>nested</li></ul></li><li>two</li></ul>" +
+            "<pre><code>const x = 1 &lt; 2;</code></pre>"
+        );
+    });
+
+    it("links work item references only when given a URL builder, and not inside code", () => {
+        expect(markdownToHtml("Fixes #103 but not `#104`", { workItemUrl })).toBe(
+            `<p>Fixes <a href="${workItemUrl(103)}" data-vss-mention="version:1.0">#103</a> but not <code>#104</code></p>`
+        );
+        expect(markdownToHtml("Fixes #103")).toBe("<p>Fixes #103</p>");
+    });
+
+    it("escapes raw HTML in Markdown", () => {
+        expect(markdownToHtml("a <script> tag")).toBe("<p>a &lt;script&gt; tag</p>");
+    });
+
+    it("round-trips through htmlToMarkdown", () => {
+        const markdown = "## Notes\n\n- **Bold** and [a link](https://contoso.com)\n- `code`\n\n> quoted";
+
+        expect(htmlToMarkdown(markdownToHtml(markdown))).toBe(markdown);
+    });
+});
+
+describe("helpers", () => {
+    it("decodes numeric and named entities, keeping unknown ones", () => {
+        expect(decodeHtmlEntities("&lt;b&gt; &#39;x&#39; &bogus;")).toBe("<b> 'x' &bogus;");
+    });
+
+    it("detects HTML input", () => {
+        expect(looksLikeHtml("<div>Hi</div>")).toBe(true);
+        expect(looksLikeHtml("2 < 3 and **bold**")).toBe(false);
+    });
+});
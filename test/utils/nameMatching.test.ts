@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { rankMatches, resolveByName } from "../../src/utils/nameMatching";
+
+interface Project {
+    id: string;
+    name: string;
+}
+
+const projects: Project[] = [
+    { id: "p1", name: "Fabrikam Web" },
+    { id: "p2", name: "Fabrikam Mobile" },
+    { id: "p3", name: "Internal Tools" }
+];
+const options = { kind: "project", names: (project: Project) => [project.name], id: (project: Project) => project.id };
+const names = (query: string) => rankMatches(projects, query, options).map(match => match.item.name);
+
+describe("rankMatches", () => {
+    it("ranks exact, then prefix, then token, then typo matches", () => {
+        expect(names("fabrikam web")).toEqual(["Fabrikam Web", "Fabrikam Mobile"]);
+        expect(names("Intern")).toEqual(["Internal Tools"]);
+        expect(names("tools")).toEqual(["Internal Tools"]);
+        expect(names("Fabrikam Mobil")).toEqual(["Fabrikam Mobile", "Fabrikam Web"]);
+        expect(names("Internl Tools")).toEqual(["Internal Tools"]);
+    });
+
+    it("drops names that don't match at all", () => {
+        expect(names("Northwind")).toEqual([]);
+    });
+});
+
+describe("resolveByName", () => {
+    it("matches IDs exactly before names", () => {
+        expect(resolveByName(projects, "P3", options).name).toBe("Internal Tools");
+    });
+
+    it("picks a clear best match", () => {
+        expect(resolveByName(projects, "Fabrikam W", options).name).toBe("Fabrikam Web");
+        // A prefix covering more of one name wins by a clear margin
+        expect(resolveByName(projects, "Fabrikam", options).name).toBe("Fabrikam Web");
+    });
+
+    it("fails on ambiguous matches, listing them", () => {
+        const teams = [{ name: "Checkout Team" }, { name: "Checkout Tests" }];
+        expect(() => resolveByName(teams, "Checkout Te", { kind: "team", names: team => [team.name] }))
+            .toThrow('"Checkout Te" matches more than one team: Checkout Team, Checkout Tests. Use the full name, path or ID.');
+    });
+
+    it("fails when nothing matches, listing the candidates", () => {
+        expect(() => resolveByName(projects, "Northwind", options))
+            .toThrow('No matching project found for "Northwind". Available: Fabrikam Web (p1), Fabrikam Mobile (p2), Internal Tools (p3)');
+        expect(() => resolveByName([], "Northwind", options)).toThrow(/^No matching project found for "Northwind"$/);
+    });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { buildWorkItemsWiql, DEFAULT_WORK_ITEMS_WIQL } from "../../src/utils/wiql";
+
+describe("buildWorkItemsWiql", () => {
+    it("ANDs the filters and escapes their values", () => {
+        expect(buildWorkItemsWiql({ states: ["Active"], tags: ["it's urgent"] })).toBe([
+            "SELECT [System.Id], [System.Title], [System.State], [System.WorkItemType],",
+            "       [System.AssignedTo], [System.IterationPath]",
+            "FROM WorkItems",
+            "WHERE [System.State] IN ('Active')",
+            "  AND [System.Tags] CONTAINS 'it''s urgent'",
+            "ORDER BY [System.State], [System.ChangedDate] DESC"
+        ].join("\n"));
+    });
+
+    it("limits the query to the project it is posted to", () => {
+        expect(buildWorkItemsWiql({ states: ["Active"] }, undefined, { inProject: true }))
+            .toContain("WHERE [System.TeamProject] = @project\n  AND [System.State] IN ('Active')");
+        expect(buildWorkItemsWiql({}, undefined, { inProject: true }))
+            .toBe(DEFAULT_WORK_ITEMS_WIQL.replace("WHERE ", "WHERE [System.TeamProject] = @project\n  AND "));
+        expect(buildWorkItemsWiql({ states: ["Active"] })).not.toContain("@project");
+    });
+});
@@ -0,0 +1,25 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+// Tests run inside workerd, like the deployed Worker. Tools get a fake ADO server through
+// AdoClientOptions.fetch; anything that still reaches the network fails instead of calling out.
+export default defineWorkersConfig({
+    test: {
+        include: ["test/**/*.test.ts"],
+        // The MCP SDK's server validates with ajv, a CommonJS package workerd can only load pre-bundled
+        deps: { optimizer: { ssr: { enabled: true, include: ["ajv"] } } },
+        poolOptions: {
+            workers: {
+                // The Worker itself, so tests can drive the session Durable Object
+                main: "./src/index.ts",
+                miniflare: {
+                    compatibilityDate: "2025-03-10",
+                    compatibilityFlags: ["nodejs_compat"],
+                    durableObjects: { MCP_OBJECT: { className: "MyMCP", useSQLite: true } },
+                    bindings: { ADO_ORGANIZATION: "contoso", ADO_SERVER_URL: "https://ado.test" },
+                    outboundService: (request: Request) =>
+                        new Response(`Network access is disabled in tests (${request.url})`, { status: 599 })
+                }
+            }
+        }
+    }
+});